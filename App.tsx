@@ -2,23 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
-import { Prompt, Workflow, SFLAnalysis, UserSettings, TaskType } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Prompt, Workflow, SFLAnalysis, UserSettings, TaskType, TestCase, Collection, ReviewDecision } from './types';
 import { db } from './services/storage';
-import { generatePromptFromSFL, analyzePromptWithSFL, extractSFLFromContext } from './services/orchestrator';
-import DiffViewer from './components/DiffViewer';
+import { streamPromptFromSFL, analyzePromptWithSFL, extractSFLFromContext } from './services/orchestrator';
+import { executeWorkflow, resumeWorkflow } from './services/workflowExecutor';
+import VersionHistoryPanel from './components/VersionHistoryPanel';
 import PromptWizard from './components/PromptWizard';
 import WorkflowEngine from './components/WorkflowEngine';
 import AnalysisPanel from './components/AnalysisPanel';
+import ArenaPanel from './components/ArenaPanel';
+import TestSuitePanel from './components/TestSuitePanel';
 import SettingsModal from './components/SettingsModal';
 import LiveAssistant from './components/LiveAssistant';
+import PromptVariablesPanel from './components/PromptVariablesPanel';
+import LibrarySearch from './components/LibrarySearch';
+import HighlightedText from './components/HighlightedText';
+import TagEditor from './components/TagEditor';
+import TagManager from './components/TagManager';
+import CollectionsManager from './components/CollectionsManager';
+import ImportExportPanel from './components/ImportExportPanel';
+import UsageDashboard from './components/UsageDashboard';
+import { syncVariables } from './services/templating';
+import { createEditSession, applyDraft, hasUncommittedChanges } from './services/editSession';
+import { searchPrompts, excerptAround, SearchFilters } from './services/searchIndex';
+import { StructuredOutputError } from './services/errors';
+import { getVaultStatus, subscribeVault, VaultStatus } from './services/vault';
+import { subscribeUsage, formatUsd, BudgetStatus } from './services/usage';
 import { SFLFieldSchema, SFLTenorSchema, SFLModeSchema } from './schemas';
 import { z } from 'zod';
 import { 
   Terminal, Save, Layers, 
   Settings, Box, Activity, Sparkles, FileText,
   Upload, Loader2, X, Wand2,
-  Menu, PanelRightOpen, ChevronRight, History, User as UserIcon
+  Menu, PanelRightOpen, ChevronRight, History, User as UserIcon, Square, AlertTriangle, Swords, FlaskConical,
+  Tag, Folder, ArrowLeftRight, Lock, BarChart3, PauseCircle
 } from 'lucide-react';
 
 // --- Helpers ---
@@ -117,8 +135,8 @@ const SelectField = ({ label, value, onChange, options, error }: any) => (
 const App: React.FC = () => {
   // Views & UI State
   const [view, setView] = useState<'editor' | 'lab' | 'prompts'>('prompts');
-  const [modal, setModal] = useState<'wizard' | 'settings' | null>(null);
-  const [editorTab, setEditorTab] = useState<'edit' | 'history' | 'analysis'>('edit');
+  const [modal, setModal] = useState<'wizard' | 'settings' | 'tags' | 'collections' | 'transfer' | 'usage' | null>(null);
+  const [editorTab, setEditorTab] = useState<'edit' | 'history' | 'analysis' | 'arena' | 'tests'>('edit');
   const [showInspector, setShowInspector] = useState(true);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
@@ -126,9 +144,16 @@ const App: React.FC = () => {
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [currentPrompt, setCurrentPrompt] = useState<Prompt | null>(null);
   const [analysis, setAnalysis] = useState<SFLAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<{ promptId: string; message: string; issues: string[] } | null>(null);
   const [settings, setSettings] = useState<UserSettings>(db.settings.get());
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [currentWorkflow, setCurrentWorkflow] = useState<Workflow | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetStatus[]>([]);
   
   // Processing State
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -136,17 +161,55 @@ const App: React.FC = () => {
   const [isExtractingSFL, setIsExtractingSFL] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const workflowAbortRef = useRef<AbortController | null>(null);
+
+  // Drafts edits and commits a version after idle; explicit save and generation commit directly
+  const editSession = useMemo(() => createEditSession({
+      onIdleCommit: saved => {
+          // Take the new version's metadata without clobbering anything typed since
+          setCurrentPrompt(prev => prev && prev.id === saved.id
+              ? { ...prev, version: saved.version, history: saved.history, branch: saved.branch, parentVersion: saved.parentVersion, versionTags: saved.versionTags, changeDescription: saved.changeDescription }
+              : prev);
+          refreshPrompts();
+      }
+  }), []);
 
   // --- Initialization ---
   useEffect(() => {
-    setPrompts(db.prompts.getAll());
-    setWorkflows(db.workflows.getAll());
+    refreshPrompts();
+    refreshWorkflows();
+    refreshCollections();
     setSettings(db.settings.get());
+    return () => editSession.flush();
   }, []);
 
+  useEffect(() => subscribeVault(setVaultStatus), []);
+
+  // Only budgets that just crossed into warning or exceeded are reported, so each alert shows once per level
+  useEffect(() => subscribeUsage((_, alerts) => {
+      if (alerts.length > 0) setBudgetAlerts(prev => [...prev.filter(a => !alerts.some(n => n.period === a.period)), ...alerts]);
+  }), []);
+
+  const refreshPrompts = async () => setPrompts(await db.prompts.getAll());
+  // A run never outlives the page, so a stored RUNNING status (saved by older versions) means it was interrupted
+  const refreshWorkflows = async () => setWorkflows((await db.workflows.getAll()).map(w => w.status === 'RUNNING' ? { ...w, status: 'FAILED' } : w));
+  const refreshCollections = async () => setCollections(await db.collections.getAll());
+
+  // Switching prompts keeps the outgoing edits as a draft
+  const openPrompt = (prompt: Prompt) => {
+      editSession.flush();
+      setCurrentPrompt(applyDraft(prompt));
+  };
+
+  const editPrompt = (updated: Prompt) => {
+      setCurrentPrompt(updated);
+      editSession.update(updated);
+  };
+
   // --- Core Actions ---
 
-  const createNewPrompt = () => {
+  const createNewPrompt = async () => {
     const newPrompt: Prompt = {
         id: Date.now().toString(),
         title: 'Untitled Project',
@@ -161,11 +224,11 @@ const App: React.FC = () => {
             mode: { channel: 'Written', medium: 'Text', rhetoricalMode: 'Descriptive' }
         }
     };
-    db.prompts.save(newPrompt);
-    setPrompts(db.prompts.getAll());
-    setCurrentPrompt(newPrompt);
+    const saved = await db.prompts.save(newPrompt);
+    await refreshPrompts();
+    openPrompt(saved);
     setAnalysis(null);
-    return newPrompt;
+    return saved;
   };
 
   const handleUpdateSFL = (category: string, key: string, value: string): boolean => {
@@ -219,41 +282,149 @@ const App: React.FC = () => {
           updatedAt: Date.now()
       };
       
-      setCurrentPrompt(updated);
-      db.prompts.save(updated); // Persist immediately for voice commands
+      editPrompt(updated);
       return true;
   };
   
-  const handleSave = () => {
+  // Restore and fork replace the editor content, so unsaved edits need confirming first
+  const confirmDiscardEdits = () => {
+      const stored = prompts.find(p => p.id === currentPrompt?.id);
+      return !stored || !currentPrompt || !hasUncommittedChanges(stored, currentPrompt) || window.confirm("Discard unsaved edits to this prompt?");
+  };
+
+  const handleCheckoutVersion = async (version: number, branch?: string) => {
+      if (!currentPrompt || !confirmDiscardEdits()) return;
+      try {
+          editSession.cancel();
+          const updated = await db.prompts.checkout(currentPrompt.id, version, { branch });
+          setCurrentPrompt(updated);
+          await refreshPrompts();
+          setEditorTab('edit');
+      } catch (e) { console.error("Version checkout failed", e); }
+  };
+
+  const handleTagVersion = async (version: number, tags: string[], changeDescription: string) => {
+      if (!currentPrompt) return;
+      try {
+          const updated = await db.prompts.tagVersion(currentPrompt.id, version, tags, changeDescription);
+          // Only version metadata changed; keep any unsaved edits in the editor
+          setCurrentPrompt(prev => prev && prev.id === updated.id
+              ? { ...prev, versionTags: updated.versionTags, changeDescription: updated.changeDescription, history: updated.history }
+              : prev);
+          await refreshPrompts();
+      } catch (e) { console.error("Tagging failed", e); }
+  };
+
+  const handleUpdateTestSuite = (testSuite: TestCase[]) => {
+      if (!currentPrompt) return;
+      setCurrentPrompt({ ...currentPrompt, testSuite });
+      // Persist onto the stored record so unsaved content edits don't get versioned along with the suite
+      db.prompts.getById(currentPrompt.id)
+        .then(stored => stored && db.prompts.save({ ...stored, testSuite }))
+        .catch(e => console.error("Test suite save failed", e));
+  };
+
+  // Tags are metadata: save them onto the stored record so unsaved edits aren't committed with them
+  const handleUpdateTags = (tags: string[]) => {
+      if (!currentPrompt) return;
+      setCurrentPrompt({ ...currentPrompt, tags });
+      db.prompts.getById(currentPrompt.id)
+        .then(stored => stored && db.prompts.save({ ...stored, tags }))
+        .then(() => refreshPrompts())
+        .catch(e => console.error("Tag save failed", e));
+  };
+
+  // Library-wide tag changes: reload, carry the new tags into the editor and drop a stale tag filter
+  const applyTagChange = async (change: Promise<void>) => {
+      await change;
+      const all = await db.prompts.getAll();
+      setPrompts(all);
+      setCurrentPrompt(prev => {
+          const stored = prev && all.find(p => p.id === prev.id);
+          return prev && stored ? { ...prev, tags: stored.tags } : prev;
+      });
+      setSearchFilters(prev => ({ ...prev, tag: undefined }));
+  };
+
+  const handleSaveCollection = async (collection: Collection) => {
+      const saved = await db.collections.save(collection);
+      await refreshCollections();
+      return saved;
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+      await db.collections.delete(id);
+      if (activeCollectionId === id) setActiveCollectionId(null);
+      await refreshCollections();
+  };
+
+  const toggleCollectionMember = (collection: Collection, promptId: string) => {
+      const promptIds = collection.promptIds.includes(promptId)
+          ? collection.promptIds.filter(id => id !== promptId)
+          : [...collection.promptIds, promptId];
+      handleSaveCollection({ ...collection, promptIds }).catch(e => console.error("Collection save failed", e));
+  };
+
+  const handleSave = async () => {
       if (currentPrompt) {
-        db.prompts.save({ ...currentPrompt, updatedAt: Date.now() });
-        setPrompts(db.prompts.getAll()); 
+        const saved = await editSession.commit({ ...currentPrompt, variables: syncVariables(currentPrompt.content, currentPrompt.variables), updatedAt: Date.now() });
+        setCurrentPrompt(saved);
+        await refreshPrompts();
       }
   };
 
   const handleGenerate = async () => {
       if (!currentPrompt) return;
+      const original = currentPrompt;
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
+      // Pending edits stay a draft until the generated text is committed
+      editSession.flush();
       setIsGenerating(true);
       try {
-          const generated = await generatePromptFromSFL(currentPrompt.sfl, currentPrompt.content);
-          const updated = { ...currentPrompt, content: generated, updatedAt: Date.now() };
-          db.prompts.save(updated);
-          setPrompts(db.prompts.getAll());
-          setCurrentPrompt(updated);
-      } catch (e) { console.error("Generation failed", e); } finally { setIsGenerating(false); }
+          // Render tokens into the editor as they stream in
+          let generated = '';
+          for await (const chunk of streamPromptFromSFL(original.sfl, original.content, controller.signal, { source: 'generation', promptId: original.id })) {
+              generated += chunk;
+              setCurrentPrompt(prev => prev && prev.id === original.id ? { ...prev, content: generated } : prev);
+          }
+          const saved = await editSession.commit({ ...original, content: generated, updatedAt: Date.now() }, 'Generated from SFL profile');
+          await refreshPrompts();
+          setCurrentPrompt(prev => prev && prev.id === original.id ? saved : prev);
+      } catch (e) {
+          // Cancelled or failed mid-stream: restore the text from before generation
+          setCurrentPrompt(prev => prev && prev.id === original.id ? { ...prev, content: original.content } : prev);
+          if (!controller.signal.aborted) console.error("Generation failed", e);
+      } finally {
+          generationAbortRef.current = null;
+          setIsGenerating(false);
+      }
+  };
+
+  const handleCancelGenerate = () => {
+      generationAbortRef.current?.abort();
   };
 
   const handleAnalyze = async () => {
     if (!currentPrompt || !currentPrompt.content) return;
     setIsAnalyzing(true);
+    setAnalysisError(null);
     setEditorTab('analysis');
     try {
-        const result = await analyzePromptWithSFL(currentPrompt.content, currentPrompt.sfl);
+        const result = await analyzePromptWithSFL(currentPrompt.content, currentPrompt.sfl, { source: 'analysis', promptId: currentPrompt.id });
         setAnalysis(result);
-        const updated = { ...currentPrompt, lastAnalysis: result };
-        db.prompts.save(updated);
-        setPrompts(db.prompts.getAll());
-    } catch (e) { console.error("Analysis failed", e); } finally { setIsAnalyzing(false); }
+        // Attach to the stored record; analysing shouldn't commit a version of the editor state
+        const stored = await db.prompts.getById(currentPrompt.id);
+        if (stored) await db.prompts.save({ ...stored, lastAnalysis: result });
+        await refreshPrompts();
+    } catch (e: any) {
+        console.error("Analysis failed", e);
+        setAnalysisError({
+            promptId: currentPrompt.id,
+            message: e?.message || "Analysis failed.",
+            issues: e instanceof StructuredOutputError ? e.issues : []
+        });
+    } finally { setIsAnalyzing(false); }
   };
 
   const handleSourceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -270,11 +441,53 @@ const App: React.FC = () => {
                   mode: { ...currentPrompt.sfl.mode, ...extractedSFL.mode }
               }
           };
-          setCurrentPrompt(updated);
+          editPrompt(updated);
           setValidationErrors({}); 
       } catch (e) { console.error(e); } finally { setIsExtractingSFL(false); }
   };
 
+  // Runs only own status, logs and lastRun; everything else comes from the latest edit of the workflow,
+  // so graph changes saved while a run is going aren't overwritten by the graph it started with
+  const withRunState = (base: Workflow, run: Workflow): Workflow => ({ ...base, status: run.status, logs: run.logs, lastRun: run.lastRun });
+
+  const showRunState = (run: Workflow) => setCurrentWorkflow(prev => prev && prev.id === run.id ? withRunState(prev, run) : prev);
+
+  const saveRunResult = async (run: Workflow) => {
+      const latest = await db.workflows.getById(run.id);
+      await db.workflows.save(withRunState(latest || run, run));
+      await refreshWorkflows();
+  };
+
+  const handleRunWorkflow = async (w: Workflow) => {
+      if (w.status === 'RUNNING') return;
+      const controller = new AbortController();
+      workflowAbortRef.current = controller;
+      try {
+          const result = await executeWorkflow(w, { onUpdate: showRunState, signal: controller.signal });
+          await saveRunResult(result);
+      } catch (e) {
+          console.error("Workflow run failed", e);
+          showRunState({ ...w, status: 'FAILED' });
+      } finally {
+          workflowAbortRef.current = null;
+      }
+  };
+
+  const handleReviewTask = async (w: Workflow, taskId: string, review: ReviewDecision) => {
+      if (w.status !== 'AWAITING_REVIEW') return;
+      const controller = new AbortController();
+      workflowAbortRef.current = controller;
+      try {
+          const result = await resumeWorkflow(w, taskId, review, { onUpdate: showRunState, signal: controller.signal });
+          await saveRunResult(result);
+      } catch (e) {
+          console.error("Resuming workflow failed", e);
+          showRunState({ ...w, status: 'FAILED' });
+      } finally {
+          workflowAbortRef.current = null;
+      }
+  };
+
   // --- Live Assistant Handlers ---
 
   const handleLiveToolCall = async (name: string, args: any) => {
@@ -312,9 +525,7 @@ const App: React.FC = () => {
       
       if (name === 'replacePromptContent') {
           if (!currentPrompt) return "No active prompt.";
-          const updated = { ...currentPrompt, content: args.content, updatedAt: Date.now() };
-          setCurrentPrompt(updated);
-          db.prompts.save(updated);
+          editPrompt({ ...currentPrompt, content: args.content, updatedAt: Date.now() });
           return "Prompt content updated.";
       }
 
@@ -331,8 +542,8 @@ const App: React.FC = () => {
               ],
               logs: []
           };
-          db.workflows.save(newWf);
-          setWorkflows(db.workflows.getAll());
+          await db.workflows.save(newWf);
+          await refreshWorkflows();
           setCurrentWorkflow(newWf);
           setView('lab');
           return "Workflow created and opened.";
@@ -340,6 +551,26 @@ const App: React.FC = () => {
       return "Unknown tool";
   };
 
+  // The index is updated by storage before `prompts` refreshes, so re-query whenever the list changes
+  const search = useMemo(() => searchPrompts(searchQuery, searchFilters), [searchQuery, searchFilters, prompts]);
+  const activeCollection = collections.find(c => c.id === activeCollectionId);
+  const visiblePrompts = useMemo(() => {
+      const byId = new Map(prompts.map(p => [p.id, p]));
+      return search.hits
+        .map(hit => ({ prompt: byId.get(hit.id)!, hit }))
+        .filter(r => r.prompt && (!activeCollection || activeCollection.promptIds.includes(r.prompt.id)));
+  }, [search, prompts, activeCollection]);
+  const collectionWorkflows = activeCollection ? workflows.filter(w => activeCollection.workflowIds.includes(w.id)) : [];
+
+  const tagCounts = useMemo(() => {
+      const counts = new Map<string, number>();
+      prompts.forEach(p => p.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+      return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag));
+  }, [prompts]);
+
+  const storedPrompt = prompts.find(p => p.id === currentPrompt?.id);
+  const hasUnsavedEdits = !!storedPrompt && !!currentPrompt && hasUncommittedChanges(storedPrompt, currentPrompt);
+
   // --- Render ---
 
   return (
@@ -377,7 +608,7 @@ const App: React.FC = () => {
              
              <NavItem icon={Layers} label="Dashboard" active={view === 'prompts'} onClick={() => { setView('prompts'); setIsMobileMenuOpen(false); }} />
              <NavItem icon={Terminal} label="Editor" active={view === 'editor'} onClick={() => { 
-                 if (!currentPrompt && prompts.length > 0) setCurrentPrompt(prompts[0]);
+                 if (!currentPrompt && prompts.length > 0) openPrompt(prompts[0]);
                  setView('editor'); 
                  setIsMobileMenuOpen(false); 
             }} />
@@ -392,9 +623,13 @@ const App: React.FC = () => {
                  </div>
                  <div className="flex-1 text-left min-w-0">
                      <p className="text-xs font-bold text-slate-300 truncate">Settings</p>
-                     <p className="text-[10px] text-slate-500 truncate">{settings.generation.provider}</p>
+                     <p className={`text-[10px] truncate ${vaultStatus === 'locked' ? 'text-amber-400' : 'text-slate-500'}`}>
+                         {vaultStatus === 'locked' ? 'API keys locked' : settings.generation.provider}
+                     </p>
                  </div>
-                 <Settings className="w-4 h-4 text-slate-500 group-hover:text-primary-400" />
+                 {vaultStatus === 'locked'
+                     ? <Lock className="w-4 h-4 text-amber-400" />
+                     : <Settings className="w-4 h-4 text-slate-500 group-hover:text-primary-400" />}
              </button>
         </div>
       </aside>
@@ -425,7 +660,60 @@ const App: React.FC = () => {
             
             {/* --- DASHBOARD VIEW --- */}
             {view === 'prompts' && (
-                <div className="h-full overflow-y-auto p-4 md:p-8 pt-16 lg:pt-8">
+                <div className="h-full overflow-y-auto p-4 md:p-8 pt-16 lg:pt-8 space-y-6">
+                    <LibrarySearch
+                        query={searchQuery}
+                        filters={searchFilters}
+                        facets={search.facets}
+                        resultCount={visiblePrompts.length}
+                        totalCount={prompts.length}
+                        onQueryChange={setSearchQuery}
+                        onFiltersChange={setSearchFilters}
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button
+                            onClick={() => setActiveCollectionId(null)}
+                            className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${!activeCollection ? 'bg-primary-600/20 text-primary-400' : 'text-slate-400 hover:bg-slate-800'}`}
+                        >
+                            All Prompts
+                        </button>
+                        {collections.map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => setActiveCollectionId(c.id)}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${c.id === activeCollectionId ? 'bg-primary-600/20 text-primary-400' : 'text-slate-400 hover:bg-slate-800'}`}
+                            >
+                                <Folder className="w-3 h-3" /> {c.name}
+                            </button>
+                        ))}
+                        <span className="flex-1" />
+                        <button onClick={() => setModal('collections')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-800 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-colors">
+                            <Folder className="w-3.5 h-3.5" /> Collections
+                        </button>
+                        <button onClick={() => setModal('tags')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-800 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-colors">
+                            <Tag className="w-3.5 h-3.5" /> Tags
+                        </button>
+                        <button onClick={() => setModal('transfer')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-800 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-colors">
+                            <ArrowLeftRight className="w-3.5 h-3.5" /> Import / Export
+                        </button>
+                        <button onClick={() => setModal('usage')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-800 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-colors">
+                            <BarChart3 className="w-3.5 h-3.5" /> Usage
+                        </button>
+                    </div>
+                    {collectionWorkflows.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Workflows</span>
+                            {collectionWorkflows.map(w => (
+                                <button
+                                    key={w.id}
+                                    onClick={() => { setCurrentWorkflow(w); setView('lab'); }}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-xs text-slate-300 hover:border-slate-600 transition-colors"
+                                >
+                                    <Box className="w-3.5 h-3.5 text-slate-500" /> {w.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                     <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6">
                         {/* New Project Action Card */}
                         <button 
@@ -442,8 +730,8 @@ const App: React.FC = () => {
                             </div>
                         </button>
 
-                        {prompts.map(p => (
-                            <div key={p.id} onClick={() => { setCurrentPrompt(p); setView('editor'); }} className="group relative h-56 bg-slate-900 rounded-2xl border border-slate-800 hover:border-slate-600 transition-all cursor-pointer p-6 flex flex-col justify-between hover:shadow-2xl hover:-translate-y-1">
+                        {visiblePrompts.map(({ prompt: p, hit }) => (
+                            <div key={p.id} onClick={() => { openPrompt(p); setView('editor'); }} className="group relative h-56 bg-slate-900 rounded-2xl border border-slate-800 hover:border-slate-600 transition-all cursor-pointer p-6 flex flex-col justify-between hover:shadow-2xl hover:-translate-y-1">
                                 <div>
                                     <div className="flex justify-between items-start mb-2">
                                         <div className="p-2 rounded bg-slate-800 text-slate-400 group-hover:bg-primary-500 group-hover:text-white transition-colors">
@@ -455,12 +743,19 @@ const App: React.FC = () => {
                                             </div>
                                         )}
                                     </div>
-                                    <h3 className="font-bold text-lg text-slate-200 group-hover:text-primary-400 transition-colors line-clamp-2">{p.title}</h3>
+                                    <h3 className="font-bold text-lg text-slate-200 group-hover:text-primary-400 transition-colors line-clamp-2">
+                                        <HighlightedText text={p.title} terms={search.terms} />
+                                    </h3>
+                                    {hit.matchedFields.includes('content') && (
+                                        <p className="mt-2 text-xs text-slate-500 line-clamp-2">
+                                            <HighlightedText text={excerptAround(p.content, search.terms)} terms={search.terms} />
+                                        </p>
+                                    )}
                                 </div>
                                 <div className="space-y-3">
                                     <div className="flex gap-2">
-                                        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 bg-slate-950 px-2 py-1 rounded border border-slate-800">{p.sfl.mode.channel}</span>
-                                        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 bg-slate-950 px-2 py-1 rounded border border-slate-800">{p.sfl.tenor.affect}</span>
+                                        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 bg-slate-950 px-2 py-1 rounded border border-slate-800"><HighlightedText text={p.sfl.mode.channel} terms={search.terms} /></span>
+                                        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 bg-slate-950 px-2 py-1 rounded border border-slate-800"><HighlightedText text={p.sfl.tenor.affect} terms={search.terms} /></span>
                                     </div>
                                     <p className="text-[10px] text-slate-600 font-mono">Updated {new Date(p.updatedAt).toLocaleDateString()}</p>
                                 </div>
@@ -481,6 +776,8 @@ const App: React.FC = () => {
                                 {[
                                     { id: 'edit', label: 'Editor', icon: Terminal },
                                     { id: 'analysis', label: 'Analysis', icon: Activity },
+                                    { id: 'arena', label: 'Arena', icon: Swords },
+                                    { id: 'tests', label: 'Tests', icon: FlaskConical },
                                     { id: 'history', label: 'History', icon: History }
                                 ].map(tab => (
                                     <button
@@ -512,13 +809,14 @@ const App: React.FC = () => {
                                     <input 
                                         className="bg-transparent text-2xl font-bold font-display text-slate-200 outline-none placeholder:text-slate-700"
                                         value={currentPrompt.title}
-                                        onChange={(e) => setCurrentPrompt({...currentPrompt, title: e.target.value})}
+                                        onChange={(e) => editPrompt({...currentPrompt, title: e.target.value})}
                                         placeholder="Project Title..."
                                     />
                                     <div className="flex-1 bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-sm relative group">
                                         <textarea 
                                             value={currentPrompt.content}
-                                            onChange={(e) => setCurrentPrompt({...currentPrompt, content: e.target.value})}
+                                            onChange={(e) => editPrompt({...currentPrompt, content: e.target.value})}
+                                            readOnly={isGenerating}
                                             className="w-full h-full bg-slate-900 p-6 text-slate-200 font-mono text-sm leading-relaxed outline-none resize-none"
                                             placeholder="Write your prompt here..."
                                         />
@@ -532,6 +830,20 @@ const App: React.FC = () => {
                             {/* Analysis View */}
                             <div className={`absolute inset-0 p-4 md:p-8 overflow-auto bg-slate-950 ${editorTab === 'analysis' ? 'block' : 'hidden'}`}>
                                 <div className="max-w-3xl mx-auto">
+                                    {analysisError && analysisError.promptId === currentPrompt.id && (
+                                        <div className="mb-6 p-4 bg-red-950/30 border border-red-900/50 rounded-xl flex gap-3">
+                                            <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+                                            <div className="space-y-2 min-w-0">
+                                                <p className="text-sm font-bold text-red-300">Analysis failed</p>
+                                                <p className="text-xs text-red-300/80">{analysisError.message}</p>
+                                                {analysisError.issues.length > 0 && (
+                                                    <ul className="text-[11px] font-mono text-red-300/60 list-disc pl-4 space-y-0.5">
+                                                        {analysisError.issues.map((issue, i) => <li key={i} className="break-words">{issue}</li>)}
+                                                    </ul>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
                                     {(analysis || currentPrompt.lastAnalysis) ? (
                                         <AnalysisPanel analysis={analysis || currentPrompt.lastAnalysis!} />
                                     ) : (
@@ -544,25 +856,29 @@ const App: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Arena View */}
+                            <div className={`absolute inset-0 p-4 md:p-8 overflow-auto bg-slate-950 ${editorTab === 'arena' ? 'block' : 'hidden'}`}>
+                                <div className="max-w-6xl mx-auto">
+                                    <ArenaPanel prompt={currentPrompt} defaultTarget={settings.generation} />
+                                </div>
+                            </div>
+
+                            {/* Tests View */}
+                            <div className={`absolute inset-0 p-4 md:p-8 overflow-auto bg-slate-950 ${editorTab === 'tests' ? 'block' : 'hidden'}`}>
+                                <div className="max-w-4xl mx-auto">
+                                    <TestSuitePanel prompt={currentPrompt} onSuiteChange={handleUpdateTestSuite} />
+                                </div>
+                            </div>
+
                             {/* History View */}
                             <div className={`absolute inset-0 p-4 md:p-8 overflow-auto bg-slate-950 ${editorTab === 'history' ? 'block' : 'hidden'}`}>
                                 <div className="max-w-3xl mx-auto">
-                                    <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-4">Version History</h3>
-                                    {currentPrompt.history.length > 0 ? (
-                                        <div className="space-y-4">
-                                            {currentPrompt.history.map((ver, idx) => (
-                                                <div key={idx} className="space-y-2">
-                                                    <div className="flex justify-between text-xs text-slate-500">
-                                                        <span>v{ver.version}</span>
-                                                        <span>{new Date(ver.timestamp).toLocaleString()}</span>
-                                                    </div>
-                                                    <DiffViewer oldText={currentPrompt.history[idx+1]?.content || ''} newText={ver.content} />
-                                                </div>
-                                            ))}
-                                        </div>
-                                    ) : (
-                                        <p className="text-slate-600 italic text-sm">No history recorded yet.</p>
-                                    )}
+                                    <VersionHistoryPanel
+                                        prompt={currentPrompt}
+                                        onRestore={version => handleCheckoutVersion(version)}
+                                        onFork={(version, branch) => handleCheckoutVersion(version, branch)}
+                                        onTag={handleTagVersion}
+                                    />
                                 </div>
                             </div>
 
@@ -577,18 +893,29 @@ const App: React.FC = () => {
                                     Analyze
                                 </button>
                                 <div className="w-px h-4 bg-slate-700"></div>
-                                <button onClick={handleSave} className="p-2 hover:bg-slate-700 rounded-full text-slate-300 transition-colors" title="Save">
+                                <button onClick={handleSave} className="relative p-2 hover:bg-slate-700 rounded-full text-slate-300 transition-colors" title={hasUnsavedEdits ? "Save version (unsaved edits are kept as a draft)" : "Save"}>
                                     <Save className="w-4 h-4" />
+                                    {hasUnsavedEdits && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-amber-400" />}
                                 </button>
                                 <div className="w-px h-4 bg-slate-700"></div>
-                                <button 
-                                    onClick={handleGenerate}
-                                    disabled={isGenerating || Object.keys(validationErrors).length > 0}
-                                    className="px-5 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-full text-xs font-bold flex items-center gap-2 transition-all shadow-lg shadow-primary-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                    {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
-                                    Generate
-                                </button>
+                                {isGenerating ? (
+                                    <button 
+                                        onClick={handleCancelGenerate}
+                                        className="px-5 py-2 bg-red-600 hover:bg-red-500 text-white rounded-full text-xs font-bold flex items-center gap-2 transition-all shadow-lg shadow-red-900/50"
+                                    >
+                                        <Square className="w-3.5 h-3.5 fill-current" />
+                                        Stop
+                                    </button>
+                                ) : (
+                                    <button 
+                                        onClick={handleGenerate}
+                                        disabled={Object.keys(validationErrors).length > 0}
+                                        className="px-5 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-full text-xs font-bold flex items-center gap-2 transition-all shadow-lg shadow-primary-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Sparkles className="w-4 h-4" />
+                                        Generate
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -655,6 +982,39 @@ const App: React.FC = () => {
                                     <InputField label="Medium" value={currentPrompt.sfl.mode.medium} onChange={(v: string) => handleUpdateSFL('mode', 'medium', v)} />
                                 </div>
                             </div>
+
+                            {/* Organisation */}
+                            <div className="space-y-3">
+                                <h4 className="text-[10px] font-bold text-slate-400 flex items-center gap-2 uppercase tracking-widest">
+                                    <Tag className="w-3 h-3" /> Tags & Collections
+                                </h4>
+                                <div className="space-y-3 pl-2 border-l border-slate-800">
+                                    <TagEditor tags={currentPrompt.tags} suggestions={tagCounts.map(t => t.tag)} onChange={handleUpdateTags} />
+                                    {collections.length > 0 && (
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {collections.map(c => {
+                                                const isMember = c.promptIds.includes(currentPrompt.id);
+                                                return (
+                                                    <button
+                                                        key={c.id}
+                                                        onClick={() => toggleCollectionMember(c, currentPrompt.id)}
+                                                        className={`flex items-center gap-1 px-2 py-1 rounded-full border text-[11px] transition-colors ${isMember ? 'bg-primary-500/10 border-primary-500/40 text-primary-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                                                    >
+                                                        <Folder className="w-3 h-3" /> {c.name}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* Template Variables */}
+                            <PromptVariablesPanel
+                                content={currentPrompt.content}
+                                variables={currentPrompt.variables}
+                                onChange={(variables) => editPrompt({ ...currentPrompt, variables })}
+                            />
                         </div>
                     </div>
                 </div>
@@ -672,24 +1032,38 @@ const App: React.FC = () => {
                              <div className="flex-1 overflow-hidden relative">
                                  <WorkflowEngine 
                                     workflow={currentWorkflow}
-                                    onSave={(w) => { db.workflows.save(w); setCurrentWorkflow(w); }}
-                                    onRun={(w) => {
-                                        const runningW = { ...w, status: 'RUNNING', lastRun: Date.now() } as Workflow;
-                                        setCurrentWorkflow(runningW);
-                                        setTimeout(() => {
-                                            setCurrentWorkflow({ ...runningW, status: 'COMPLETED' });
-                                        }, 2000);
+                                    onSave={(w) => {
+                                        setCurrentWorkflow(w);
+                                        // Edits made mid-run are stored as idle; the run's own result is merged on top when it ends
+                                        db.workflows.save(w.status === 'RUNNING' ? { ...w, status: 'IDLE' } : w).catch(e => console.error("Workflow save failed", e));
                                     }}
+                                    onRun={handleRunWorkflow}
+                                    onReview={(taskId, review) => handleReviewTask(currentWorkflow, taskId, review)}
+                                    onCancel={() => workflowAbortRef.current?.abort()}
                                  />
                              </div>
                         </div>
                     ) : (
-                        <div className="p-8">
+                        <div className="p-8 space-y-8">
+                            {workflows.some(w => w.status === 'AWAITING_REVIEW') && (
+                                <div className="space-y-2">
+                                    <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Awaiting Review</h3>
+                                    {workflows.filter(w => w.status === 'AWAITING_REVIEW').map(w => (
+                                        <button key={w.id} onClick={() => setCurrentWorkflow(w)} className="w-full flex items-center gap-3 px-4 py-3 rounded-xl bg-amber-950/20 border border-amber-900/40 hover:border-amber-500/50 text-left transition-colors">
+                                            <PauseCircle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                                            <span className="flex-1 text-sm font-bold text-slate-200 truncate">{w.name}</span>
+                                            <span className="text-[11px] text-slate-500">Run started {w.lastRun ? new Date(w.lastRun).toLocaleString() : ''}</span>
+                                            <span className="text-xs font-bold text-amber-400">Review & resume</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                                 <button 
-                                    onClick={() => {
+                                    onClick={async () => {
                                         const w = { id: `wf-${Date.now()}`, name: 'New Workflow', tasks: [], logs: [], status: 'IDLE' } as Workflow;
-                                        db.workflows.save(w);
+                                        await db.workflows.save(w);
+                                        await refreshWorkflows();
                                         setCurrentWorkflow(w);
                                     }}
                                     className="h-40 rounded-xl border border-dashed border-slate-700 hover:border-primary-500 hover:bg-slate-900/50 flex flex-col items-center justify-center gap-3 text-slate-500 hover:text-primary-400 transition-all group"
@@ -701,7 +1075,7 @@ const App: React.FC = () => {
                                     <div key={w.id} onClick={() => setCurrentWorkflow(w)} className="h-40 bg-slate-900 border border-slate-800 rounded-xl p-6 hover:border-slate-600 cursor-pointer transition-all flex flex-col justify-between group hover:shadow-lg">
                                         <div className="flex justify-between items-start">
                                             <div className="p-2 bg-slate-800 rounded text-slate-400 group-hover:text-primary-400 transition-colors"><Box className="w-5 h-5" /></div>
-                                            <span className="text-xs text-slate-600 bg-slate-950 px-2 py-1 rounded">{w.status}</span>
+                                            <span className={`text-xs bg-slate-950 px-2 py-1 rounded ${w.status === 'AWAITING_REVIEW' ? 'text-amber-400' : 'text-slate-600'}`}>{w.status}</span>
                                         </div>
                                         <div>
                                             <h3 className="font-bold text-slate-200 group-hover:text-white transition-colors">{w.name}</h3>
@@ -737,12 +1111,11 @@ const App: React.FC = () => {
           <ModalShell onClose={() => setModal(null)}>
               <PromptWizard 
                 onCancel={() => setModal(null)}
-                onComplete={(p) => {
-                    const basePrompt = createNewPrompt();
-                    const newP = { ...basePrompt, ...p };
-                    db.prompts.save(newP as Prompt);
-                    setPrompts(db.prompts.getAll());
-                    setCurrentPrompt(newP as Prompt);
+                onComplete={async (p) => {
+                    const basePrompt = await createNewPrompt();
+                    const newP = await db.prompts.save({ ...basePrompt, ...p } as Prompt);
+                    await refreshPrompts();
+                    openPrompt(newP);
                     setModal(null);
                     setView('editor');
                 }}
@@ -750,6 +1123,77 @@ const App: React.FC = () => {
           </ModalShell>
       )}
 
+      {modal === 'tags' && (
+          <ModalShell onClose={() => setModal(null)}>
+              <TagManager
+                tags={tagCounts}
+                onRename={(from, to) => applyTagChange(db.tags.rename(from, to))}
+                onMerge={(from, to) => applyTagChange(db.tags.merge(from, to))}
+                onDelete={tag => applyTagChange(db.tags.delete(tag))}
+              />
+          </ModalShell>
+      )}
+
+      {modal === 'collections' && (
+          <ModalShell onClose={() => setModal(null)}>
+              <CollectionsManager
+                collections={collections}
+                prompts={prompts}
+                workflows={workflows}
+                onSave={handleSaveCollection}
+                onDelete={handleDeleteCollection}
+              />
+          </ModalShell>
+      )}
+
+      {modal === 'transfer' && (
+          <ModalShell onClose={() => setModal(null)}>
+              <ImportExportPanel
+                prompts={prompts}
+                workflows={workflows}
+                onImported={() => {
+                    refreshPrompts();
+                    refreshWorkflows();
+                    refreshCollections();
+                    setSettings(db.settings.get());
+                }}
+              />
+          </ModalShell>
+      )}
+
+      {modal === 'usage' && (
+          <ModalShell onClose={() => setModal(null)}>
+              <UsageDashboard
+                prompts={prompts}
+                workflows={workflows}
+                settings={settings}
+                onSaveSettings={(newSettings) => {
+                    db.settings.save(newSettings);
+                    setSettings(newSettings);
+                }}
+              />
+          </ModalShell>
+      )}
+
+      {budgetAlerts.length > 0 && (
+          <div className="fixed bottom-4 right-4 z-40 w-80 space-y-2">
+              {budgetAlerts.map(alert => (
+                  <div key={alert.period} className={`p-3 rounded-xl border flex gap-3 shadow-xl ${alert.level === 'exceeded' ? 'bg-red-950/90 border-red-900/50' : 'bg-amber-950/90 border-amber-900/50'}`}>
+                      <AlertTriangle className={`w-4 h-4 flex-shrink-0 mt-0.5 ${alert.level === 'exceeded' ? 'text-red-400' : 'text-amber-400'}`} />
+                      <div className="flex-1 min-w-0">
+                          <p className="text-xs font-bold text-slate-200 capitalize">{alert.period} budget {alert.level === 'exceeded' ? 'exceeded' : 'nearly used'}</p>
+                          <button onClick={() => { setBudgetAlerts([]); setModal('usage'); }} className="text-[11px] text-slate-400 hover:text-slate-200">
+                              {formatUsd(alert.spentUsd)} of {formatUsd(alert.limitUsd)} spent · View usage
+                          </button>
+                      </div>
+                      <button onClick={() => setBudgetAlerts(prev => prev.filter(a => a.period !== alert.period))} className="text-slate-500 hover:text-slate-300">
+                          <X className="w-3.5 h-3.5" />
+                      </button>
+                  </div>
+              ))}
+          </div>
+      )}
+
       {modal === 'settings' && (
           <ModalShell onClose={() => setModal(null)}>
               <SettingsModal
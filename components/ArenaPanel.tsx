@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Prompt, AIModel, ModelTarget, Evaluation, EvaluationResult } from '../types';
+import { db } from '../services/storage';
+import { runArena } from '../services/arena';
+import { getAvailableModels } from '../services/orchestrator';
+import { listProviders } from '../services/providers';
+import { Swords, Plus, X, Play, Loader2, Clock, Hash, AlertTriangle, Target } from 'lucide-react';
+
+interface ArenaPanelProps {
+  prompt: Prompt;
+  defaultTarget: ModelTarget;
+}
+
+const targetKey = (t: ModelTarget) => `${t.provider}:${t.model}`;
+
+const ResultColumn: React.FC<{ target: ModelTarget; result?: EvaluationResult | null; loading: boolean }> = ({ target, result, loading }) => (
+  <div className="flex flex-col bg-slate-900 border border-slate-800 rounded-xl overflow-hidden min-w-0">
+      <div className="px-4 py-3 border-b border-slate-800 bg-slate-950/50">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{target.provider}</p>
+          <p className="text-sm font-mono text-slate-200 truncate" title={target.model}>{target.model}</p>
+      </div>
+      {loading && !result ? (
+          <div className="flex-1 flex items-center justify-center p-8 text-slate-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+      ) : result ? (
+          <>
+              <div className="flex flex-wrap gap-3 px-4 py-2 border-b border-slate-800 text-[11px] text-slate-400 font-mono">
+                  <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {result.latencyMs}ms</span>
+                  {result.usage && (
+                      <span className="flex items-center gap-1" title={result.usage.estimated ? 'Estimated from text length' : 'Reported by provider'}>
+                          <Hash className="w-3 h-3" /> {result.usage.estimated ? '~' : ''}{result.usage.inputTokens} in / {result.usage.estimated ? '~' : ''}{result.usage.outputTokens} out
+                      </span>
+                  )}
+                  {result.analysis && (
+                      <span className={`flex items-center gap-1 font-bold ${result.analysis.score >= 80 ? 'text-emerald-400' : result.analysis.score >= 50 ? 'text-amber-400' : 'text-red-400'}`}>
+                          <Target className="w-3 h-3" /> {result.analysis.score}
+                      </span>
+                  )}
+              </div>
+              {result.error && (
+                  <div className="mx-4 mt-3 p-2 bg-red-950/30 border border-red-900/50 rounded text-[11px] text-red-300 flex gap-2">
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" /> <span className="break-words min-w-0">{result.error}</span>
+                  </div>
+              )}
+              <pre className="flex-1 p-4 text-xs text-slate-300 whitespace-pre-wrap break-words font-mono overflow-auto max-h-[480px]">{result.output}</pre>
+          </>
+      ) : (
+          <div className="flex-1 p-8 text-center text-xs text-slate-600 italic">Not run yet.</div>
+      )}
+  </div>
+);
+
+const ArenaPanel: React.FC<ArenaPanelProps> = ({ prompt, defaultTarget }) => {
+  const providers = listProviders();
+  const [models, setModels] = useState<AIModel[]>([]);
+  const [targets, setTargets] = useState<ModelTarget[]>([defaultTarget]);
+  const [draftProvider, setDraftProvider] = useState(defaultTarget.provider);
+  const [draftModel, setDraftModel] = useState('');
+  const [input, setInput] = useState('');
+  const [score, setScore] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [liveResults, setLiveResults] = useState<(EvaluationResult | null)[]>([]);
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAvailableModels().then(setModels).catch(err => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    setSelectedId(null);
+    setLiveResults([]);
+    setRunError(null);
+    db.evaluations.getByPrompt(prompt.id).then(setEvaluations);
+  }, [prompt.id]);
+
+  const providerModels = models.filter(m => m.provider === draftProvider);
+
+  const addTarget = () => {
+    const model = draftModel || providerModels[0]?.name;
+    if (!model) return;
+    const target = { provider: draftProvider, model };
+    if (targets.some(t => targetKey(t) === targetKey(target))) return;
+    setTargets([...targets, target]);
+  };
+
+  const handleRun = async () => {
+    if (targets.length === 0) return;
+    setIsRunning(true);
+    setRunError(null);
+    setSelectedId(null);
+    setLiveResults(targets.map(() => null));
+    try {
+        const evaluation = await runArena(prompt, targets, {
+            input,
+            score,
+            onResult: (index, result) => setLiveResults(prev => prev.map((r, i) => i === index ? result : r))
+        });
+        setEvaluations(prev => [evaluation, ...prev]);
+        setSelectedId(evaluation.id);
+    } catch (e: any) {
+        console.error("Arena run failed", e);
+        setRunError(e?.message || "Arena run failed.");
+    } finally {
+        setIsRunning(false);
+    }
+  };
+
+  const selected = evaluations.find(e => e.id === selectedId);
+  const columns: { target: ModelTarget; result?: EvaluationResult | null }[] = selected
+    ? selected.results.map(r => ({ target: r, result: r }))
+    : targets.map((t, i) => ({ target: t, result: liveResults[i] }));
+
+  return (
+    <div className="space-y-6">
+        {/* Configuration */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                    <Swords className="w-4 h-4 text-primary-400" /> Model Arena
+                </h3>
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning || targets.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+                >
+                    {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    Run {targets.length} Model{targets.length === 1 ? '' : 's'}
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {targets.map(t => (
+                    <span key={targetKey(t)} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 bg-slate-950 border border-slate-800 rounded-full text-xs font-mono text-slate-300">
+                        <span className="text-slate-500">{t.provider}/</span>{t.model}
+                        <button onClick={() => setTargets(targets.filter(x => targetKey(x) !== targetKey(t)))} className="p-0.5 text-slate-500 hover:text-red-400">
+                            <X className="w-3 h-3" />
+                        </button>
+                    </span>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <select
+                    value={draftProvider}
+                    onChange={e => { setDraftProvider(e.target.value); setDraftModel(''); }}
+                    className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-200 outline-none focus:border-primary-500"
+                >
+                    {providers.map(p => <option key={p.id} value={p.id}>{p.displayName}</option>)}
+                </select>
+                <select
+                    value={draftModel || providerModels[0]?.name || ''}
+                    onChange={e => setDraftModel(e.target.value)}
+                    className="flex-1 min-w-[180px] bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-200 outline-none focus:border-primary-500"
+                >
+                    {providerModels.map(m => <option key={m.name} value={m.name}>{m.displayName}</option>)}
+                </select>
+                <button onClick={addTarget} className="flex items-center gap-1 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold transition-colors">
+                    <Plus className="w-3 h-3" /> Add
+                </button>
+            </div>
+
+            <textarea
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder="Optional test input sent as the user message (defaults to &quot;Begin.&quot;)"
+                className="w-full h-20 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono resize-none outline-none focus:border-primary-500 placeholder:text-slate-700"
+            />
+
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={score} onChange={e => setScore(e.target.checked)} className="accent-primary-500" />
+                Score each output with SFL analysis (uses the analysis model)
+            </label>
+
+            {runError && (
+                <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-lg text-xs text-red-300 flex gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {runError}
+                </div>
+            )}
+        </div>
+
+        {/* Results */}
+        {columns.length > 0 && (
+            <div className="grid gap-4 overflow-x-auto pb-2" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(260px, 1fr))` }}>
+                {columns.map(({ target, result }, i) => (
+                    <ResultColumn key={`${targetKey(target)}-${i}`} target={target} result={result} loading={isRunning && !selected} />
+                ))}
+            </div>
+        )}
+
+        {/* Saved Evaluations */}
+        <div className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Past Evaluations</h4>
+            {evaluations.length === 0 ? (
+                <p className="text-slate-600 italic text-sm">No evaluations recorded for this prompt.</p>
+            ) : evaluations.map(evaluation => (
+                <button
+                    key={evaluation.id}
+                    onClick={() => setSelectedId(selectedId === evaluation.id ? null : evaluation.id)}
+                    className={`w-full flex items-center justify-between px-4 py-2.5 rounded-lg border text-xs transition-colors ${
+                        selectedId === evaluation.id ? 'bg-primary-500/10 border-primary-500/40 text-primary-300' : 'bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800'
+                    }`}
+                >
+                    <span>{new Date(evaluation.createdAt).toLocaleString()} · v{evaluation.promptVersion}</span>
+                    <span className="font-mono text-slate-500">
+                        {evaluation.results.length} model{evaluation.results.length === 1 ? '' : 's'}{evaluation.scored ? ' · scored' : ''}
+                    </span>
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default ArenaPanel;
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Collection, Prompt, Workflow } from '../types';
+import { Folder, FolderPlus, Trash2, FileText, Box } from 'lucide-react';
+
+interface CollectionsManagerProps {
+  collections: Collection[];
+  prompts: Prompt[];
+  workflows: Workflow[];
+  onSave: (collection: Collection) => Promise<Collection>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type MemberKey = 'promptIds' | 'workflowIds';
+
+const CollectionsManager: React.FC<CollectionsManagerProps> = ({ collections, prompts, workflows, onSave, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(collections[0]?.id ?? null);
+  const [name, setName] = useState('');
+  const selected = collections.find(c => c.id === selectedId);
+
+  useEffect(() => setName(selected?.name || ''), [selected?.id, selected?.name]);
+
+  const save = (collection: Collection) => onSave(collection).catch(e => console.error("Collection save failed", e));
+
+  const handleCreate = async () => {
+    const now = Date.now();
+    const created = await onSave({ id: `col-${now}`, name: 'New Collection', promptIds: [], workflowIds: [], createdAt: now, updatedAt: now });
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete collection "${selected.name}"? Its prompts and workflows are kept.`)) return;
+    await onDelete(selected.id);
+    setSelectedId(collections.find(c => c.id !== selected.id)?.id ?? null);
+  };
+
+  const toggleMember = (key: MemberKey, id: string) => {
+    if (!selected) return;
+    const members = selected[key];
+    save({ ...selected, [key]: members.includes(id) ? members.filter(m => m !== id) : [...members, id] });
+  };
+
+  const memberList = (key: MemberKey, items: { id: string; label: string }[], Icon: React.ElementType) => (
+    <div className="space-y-1">
+        {items.length === 0 && <p className="text-xs text-slate-600 px-3">Nothing here yet.</p>}
+        {items.map(item => (
+            <label key={item.id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-800/50 cursor-pointer">
+                <input type="checkbox" checked={!!selected?.[key].includes(item.id)} onChange={() => toggleMember(key, item.id)} className="accent-primary-500" />
+                <Icon className="w-3.5 h-3.5 text-slate-500" />
+                <span className="text-sm text-slate-300 truncate">{item.label}</span>
+            </label>
+        ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-800 flex items-center gap-3 bg-slate-950">
+          <div className="p-2 bg-slate-800 rounded-lg text-primary-400">
+              <Folder className="w-5 h-5" />
+          </div>
+          <div>
+              <h3 className="font-bold text-lg font-display">Collections</h3>
+              <p className="text-xs text-slate-500">Group prompts and workflows by project</p>
+          </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+          {/* Collection list */}
+          <div className="w-56 border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+              <button onClick={handleCreate} className="w-full flex items-center gap-2 px-3 py-2 mb-2 rounded-lg border border-dashed border-slate-700 text-xs font-bold text-primary-400 hover:border-primary-500 transition-colors">
+                  <FolderPlus className="w-4 h-4" /> New Collection
+              </button>
+              {collections.map(c => (
+                  <button
+                      key={c.id}
+                      onClick={() => setSelectedId(c.id)}
+                      className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${c.id === selectedId ? 'bg-primary-600/10 text-primary-400' : 'text-slate-400 hover:bg-slate-800'}`}
+                  >
+                      <span className="truncate">{c.name}</span>
+                      <span className="text-[10px] font-mono text-slate-500">{c.promptIds.length + c.workflowIds.length}</span>
+                  </button>
+              ))}
+          </div>
+
+          {/* Membership */}
+          {selected ? (
+              <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                  <div className="flex items-center gap-3">
+                      <input
+                          value={name}
+                          onChange={e => setName(e.target.value)}
+                          onBlur={() => name.trim() && name !== selected.name && save({ ...selected, name })}
+                          onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                          className="flex-1 bg-transparent text-xl font-bold font-display text-slate-200 outline-none border-b border-transparent focus:border-primary-500"
+                      />
+                      <button onClick={handleDelete} className="p-2 text-slate-500 hover:text-red-400" title="Delete collection">
+                          <Trash2 className="w-4 h-4" />
+                      </button>
+                  </div>
+                  <div className="space-y-2">
+                      <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Prompts</h4>
+                      {memberList('promptIds', prompts.map(p => ({ id: p.id, label: p.title })), FileText)}
+                  </div>
+                  <div className="space-y-2">
+                      <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Workflows</h4>
+                      {memberList('workflowIds', workflows.map(w => ({ id: w.id, label: w.name })), Box)}
+                  </div>
+              </div>
+          ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-500">Create a collection to start organising.</div>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionsManager;
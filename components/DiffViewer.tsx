@@ -2,34 +2,222 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useMemo } from 'react';
+import React, { useMemo, useState, useEffect } from 'react';
 import * as Diff from 'diff';
+import { Prompt } from '../types';
+import { diffSFL, humanizeKey } from '../services/sflDiff';
+import { ChevronsUpDown } from 'lucide-react';
+
+type Granularity = 'word' | 'sentence' | 'line';
+type Layout = 'unified' | 'split';
 
 interface DiffViewerProps {
   oldText: string;
   newText: string;
+  oldSfl?: Prompt['sfl']; // When both profiles are given, a structured SFL diff renders above the text
+  newSfl?: Prompt['sfl'];
+}
+
+// Adjacent removed/added parts are merged into one change block so split view can align them
+interface Block {
+  kind: 'equal' | 'change';
+  value: string; // equal blocks
+  removed: string; // change blocks
+  added: string;
 }
 
-const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText }) => {
-  const diffs = useMemo(() => {
-    return Diff.diffWords(oldText, newText);
-  }, [oldText, newText]);
+const CONTEXT_LINES = 3;
+
+const DIFFERS: Record<Granularity, (a: string, b: string) => any[]> = {
+  word: Diff.diffWords,
+  sentence: Diff.diffSentences,
+  line: Diff.diffLines
+};
+
+const toBlocks = (parts: any[]): Block[] => {
+  const blocks: Block[] = [];
+  parts.forEach(part => {
+    if (!part.added && !part.removed) {
+      blocks.push({ kind: 'equal', value: part.value, removed: '', added: '' });
+      return;
+    }
+    let change = blocks[blocks.length - 1];
+    if (!change || change.kind !== 'change') {
+      change = { kind: 'change', value: '', removed: '', added: '' };
+      blocks.push(change);
+    }
+    if (part.added) change.added += part.value;
+    else change.removed += part.value;
+  });
+  return blocks;
+};
+
+const splitLines = (text: string) => {
+  const lines = text.split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Keeps context lines around an unchanged region; the first block only needs trailing context, the last only leading
+const collapseLines = (lines: string[], isFirst: boolean, isLast: boolean) => {
+  const keepHead = isFirst ? 0 : CONTEXT_LINES;
+  const keepTail = isLast ? 0 : CONTEXT_LINES;
+  if (lines.length <= keepHead + keepTail + 1) return null;
+  return { head: lines.slice(0, keepHead), hidden: lines.length - keepHead - keepTail, tail: lines.slice(lines.length - keepTail) };
+};
+
+const REMOVED_CLASS = 'text-red-400 bg-red-900/30 line-through decoration-red-500/50';
+const ADDED_CLASS = 'text-green-400 bg-green-900/30';
+
+const ExpandButton: React.FC<{ hidden: number; onClick: () => void }> = ({ hidden, onClick }) => (
+  <button onClick={onClick} className="flex items-center gap-2 w-full my-1 px-2 py-1 text-[11px] font-sans text-slate-500 bg-slate-900 hover:bg-slate-800 hover:text-slate-300 rounded transition-colors">
+      <ChevronsUpDown className="w-3 h-3" /> {hidden} unchanged line{hidden === 1 ? '' : 's'}
+  </button>
+);
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText, oldSfl, newSfl }) => {
+  const [granularity, setGranularity] = useState<Granularity>('word');
+  const [layout, setLayout] = useState<Layout>('unified');
+  const [collapse, setCollapse] = useState(true);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const blocks = useMemo(() => toBlocks(DIFFERS[granularity](oldText, newText)), [oldText, newText, granularity]);
+  const sflChanges = useMemo(() => diffSFL(oldSfl, newSfl), [oldSfl, newSfl]);
+
+  useEffect(() => setExpanded(new Set()), [blocks]);
+
+  const expand = (index: number) => setExpanded(prev => new Set(prev).add(index));
+  const collapsedFor = (block: Block, index: number) =>
+    collapse && !expanded.has(index) ? collapseLines(splitLines(block.value), index === 0, index === blocks.length - 1) : null;
+
+  // --- Inline rendering (word / sentence) ---
+
+  const renderInline = (side: 'unified' | 'old' | 'new') => blocks.map((block, index) => {
+    if (block.kind === 'equal') {
+      const collapsed = collapsedFor(block, index);
+      if (!collapsed) return <span key={index} className="text-slate-400">{block.value}</span>;
+      return (
+        <React.Fragment key={index}>
+          {collapsed.head.length > 0 && <span className="text-slate-400">{collapsed.head.join('\n')}</span>}
+          <ExpandButton hidden={collapsed.hidden} onClick={() => expand(index)} />
+          {collapsed.tail.length > 0 && <span className="text-slate-400">{collapsed.tail.join('\n')}</span>}
+        </React.Fragment>
+      );
+    }
+    return (
+      <React.Fragment key={index}>
+        {side !== 'new' && block.removed && <span className={`${REMOVED_CLASS} px-0.5 rounded`}>{block.removed}</span>}
+        {side !== 'old' && block.added && <span className={`${ADDED_CLASS} px-0.5 rounded`}>{block.added}</span>}
+      </React.Fragment>
+    );
+  });
+
+  // --- Line rendering ---
+
+  const lineRow = (key: string, marker: string, text: string, className: string) => (
+    <div key={key} className={`flex ${className}`}>
+      <span className="w-5 flex-shrink-0 select-none text-slate-600 text-center">{marker}</span>
+      <span className="flex-1 whitespace-pre-wrap break-words">{text || ' '}</span>
+    </div>
+  );
+
+  const renderUnifiedLines = () => blocks.map((block, index) => {
+    if (block.kind === 'change') {
+      return (
+        <React.Fragment key={index}>
+          {block.removed && splitLines(block.removed).map((line, i) => lineRow(`${index}-r${i}`, '-', line, 'text-red-400 bg-red-900/20'))}
+          {block.added && splitLines(block.added).map((line, i) => lineRow(`${index}-a${i}`, '+', line, 'text-green-400 bg-green-900/20'))}
+        </React.Fragment>
+      );
+    }
+    const collapsed = collapsedFor(block, index);
+    const lines = splitLines(block.value);
+    if (!collapsed) return <React.Fragment key={index}>{lines.map((line, i) => lineRow(`${index}-${i}`, ' ', line, 'text-slate-400'))}</React.Fragment>;
+    return (
+      <React.Fragment key={index}>
+        {collapsed.head.map((line, i) => lineRow(`${index}-h${i}`, ' ', line, 'text-slate-400'))}
+        <ExpandButton hidden={collapsed.hidden} onClick={() => expand(index)} />
+        {collapsed.tail.map((line, i) => lineRow(`${index}-t${i}`, ' ', line, 'text-slate-400'))}
+      </React.Fragment>
+    );
+  });
+
+  const renderSplitLines = () => blocks.map((block, index) => {
+    if (block.kind === 'change') {
+      const left = block.removed ? splitLines(block.removed) : [];
+      const right = block.added ? splitLines(block.added) : [];
+      return Array.from({ length: Math.max(left.length, right.length) }, (_, i) => (
+        <div key={`${index}-${i}`} className="grid grid-cols-2 gap-2">
+          {i < left.length ? lineRow('l', '-', left[i], 'text-red-400 bg-red-900/20') : <div />}
+          {i < right.length ? lineRow('r', '+', right[i], 'text-green-400 bg-green-900/20') : <div />}
+        </div>
+      ));
+    }
+    const collapsed = collapsedFor(block, index);
+    const pair = (key: string, line: string) => (
+      <div key={key} className="grid grid-cols-2 gap-2">
+        {lineRow('l', ' ', line, 'text-slate-400')}
+        {lineRow('r', ' ', line, 'text-slate-400')}
+      </div>
+    );
+    if (!collapsed) return <React.Fragment key={index}>{splitLines(block.value).map((line, i) => pair(`${index}-${i}`, line))}</React.Fragment>;
+    return (
+      <React.Fragment key={index}>
+        {collapsed.head.map((line, i) => pair(`${index}-h${i}`, line))}
+        <ExpandButton hidden={collapsed.hidden} onClick={() => expand(index)} />
+        {collapsed.tail.map((line, i) => pair(`${index}-t${i}`, line))}
+      </React.Fragment>
+    );
+  });
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-slate-700 text-slate-100' : 'text-slate-500 hover:text-slate-300'}`;
 
   return (
-    <div className="font-mono text-sm leading-relaxed bg-slate-950 p-4 rounded-lg border border-slate-800 overflow-y-auto max-h-[200px]">
-      {diffs.map((part, index) => {
-        const color = part.added
-          ? 'text-green-400 bg-green-900/30'
-          : part.removed
-          ? 'text-red-400 bg-red-900/30 line-through decoration-red-500/50'
-          : 'text-slate-400';
-        
-        return (
-          <span key={index} className={`${color} px-0.5 rounded`}>
-            {part.value}
-          </span>
-        );
-      })}
+    <div className="space-y-3">
+      {sflChanges.length > 0 && (
+        <div className="p-3 bg-slate-900 border border-slate-800 rounded-lg space-y-1">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">SFL Changes</p>
+          {sflChanges.map(change => (
+            <div key={`${change.section}.${change.key}`} className="text-xs flex flex-wrap items-center gap-1.5">
+              <span className="font-bold text-slate-400 capitalize">{change.section}</span>
+              <span className="text-slate-500">{humanizeKey(change.key)}:</span>
+              <span className={`${REMOVED_CLASS} px-1 rounded`}>{change.from || '(empty)'}</span>
+              <span className="text-slate-600">→</span>
+              <span className={`${ADDED_CLASS} px-1 rounded`}>{change.to || '(empty)'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-md p-0.5">
+          {(['word', 'sentence', 'line'] as Granularity[]).map(g => (
+            <button key={g} onClick={() => setGranularity(g)} className={toggleClass(granularity === g)}>{g}</button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setCollapse(!collapse)} className={toggleClass(collapse)}>Collapse unchanged</button>
+          <div className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-md p-0.5">
+            {(['unified', 'split'] as Layout[]).map(l => (
+              <button key={l} onClick={() => setLayout(l)} className={toggleClass(layout === l)}>{l}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="font-mono text-sm leading-relaxed bg-slate-950 p-4 rounded-lg border border-slate-800 overflow-auto max-h-[60vh]">
+        {granularity === 'line' ? (
+          layout === 'unified' ? renderUnifiedLines() : renderSplitLines()
+        ) : layout === 'unified' ? (
+          <div className="whitespace-pre-wrap break-words">{renderInline('unified')}</div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="whitespace-pre-wrap break-words border-r border-slate-800 pr-4">{renderInline('old')}</div>
+            <div className="whitespace-pre-wrap break-words">{renderInline('new')}</div>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
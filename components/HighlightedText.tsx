@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { highlightSegments } from '../services/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const segments = useMemo(() => highlightSegments(text, terms), [text, terms]);
+
+  return (
+    <>
+      {segments.map((segment, i) => segment.match
+        ? <mark key={i} className="bg-primary-500/30 text-inherit rounded px-0.5">{segment.text}</mark>
+        : <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { Prompt, Workflow } from '../types';
+import { Bundle } from '../schemas';
+import {
+  createBundle, downloadBundle, parseBundle, previewImport, applyImport, itemKey,
+  ImportPreview, ImportSummary, ImportStatus, MergeStrategy
+} from '../services/bundle';
+import { BundleValidationError } from '../services/errors';
+import { getVaultStatus } from '../services/vault';
+import { ArrowLeftRight, Download, Upload, Loader2, AlertTriangle, KeyRound, CheckCircle2 } from 'lucide-react';
+
+interface ImportExportPanelProps {
+  prompts: Prompt[];
+  workflows: Workflow[];
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30',
+  update: 'text-sky-400 bg-sky-500/10 border-sky-500/30',
+  conflict: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  unchanged: 'text-slate-500 bg-slate-800/50 border-slate-700'
+};
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  keepBoth: 'Keep both'
+};
+
+const selectClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 outline-none focus:border-primary-500";
+
+const ImportExportPanel: React.FC<ImportExportPanelProps> = ({ prompts, workflows, onImported }) => {
+  // Export
+  const [exportAll, setExportAll] = useState(true);
+  const [selectedPrompts, setSelectedPrompts] = useState<string[]>([]);
+  const [selectedWorkflows, setSelectedWorkflows] = useState<string[]>([]);
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ bundle: Bundle; preview: ImportPreview; fileName: string } | null>(null);
+  const [importError, setImportError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>('skip');
+  const [overrides, setOverrides] = useState<Record<string, MergeStrategy>>({});
+  const [importSettings, setImportSettings] = useState(false);
+  const [importSecrets, setImportSecrets] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<string[]>>, id: string) =>
+    setter(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await createBundle({
+        promptIds: exportAll ? undefined : selectedPrompts,
+        workflowIds: exportAll ? undefined : selectedWorkflows,
+        includeSettings,
+        includeSecrets: includeSettings && includeSecrets && canExportSecrets
+      });
+      downloadBundle(bundle);
+    } catch (e) {
+      console.error("Export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPending(null);
+    setImportError(null);
+    setSummary(null);
+    setOverrides({});
+    setImportSettings(false);
+    setImportSecrets(false);
+    try {
+      const bundle = parseBundle(await file.text());
+      setPending({ bundle, preview: await previewImport(bundle), fileName: file.name });
+    } catch (err: any) {
+      console.error("Bundle rejected", err);
+      setImportError({ message: err?.message || 'Could not read bundle.', issues: err instanceof BundleValidationError ? err.issues : [] });
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) return;
+    setIsImporting(true);
+    try {
+      setSummary(await applyImport(pending.bundle, pending.preview, { strategy, overrides, importSettings, importSecrets: importSettings && importSecrets && canImportSecrets }));
+      setPending(null);
+      onImported();
+    } catch (e: any) {
+      console.error("Import failed", e);
+      setImportError({ message: e?.message || 'Import failed.', issues: [] });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const counts = pending?.preview.items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {} as Partial<Record<ImportStatus, number>>);
+  // Exported keys are read from the vault and imported ones written to it, so both need it open
+  const vaultStatus = getVaultStatus();
+  const canExportSecrets = vaultStatus !== 'locked';
+  const canImportSecrets = vaultStatus === 'unlocked';
+  const exportDisabled = isExporting || (!exportAll && selectedPrompts.length === 0 && selectedWorkflows.length === 0);
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-800 flex items-center gap-3 bg-slate-950">
+          <div className="p-2 bg-slate-800 rounded-lg text-primary-400">
+              <ArrowLeftRight className="w-5 h-5" />
+          </div>
+          <div>
+              <h3 className="font-bold text-lg font-display">Import / Export</h3>
+              <p className="text-xs text-slate-500">Move prompts, workflows and collections between browsers as a versioned bundle</p>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-slate-800">
+          {/* Export */}
+          <div className="p-6 space-y-4">
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Export</h4>
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={exportAll} onChange={e => setExportAll(e.target.checked)} className="accent-primary-500" />
+                  Everything ({prompts.length} prompts, {workflows.length} workflows)
+              </label>
+
+              {!exportAll && (
+                  <div className="max-h-64 overflow-y-auto p-3 bg-slate-900 border border-slate-800 rounded-lg space-y-3">
+                      <div className="space-y-1">
+                          <p className="text-[10px] font-bold text-slate-500 uppercase">Prompts</p>
+                          {prompts.map(p => (
+                              <label key={p.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                  <input type="checkbox" checked={selectedPrompts.includes(p.id)} onChange={() => toggle(setSelectedPrompts, p.id)} className="accent-primary-500" />
+                                  <span className="truncate">{p.title}</span>
+                              </label>
+                          ))}
+                      </div>
+                      <div className="space-y-1">
+                          <p className="text-[10px] font-bold text-slate-500 uppercase">Workflows</p>
+                          {workflows.map(w => (
+                              <label key={w.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                  <input type="checkbox" checked={selectedWorkflows.includes(w.id)} onChange={() => toggle(setSelectedWorkflows, w.id)} className="accent-primary-500" />
+                                  <span className="truncate">{w.name}</span>
+                              </label>
+                          ))}
+                      </div>
+                  </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} className="accent-primary-500" />
+                  Include settings (models, endpoints)
+              </label>
+              {includeSettings && (
+                  <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer pl-6">
+                      <input type="checkbox" checked={includeSecrets && canExportSecrets} disabled={!canExportSecrets} onChange={e => setIncludeSecrets(e.target.checked)} className="accent-amber-500 mt-1" />
+                      <span>
+                          Include API keys
+                          <span className="block text-[11px] text-amber-400/80">
+                              {canExportSecrets ? 'Anyone with the file can use these keys.' : 'Unlock the key vault in Settings to export keys.'}
+                          </span>
+                      </span>
+                  </label>
+              )}
+
+              <button
+                  onClick={handleExport}
+                  disabled={exportDisabled}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold disabled:opacity-40"
+              >
+                  {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Export Bundle
+              </button>
+          </div>
+
+          {/* Import */}
+          <div className="p-6 space-y-4">
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Import</h4>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+              <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg border border-dashed border-slate-700 text-xs font-bold text-primary-400 hover:border-primary-500 transition-colors"
+              >
+                  <Upload className="w-4 h-4" /> Choose bundle file...
+              </button>
+
+              {importError && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-1">
+                      <p className="flex items-center gap-2 text-xs font-bold text-red-400"><AlertTriangle className="w-4 h-4" /> {importError.message}</p>
+                      {importError.issues.slice(0, 8).map((issue, i) => <p key={i} className="text-[11px] text-red-300/80 font-mono">{issue}</p>)}
+                      {importError.issues.length > 8 && <p className="text-[11px] text-red-300/60">…and {importError.issues.length - 8} more</p>}
+                  </div>
+              )}
+
+              {summary && (
+                  <p className="flex items-center gap-2 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg text-xs text-emerald-400">
+                      <CheckCircle2 className="w-4 h-4" />
+                      Imported: {summary.added} added, {summary.updated} overwritten, {summary.duplicated} kept as copies, {summary.skipped} skipped.
+                  </p>
+              )}
+
+              {pending && (
+                  <div className="space-y-4">
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                          <span className="font-mono text-slate-300 truncate">{pending.fileName}</span>
+                          {(Object.keys(STATUS_STYLES) as ImportStatus[]).filter(s => counts?.[s]).map(s => (
+                              <span key={s} className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase ${STATUS_STYLES[s]}`}>{counts![s]} {s}</span>
+                          ))}
+                      </div>
+
+                      <div className="flex items-center gap-2 text-xs text-slate-400">
+                          <span>Existing items:</span>
+                          <select value={strategy} onChange={e => setStrategy(e.target.value as MergeStrategy)} className={selectClass}>
+                              {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+                          </select>
+                      </div>
+
+                      <div className="max-h-64 overflow-y-auto border border-slate-800 rounded-lg divide-y divide-slate-800">
+                          {pending.preview.items.map(item => {
+                              const key = itemKey(item.kind, item.id);
+                              const resolvable = item.status === 'update' || item.status === 'conflict';
+                              return (
+                                  <div key={key} className="flex items-center gap-3 px-3 py-2">
+                                      <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                                      <span className="text-[10px] text-slate-500 uppercase w-16">{item.kind}</span>
+                                      <span className="flex-1 text-xs text-slate-300 truncate">{item.name}</span>
+                                      {resolvable && (
+                                          <select value={overrides[key] || strategy} onChange={e => setOverrides({ ...overrides, [key]: e.target.value as MergeStrategy })} className={selectClass}>
+                                              {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+                                          </select>
+                                      )}
+                                  </div>
+                              );
+                          })}
+                      </div>
+
+                      {pending.preview.hasSettings && (
+                          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                              <input type="checkbox" checked={importSettings} onChange={e => setImportSettings(e.target.checked)} className="accent-primary-500" />
+                              Apply settings from this bundle
+                          </label>
+                      )}
+                      {importSettings && pending.preview.hasSecrets && (
+                          <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer pl-6">
+                              <input type="checkbox" checked={importSecrets && canImportSecrets} disabled={!canImportSecrets} onChange={e => setImportSecrets(e.target.checked)} className="accent-amber-500 mt-1" />
+                              <span>
+                                  <span className="flex items-center gap-1"><KeyRound className="w-3.5 h-3.5 text-amber-400" /> Also import API keys</span>
+                                  <span className="block text-[11px] text-amber-400/80">
+                                      {canImportSecrets ? 'Only do this for a bundle you exported yourself.' : 'Set up or unlock the key vault in Settings to import keys.'}
+                                  </span>
+                              </span>
+                          </label>
+                      )}
+
+                      <button
+                          onClick={handleApply}
+                          disabled={isImporting}
+                          className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold disabled:opacity-40"
+                      >
+                          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                          Import
+                      </button>
+                  </div>
+              )}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExportPanel;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { SearchFilters, FacetKey, FacetCount, UpdatedWithin, FACET_KEYS } from '../services/searchIndex';
+import { Search, X } from 'lucide-react';
+
+interface LibrarySearchProps {
+  query: string;
+  filters: SearchFilters;
+  facets: Record<FacetKey, FacetCount[]>;
+  resultCount: number;
+  totalCount: number;
+  onQueryChange: (query: string) => void;
+  onFiltersChange: (filters: SearchFilters) => void;
+}
+
+const FACET_LABELS: Record<FacetKey, string> = {
+  tag: 'Tag',
+  domain: 'Domain',
+  process: 'Process',
+  affect: 'Affect',
+  channel: 'Channel',
+  rhetoricalMode: 'Rhetoric'
+};
+
+const UPDATED_OPTIONS: { value: UpdatedWithin; label: string }[] = [
+  { value: 'day', label: 'Last 24 hours' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' }
+];
+
+const controlClass = "bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-primary-500 placeholder:text-slate-600";
+
+const parseScore = (value: string) => value === '' ? undefined : Math.min(100, Math.max(0, Number(value)));
+
+const LibrarySearch: React.FC<LibrarySearchProps> = ({ query, filters, facets, resultCount, totalCount, onQueryChange, onFiltersChange }) => {
+  const isFiltered = query.trim() !== '' || Object.values(filters).some(v => v !== undefined && v !== '');
+
+  const setFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => onFiltersChange({ ...filters, [key]: value });
+
+  return (
+    <div className="space-y-3">
+        <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+                value={query}
+                onChange={e => onQueryChange(e.target.value)}
+                placeholder="Search titles, content, tags and SFL fields..."
+                className="w-full bg-slate-900 border border-slate-800 rounded-xl pl-10 pr-4 py-3 text-sm text-slate-200 outline-none focus:border-primary-500 placeholder:text-slate-600"
+            />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+            {FACET_KEYS.map(key => (
+                <select key={key} value={filters[key] || ''} onChange={e => setFilter(key, e.target.value || undefined)} className={controlClass}>
+                    <option value="">{FACET_LABELS[key]}: any</option>
+                    {/* Keep the selected value listed even when nothing else matches it */}
+                    {filters[key] && !facets[key].some(f => f.value === filters[key]) && <option value={filters[key]}>{filters[key]} (0)</option>}
+                    {facets[key].map(f => <option key={f.value} value={f.value}>{f.value} ({f.count})</option>)}
+                </select>
+            ))}
+            <div className="flex items-center gap-1 text-xs text-slate-500">
+                <span>Score</span>
+                <input type="number" min={0} max={100} value={filters.minScore ?? ''} onChange={e => setFilter('minScore', parseScore(e.target.value))} placeholder="0" className={`${controlClass} w-16`} />
+                <span>–</span>
+                <input type="number" min={0} max={100} value={filters.maxScore ?? ''} onChange={e => setFilter('maxScore', parseScore(e.target.value))} placeholder="100" className={`${controlClass} w-16`} />
+            </div>
+            <select value={filters.updatedWithin || ''} onChange={e => setFilter('updatedWithin', (e.target.value || undefined) as UpdatedWithin | undefined)} className={controlClass}>
+                <option value="">Updated: any time</option>
+                {UPDATED_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            {isFiltered && (
+                <>
+                    <span className="text-xs text-slate-500 ml-auto">{resultCount} of {totalCount}</span>
+                    <button onClick={() => { onQueryChange(''); onFiltersChange({}); }} className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200">
+                        <X className="w-3 h-3" /> Clear
+                    </button>
+                </>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default LibrarySearch;
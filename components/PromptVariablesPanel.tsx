@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { PromptVariable, PromptVariableType } from '../types';
+import { syncVariables } from '../services/templating';
+import { Braces } from 'lucide-react';
+
+interface PromptVariablesPanelProps {
+  content: string;
+  variables?: PromptVariable[];
+  onChange: (variables: PromptVariable[]) => void;
+}
+
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'json'];
+
+const PromptVariablesPanel: React.FC<PromptVariablesPanelProps> = ({ content, variables, onChange }) => {
+  const synced = useMemo(() => syncVariables(content, variables), [content, variables]);
+
+  const updateVariable = (name: string, updates: Partial<PromptVariable>) => {
+    onChange(synced.map(v => v.name === name ? { ...v, ...updates } : v));
+  };
+
+  return (
+    <div className="space-y-3">
+        <h4 className="text-[10px] font-bold text-cyan-500 flex items-center gap-2 uppercase tracking-widest">
+            <Braces className="w-3 h-3" /> Variables
+        </h4>
+        <div className="space-y-3 pl-2 border-l border-slate-800">
+            {synced.length === 0 ? (
+                <p className="text-[10px] text-slate-600 leading-relaxed">
+                    Add <span className="font-mono text-slate-400">{'{{name}}'}</span> to the prompt text to declare an input slot.
+                </p>
+            ) : synced.map(variable => (
+                <div key={variable.name} className="p-2.5 bg-slate-950 border border-slate-800 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-mono text-cyan-400">{`{{${variable.name}}}`}</span>
+                        <label className="flex items-center gap-1.5 text-[10px] text-slate-500 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={variable.required}
+                                onChange={e => updateVariable(variable.name, { required: e.target.checked })}
+                                className="accent-cyan-500"
+                            />
+                            Required
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <select
+                            value={variable.type}
+                            onChange={e => updateVariable(variable.name, { type: e.target.value as PromptVariableType })}
+                            className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-cyan-500"
+                        >
+                            {VARIABLE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        <input
+                            type="text"
+                            value={variable.defaultValue || ''}
+                            onChange={e => updateVariable(variable.name, { defaultValue: e.target.value || undefined })}
+                            placeholder="Default"
+                            className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-[11px] text-slate-300 outline-none focus:border-cyan-500 placeholder:text-slate-700"
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default PromptVariablesPanel;
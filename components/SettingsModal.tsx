@@ -2,10 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect } from 'react';
-import { UserSettings, AIProvider, AIModel } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { UserSettings, AIProvider, AIModel, ApiKeys, ModelTarget } from '../types';
 import { getAvailableModels } from '../services/orchestrator';
-import { Mic, Cpu, Save, Loader2, AlertCircle, Key, Globe, Server, CheckCircle, Wifi } from 'lucide-react';
+import { listProviders, isProviderConfigured, DEFAULT_TIMEOUT_MS } from '../services/providers';
+import {
+  getVaultStatus, subscribeVault, createVault, unlockVault, lockVault, resetVault, getApiKeys, setApiKeys,
+  VaultStatus, IDLE_LOCK_MS, MIN_PASSPHRASE_LENGTH
+} from '../services/vault';
+import { Mic, Cpu, Save, Loader2, AlertCircle, Key, Globe, Server, CheckCircle, Wifi, RefreshCw, Lock, Unlock, ShieldCheck, Plus, X } from 'lucide-react';
 
 interface SettingsModalProps {
   settings: UserSettings;
@@ -13,38 +18,163 @@ interface SettingsModalProps {
   onClose: () => void;
 }
 
+const formatTokens = (n: number) => n >= 1_000_000 ? `${n / 1_000_000}M` : n >= 1000 ? `${Math.round(n / 1000)}k` : `${n}`;
+
+// Appends context window and $/1M token pricing when discovery reported them
+const formatModelLabel = (model: AIModel) => {
+  const meta = [
+    model.contextLength ? `${formatTokens(model.contextLength)} ctx` : null,
+    model.pricing ? `$${model.pricing.inputPerMillion}/$${model.pricing.outputPerMillion} per 1M` : null
+  ].filter(Boolean);
+  return meta.length > 0 ? `${model.displayName} · ${meta.join(' · ')}` : model.displayName;
+};
+
+const targetKey = (target: ModelTarget) => `${target.provider}::${target.model}`;
+
+const parseTargetKey = (key: string): ModelTarget => {
+  const split = key.indexOf('::');
+  return { provider: key.slice(0, split), model: key.slice(split + 2) };
+};
+
+interface FallbackChainEditorProps {
+  chain: ModelTarget[];
+  models: AIModel[];
+  onChange: (chain: ModelTarget[]) => void;
+}
+
+// Ordered list of provider/model pairs tried after the primary model fails
+const FallbackChainEditor: React.FC<FallbackChainEditorProps> = ({ chain, models, onChange }) => {
+  const providers = listProviders();
+  return (
+    <div className="space-y-2">
+        <label className="text-xs font-bold text-slate-500">Fallbacks</label>
+        {chain.length === 0 && <p className="text-[11px] text-slate-600">None. Failures surface straight away.</p>}
+        {chain.map((target, index) => (
+            <div key={index} className="flex items-center gap-2">
+                <span className="w-4 text-[10px] font-mono text-slate-600">{index + 1}</span>
+                <select
+                    value={targetKey(target)}
+                    onChange={e => onChange(chain.map((t, i) => i === index ? parseTargetKey(e.target.value) : t))}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-200 focus:border-primary-500 outline-none"
+                >
+                    {/* Keep a saved target selectable even when discovery didn't return it */}
+                    {!models.some(m => m.provider === target.provider && m.name === target.model) && (
+                        <option value={targetKey(target)}>{target.provider} · {target.model}</option>
+                    )}
+                    {providers.map(p => (
+                        <optgroup key={p.id} label={p.displayName}>
+                            {models.filter(m => m.provider === p.id).map(m => (
+                                <option key={m.name} value={targetKey({ provider: p.id, model: m.name })}>{m.displayName}</option>
+                            ))}
+                        </optgroup>
+                    ))}
+                </select>
+                <button onClick={() => onChange(chain.filter((_, i) => i !== index))} className="p-1 text-slate-500 hover:text-red-400" title="Remove fallback">
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        ))}
+        <button
+            onClick={() => models[0] && onChange([...chain, { provider: models[0].provider, model: models[0].name }])}
+            disabled={models.length === 0}
+            className="flex items-center gap-1.5 text-[11px] font-bold text-slate-400 hover:text-primary-400 disabled:opacity-40"
+        >
+            <Plus className="w-3 h-3" /> Add fallback
+        </button>
+    </div>
+  );
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings, onSave, onClose }) => {
   const [settings, setSettings] = useState<UserSettings>(initialSettings);
+  const providers = listProviders();
   const [activeTab, setActiveTab] = useState<'providers' | 'generation' | 'live'>('providers');
   
   // Model Loading State
   const [models, setModels] = useState<AIModel[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const loadIdRef = useRef(0);
+
+  // Key Vault State: key edits are drafts until Save writes them back into the vault
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+  const [keyDrafts, setKeyDrafts] = useState<ApiKeys>(() => getVaultStatus() === 'unlocked' ? getApiKeys() : {});
+  const [keysEdited, setKeysEdited] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+
+  useEffect(() => subscribeVault(status => {
+      setVaultStatus(status);
+      setKeyDrafts(status === 'unlocked' ? getApiKeys() : {});
+      setKeysEdited(false);
+  }), []);
+
+  // Discovery uses the unsaved draft so new keys and endpoints apply immediately; only the latest request wins
+  const loadModels = async (refresh = false) => {
+    const loadId = ++loadIdRef.current;
+    setIsLoadingModels(true);
+    try {
+        const fetchedModels = await getAvailableModels({ refresh, settings, apiKeys: keyDrafts });
+        if (loadId === loadIdRef.current) setModels(fetchedModels);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      if (loadId === loadIdRef.current) setIsLoadingModels(false);
+    }
+  };
 
   useEffect(() => {
-    const loadModels = async () => {
-      setIsLoadingModels(true);
-      try {
-          const fetchedModels = await getAvailableModels();
-          setModels(fetchedModels);
-      } catch (err) {
-        console.error(err);
-      } finally {
-        setIsLoadingModels(false);
-      }
-    };
     loadModels();
-  }, [settings.apiKeys, settings.ollamaBaseUrl]);
+  }, [keyDrafts, settings.baseUrls]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    if (keysEdited) {
+        try {
+            await setApiKeys(keyDrafts);
+        } catch (e: any) {
+            setVaultError(e?.message || 'Could not save API keys.');
+            return;
+        }
+    }
     onSave(settings);
     onClose();
   };
 
   const updateApiKey = (provider: string, key: string) => {
+      setKeyDrafts(prev => ({ ...prev, [provider]: key }));
+      setKeysEdited(true);
+  };
+
+  const runVaultAction = async (action: () => Promise<void>) => {
+      setIsVaultBusy(true);
+      setVaultError(null);
+      try {
+          await action();
+          setPassphrase('');
+          setConfirmPassphrase('');
+      } catch (e: any) {
+          setVaultError(e?.message || 'Vault operation failed.');
+      } finally {
+          setIsVaultBusy(false);
+      }
+  };
+
+  const handleCreateVault = () => runVaultAction(async () => {
+      if (passphrase !== confirmPassphrase) throw new Error("Passphrases don't match.");
+      await createVault(passphrase);
+  });
+
+  const handleResetVault = () => {
+      if (!window.confirm("Delete the key vault? Stored API keys can't be recovered and will need to be entered again.")) return;
+      resetVault();
+      setVaultError(null);
+  };
+
+  const updateBaseUrl = (provider: string, url: string) => {
       setSettings(prev => ({
           ...prev,
-          apiKeys: { ...prev.apiKeys, [provider]: key }
+          baseUrls: { ...prev.baseUrls, [provider]: url || undefined }
       }));
   };
 
@@ -95,76 +225,109 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
           
           {activeTab === 'providers' && (
               <div className="space-y-8 max-w-3xl mx-auto animate-in fade-in slide-in-from-bottom-2">
-                  <div className="bg-indigo-900/10 border border-indigo-500/20 p-4 rounded-xl flex gap-3">
-                      <Key className="w-5 h-5 text-indigo-400 flex-shrink-0 mt-0.5" />
-                      <div>
-                          <h4 className="font-bold text-indigo-300 text-sm">Provider API Keys</h4>
-                          <p className="text-xs text-indigo-300/60 mt-1">
-                              Keys are stored securely in your browser's local storage. They are never sent to our servers, only directly to the AI providers.
-                          </p>
+                  <div className="bg-indigo-900/10 border border-indigo-500/20 p-4 rounded-xl space-y-3">
+                      <div className="flex gap-3">
+                          {vaultStatus === 'unlocked'
+                              ? <ShieldCheck className="w-5 h-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+                              : vaultStatus === 'locked'
+                                  ? <Lock className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+                                  : <Key className="w-5 h-5 text-indigo-400 flex-shrink-0 mt-0.5" />}
+                          <div className="flex-1">
+                              <h4 className="font-bold text-indigo-300 text-sm">Provider API Keys</h4>
+                              <p className="text-xs text-indigo-300/60 mt-1">
+                                  {vaultStatus === 'none' && 'Set a passphrase to encrypt your keys in this browser. Any keys saved earlier are moved into the vault.'}
+                                  {vaultStatus === 'locked' && 'Keys are encrypted. Enter your passphrase to use them this session.'}
+                                  {vaultStatus === 'unlocked' && `Keys are encrypted at rest and unlocked for this session. The vault locks after ${IDLE_LOCK_MS / 60000} minutes idle.`}
+                                  {' '}They are only ever sent directly to the AI providers.
+                              </p>
+                          </div>
+                          {vaultStatus === 'unlocked' && (
+                              <button onClick={lockVault} className="self-start flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-bold text-slate-300 hover:border-amber-500 hover:text-amber-400 transition-colors">
+                                  <Lock className="w-3.5 h-3.5" /> Lock now
+                              </button>
+                          )}
                       </div>
+
+                      {vaultStatus !== 'unlocked' && (
+                          <form
+                              onSubmit={e => { e.preventDefault(); vaultStatus === 'none' ? handleCreateVault() : runVaultAction(() => unlockVault(passphrase)); }}
+                              className="flex flex-wrap items-center gap-2 pl-8"
+                          >
+                              <input
+                                type="password"
+                                value={passphrase}
+                                onChange={e => setPassphrase(e.target.value)}
+                                placeholder={vaultStatus === 'none' ? `New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)` : 'Passphrase'}
+                                className="flex-1 min-w-[180px] bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
+                              />
+                              {vaultStatus === 'none' && (
+                                  <input
+                                    type="password"
+                                    value={confirmPassphrase}
+                                    onChange={e => setConfirmPassphrase(e.target.value)}
+                                    placeholder="Confirm passphrase"
+                                    className="flex-1 min-w-[180px] bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
+                                  />
+                              )}
+                              <button
+                                type="submit"
+                                disabled={isVaultBusy || !passphrase}
+                                className="flex items-center gap-1.5 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold disabled:opacity-40"
+                              >
+                                  {isVaultBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Unlock className="w-3.5 h-3.5" />}
+                                  {vaultStatus === 'none' ? 'Create Vault' : 'Unlock'}
+                              </button>
+                              {vaultStatus === 'locked' && (
+                                  <button type="button" onClick={handleResetVault} className="text-[11px] text-slate-500 hover:text-red-400">
+                                      Forgot passphrase?
+                                  </button>
+                              )}
+                          </form>
+                      )}
+                      {vaultError && (
+                          <p className="flex items-center gap-1.5 pl-8 text-xs text-red-400"><AlertCircle className="w-3.5 h-3.5" /> {vaultError}</p>
+                      )}
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {/* Google */}
-                      <div className="space-y-2">
-                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
-                              <span>Google Gemini</span>
-                              {settings.apiKeys.google || process.env.API_KEY ? <CheckCircle className="w-3 h-3 text-emerald-500" /> : null}
-                          </label>
-                          <input 
-                            type="password" 
-                            value={settings.apiKeys.google || ''}
-                            onChange={(e) => updateApiKey('google', e.target.value)}
-                            placeholder={process.env.API_KEY ? "Using env variable (Hidden)" : "AIzaSy..."}
-                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all"
-                          />
-                      </div>
-
-                      {/* OpenRouter */}
-                      <div className="space-y-2">
-                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
-                              <span>OpenRouter</span>
-                              {settings.apiKeys.openrouter ? <CheckCircle className="w-3 h-3 text-emerald-500" /> : null}
-                          </label>
-                          <input 
-                            type="password" 
-                            value={settings.apiKeys.openrouter || ''}
-                            onChange={(e) => updateApiKey('openrouter', e.target.value)}
-                            placeholder="sk-or-..."
-                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all"
-                          />
-                      </div>
-
-                      {/* Mistral */}
-                      <div className="space-y-2">
-                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
-                              <span>Mistral AI</span>
-                              {settings.apiKeys.mistral ? <CheckCircle className="w-3 h-3 text-emerald-500" /> : null}
-                          </label>
-                          <input 
-                            type="password" 
-                            value={settings.apiKeys.mistral || ''}
-                            onChange={(e) => updateApiKey('mistral', e.target.value)}
-                            placeholder="Key..."
-                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all"
-                          />
-                      </div>
-
-                      {/* Ollama */}
-                      <div className="space-y-2">
-                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
-                              <span>Ollama Base URL</span>
-                              <Wifi className="w-3 h-3 text-slate-600" />
-                          </label>
-                          <input 
-                            type="text" 
-                            value={settings.ollamaBaseUrl || ''}
-                            onChange={(e) => setSettings({...settings, ollamaBaseUrl: e.target.value})}
-                            placeholder="http://localhost:11434/v1"
-                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all font-mono"
-                          />
-                      </div>
+                      {providers.map(adapter => {
+                          const { apiKey, baseUrl } = adapter.credentials;
+                          return (
+                              <React.Fragment key={adapter.id}>
+                                  {apiKey && !apiKey.optional && (
+                                      <div className="space-y-2">
+                                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
+                                              <span>{apiKey.label}</span>
+                                              {isProviderConfigured(adapter, settings, keyDrafts) ? <CheckCircle className="w-3 h-3 text-emerald-500" /> : null}
+                                          </label>
+                                          <input 
+                                            type="password" 
+                                            value={keyDrafts[adapter.id] || ''}
+                                            onChange={(e) => updateApiKey(adapter.id, e.target.value)}
+                                            disabled={vaultStatus !== 'unlocked'}
+                                            placeholder={vaultStatus === 'unlocked' ? apiKey.placeholder : vaultStatus === 'locked' ? 'Locked' : 'Create the vault first'}
+                                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                          />
+                                      </div>
+                                  )}
+                                  {baseUrl?.configurable && (
+                                      <div className="space-y-2">
+                                          <label className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
+                                              <span>{baseUrl.label}</span>
+                                              <Wifi className="w-3 h-3 text-slate-600" />
+                                          </label>
+                                          <input 
+                                            type="text" 
+                                            value={settings.baseUrls[adapter.id] || ''}
+                                            onChange={(e) => updateBaseUrl(adapter.id, e.target.value)}
+                                            placeholder={baseUrl.default}
+                                            className="w-full bg-slate-900 border border-slate-800 rounded-lg px-4 py-3 text-sm text-slate-200 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 outline-none transition-all font-mono"
+                                          />
+                                      </div>
+                                  )}
+                              </React.Fragment>
+                          );
+                      })}
                   </div>
               </div>
           )}
@@ -208,6 +371,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
                       </div>
                   </div>
 
+                  <div className="flex items-center justify-end">
+                      <button
+                        onClick={() => loadModels(true)}
+                        disabled={isLoadingModels}
+                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-slate-400 hover:text-slate-200 bg-slate-900 border border-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                          {isLoadingModels ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                          Refresh Models
+                      </button>
+                  </div>
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                       {/* Generation Column */}
                       <div className="space-y-4">
@@ -220,12 +394,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
                                   <label className="text-xs font-bold text-slate-500">Provider</label>
                                   <select 
                                       value={settings.generation.provider}
-                                      onChange={(e) => setSettings({...settings, generation: { ...settings.generation, provider: e.target.value as AIProvider }})}
+                                      onChange={(e) => setSettings({...settings, generation: { ...settings.generation, provider: e.target.value }})}
                                       className="w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-200 focus:border-primary-500 outline-none"
                                       disabled={settings.useSearchGrounding}
                                   >
-                                      {Object.values(AIProvider).map(p => (
-                                          <option key={p} value={p}>{p.toUpperCase()}</option>
+                                      {providers.map(p => (
+                                          <option key={p.id} value={p.id}>{p.displayName}</option>
                                       ))}
                                   </select>
                               </div>
@@ -238,10 +412,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
                                   >
                                       {models
                                         .filter(m => m.provider === settings.generation.provider)
-                                        .map(m => <option key={m.name} value={m.name}>{m.displayName}</option>)
+                                        .map(m => <option key={m.name} value={m.name}>{formatModelLabel(m)}</option>)
                                       }
                                   </select>
                               </div>
+                              <FallbackChainEditor
+                                  chain={settings.generation.fallbacks}
+                                  models={models}
+                                  onChange={fallbacks => setSettings(prev => ({ ...prev, generation: { ...prev.generation, fallbacks } }))}
+                              />
                           </div>
                       </div>
 
@@ -255,11 +434,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
                                   <label className="text-xs font-bold text-slate-500">Provider</label>
                                   <select 
                                       value={settings.analysis.provider}
-                                      onChange={(e) => setSettings({...settings, analysis: { ...settings.analysis, provider: e.target.value as AIProvider }})}
+                                      onChange={(e) => setSettings({...settings, analysis: { ...settings.analysis, provider: e.target.value }})}
                                       className="w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-200 focus:border-emerald-500 outline-none"
                                   >
-                                      {Object.values(AIProvider).map(p => (
-                                          <option key={p} value={p}>{p.toUpperCase()}</option>
+                                      {providers.map(p => (
+                                          <option key={p.id} value={p.id}>{p.displayName}</option>
                                       ))}
                                   </select>
                               </div>
@@ -272,13 +451,60 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings: initialSettings
                                   >
                                       {models
                                         .filter(m => m.provider === settings.analysis.provider)
-                                        .map(m => <option key={m.name} value={m.name}>{m.displayName}</option>)
+                                        .map(m => <option key={m.name} value={m.name}>{formatModelLabel(m)}</option>)
                                       }
                                   </select>
                               </div>
+                              <FallbackChainEditor
+                                  chain={settings.analysis.fallbacks}
+                                  models={models}
+                                  onChange={fallbacks => setSettings(prev => ({ ...prev, analysis: { ...prev.analysis, fallbacks } }))}
+                              />
                           </div>
                       </div>
                   </div>
+
+                  {/* Retries & Timeouts */}
+                  <div className="space-y-4">
+                      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-800 pb-2">
+                          Request Reliability
+                      </h4>
+                      <p className="text-xs text-slate-500">
+                          Rate limits, server errors and timeouts are retried with exponential backoff (honouring Retry-After) before the next fallback is tried.
+                      </p>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                          <div className="space-y-2">
+                              <label className="text-xs font-bold text-slate-500">Retries per request</label>
+                              <input
+                                type="number"
+                                min={0}
+                                max={5}
+                                value={settings.network.maxRetries}
+                                onChange={e => setSettings(prev => ({ ...prev, network: { ...prev.network, maxRetries: Math.max(0, Math.min(5, Number(e.target.value) || 0)) } }))}
+                                className="w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
+                              />
+                          </div>
+                          {providers.map(adapter => (
+                              <div key={adapter.id} className="space-y-2">
+                                  <label className="text-xs font-bold text-slate-500">{adapter.displayName} timeout (s)</label>
+                                  <input
+                                    type="number"
+                                    min={5}
+                                    value={settings.network.timeoutsMs[adapter.id] ? settings.network.timeoutsMs[adapter.id] / 1000 : ''}
+                                    onChange={e => {
+                                        const seconds = Number(e.target.value);
+                                        setSettings(prev => ({
+                                            ...prev,
+                                            network: { ...prev.network, timeoutsMs: { ...prev.network.timeoutsMs, [adapter.id]: seconds > 0 ? seconds * 1000 : undefined } }
+                                        }));
+                                    }}
+                                    placeholder={`${(adapter.timeoutMs || DEFAULT_TIMEOUT_MS) / 1000}`}
+                                    className="w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
+                                  />
+                              </div>
+                          ))}
+                      </div>
+                  </div>
               </div>
           )}
 
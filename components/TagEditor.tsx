@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[]; // Tags used elsewhere in the library
+  onChange: (tags: string[]) => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = () => {
+    const tag = draft.trim().replace(/,$/, '').trim();
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 p-2 bg-slate-950 border border-slate-800 rounded-lg focus-within:border-primary-500 transition-colors">
+        {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-800 text-[11px] text-slate-300">
+                {tag}
+                <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-500 hover:text-red-400">
+                    <X className="w-3 h-3" />
+                </button>
+            </span>
+        ))}
+        <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => draft.trim() && addTag()}
+            list="tag-editor-suggestions"
+            placeholder={tags.length === 0 ? 'Add tags...' : ''}
+            className="flex-1 min-w-[80px] bg-transparent text-xs text-slate-300 outline-none placeholder:text-slate-700"
+        />
+        <datalist id="tag-editor-suggestions">
+            {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+        </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
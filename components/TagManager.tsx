@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { Tag, Pencil, Trash2, Check, X, Merge } from 'lucide-react';
+
+interface TagManagerProps {
+  tags: { tag: string; count: number }[];
+  onRename: (from: string, to: string) => Promise<void>;
+  onMerge: (from: string[], to: string) => Promise<void>;
+  onDelete: (tag: string) => Promise<void>;
+}
+
+const inputClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-primary-500 placeholder:text-slate-700";
+
+const TagManager: React.FC<TagManagerProps> = ({ tags, onRename, onMerge, onDelete }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error("Tag update failed", e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (tag: string) => setSelected(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  const handleMerge = () => run(async () => {
+    await onMerge(selected, mergeTarget);
+    setSelected([]);
+    setMergeTarget('');
+  });
+
+  const handleRename = () => renaming && run(async () => {
+    if (renaming.to.trim() && renaming.to.trim() !== renaming.from) await onRename(renaming.from, renaming.to);
+    setRenaming(null);
+  });
+
+  const handleDelete = (tag: string) => {
+    const count = tags.find(t => t.tag === tag)?.count || 0;
+    if (!window.confirm(`Remove "${tag}" from ${count} prompt${count === 1 ? '' : 's'}?`)) return;
+    run(async () => {
+      await onDelete(tag);
+      setSelected(prev => prev.filter(t => t !== tag));
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-800 flex items-center gap-3 bg-slate-950">
+          <div className="p-2 bg-slate-800 rounded-lg text-primary-400">
+              <Tag className="w-5 h-5" />
+          </div>
+          <div>
+              <h3 className="font-bold text-lg font-display">Manage Tags</h3>
+              <p className="text-xs text-slate-500">Rename, merge or delete tags across the whole library</p>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-5">
+        {tags.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6">No tags yet. Add them from the editor inspector.</p>
+        ) : (
+            <div className={`space-y-1 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+                {tags.map(({ tag, count }) => (
+                    <div key={tag} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-800/50">
+                        <input type="checkbox" checked={selected.includes(tag)} onChange={() => toggle(tag)} className="accent-primary-500" />
+                        {renaming?.from === tag ? (
+                            <>
+                                <input
+                                    autoFocus
+                                    value={renaming.to}
+                                    onChange={e => setRenaming({ ...renaming, to: e.target.value })}
+                                    onKeyDown={e => e.key === 'Enter' && handleRename()}
+                                    className={`${inputClass} flex-1`}
+                                />
+                                <button onClick={handleRename} className="text-emerald-400 hover:text-emerald-300"><Check className="w-4 h-4" /></button>
+                                <button onClick={() => setRenaming(null)} className="text-slate-500 hover:text-slate-300"><X className="w-4 h-4" /></button>
+                            </>
+                        ) : (
+                            <>
+                                <span className="flex-1 text-sm text-slate-200">{tag}</span>
+                                <span className="text-xs text-slate-500 font-mono">{count}</span>
+                                <button onClick={() => setRenaming({ from: tag, to: tag })} className="text-slate-500 hover:text-primary-400" title="Rename"><Pencil className="w-3.5 h-3.5" /></button>
+                                <button onClick={() => handleDelete(tag)} className="text-slate-500 hover:text-red-400" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {selected.length > 1 && (
+            <div className="flex items-center gap-2 pt-3 border-t border-slate-800">
+                <input
+                    value={mergeTarget}
+                    onChange={e => setMergeTarget(e.target.value)}
+                    list="tag-manager-targets"
+                    placeholder={`Merge ${selected.length} tags into...`}
+                    className={`${inputClass} flex-1`}
+                />
+                <datalist id="tag-manager-targets">
+                    {selected.map(t => <option key={t} value={t} />)}
+                </datalist>
+                <button
+                    onClick={handleMerge}
+                    disabled={busy || !mergeTarget.trim()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded text-xs font-bold disabled:opacity-40"
+                >
+                    <Merge className="w-3.5 h-3.5" /> Merge
+                </button>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { Prompt, TestCase, TestAssertion, TestAssertionType, TestRun, TestCaseResult } from '../types';
+import { db } from '../services/storage';
+import { runTestSuite, compareRuns, CaseChange } from '../services/testRunner';
+import { extractVariableNames } from '../services/templating';
+import { FlaskConical, Plus, Trash2, Play, Loader2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+
+interface TestSuitePanelProps {
+  prompt: Prompt;
+  onSuiteChange: (suite: TestCase[]) => void;
+}
+
+const ASSERTION_LABELS: Record<TestAssertionType, string> = {
+  contains: 'Contains',
+  regex: 'Matches regex',
+  jsonSchema: 'Valid JSON schema',
+  maxLength: 'Max length',
+  sflAlignment: 'SFL score ≥'
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+const createAssertion = (type: TestAssertionType): TestAssertion => {
+  const id = newId('assert');
+  switch (type) {
+    case 'contains': return { id, type, value: '' };
+    case 'regex': return { id, type, pattern: '' };
+    case 'jsonSchema': return { id, type, schema: '{\n  "type": "object"\n}' };
+    case 'maxLength': return { id, type, value: 1000 };
+    case 'sflAlignment': return { id, type, threshold: 70 };
+  }
+};
+
+const CHANGE_STYLES: Record<CaseChange, string> = {
+  new: 'text-slate-400 border-slate-700',
+  fixed: 'text-emerald-400 border-emerald-800',
+  regressed: 'text-red-400 border-red-800',
+  unchanged: 'text-slate-500 border-slate-800'
+};
+
+const inputClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-primary-500 placeholder:text-slate-700";
+
+const AssertionEditor: React.FC<{ assertion: TestAssertion; onChange: (a: TestAssertion) => void; onRemove: () => void }> = ({ assertion, onChange, onRemove }) => (
+  <div className="flex items-start gap-2">
+      <select
+          value={assertion.type}
+          onChange={e => onChange({ ...createAssertion(e.target.value as TestAssertionType), id: assertion.id })}
+          className={`${inputClass} w-36 flex-shrink-0`}
+      >
+          {Object.entries(ASSERTION_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+      </select>
+      <div className="flex-1 min-w-0">
+          {assertion.type === 'contains' && (
+              <div className="flex items-center gap-2">
+                  <input value={assertion.value} onChange={e => onChange({ ...assertion, value: e.target.value })} placeholder="Expected text" className={`${inputClass} flex-1`} />
+                  <label className="flex items-center gap-1 text-[10px] text-slate-500 whitespace-nowrap">
+                      <input type="checkbox" checked={!!assertion.caseSensitive} onChange={e => onChange({ ...assertion, caseSensitive: e.target.checked })} className="accent-primary-500" />
+                      Aa
+                  </label>
+              </div>
+          )}
+          {assertion.type === 'regex' && (
+              <div className="flex gap-2">
+                  <input value={assertion.pattern} onChange={e => onChange({ ...assertion, pattern: e.target.value })} placeholder="Pattern" className={`${inputClass} flex-1 font-mono`} />
+                  <input value={assertion.flags || ''} onChange={e => onChange({ ...assertion, flags: e.target.value || undefined })} placeholder="flags" className={`${inputClass} w-16 font-mono`} />
+              </div>
+          )}
+          {assertion.type === 'jsonSchema' && (
+              <textarea value={assertion.schema} onChange={e => onChange({ ...assertion, schema: e.target.value })} className={`${inputClass} w-full h-24 font-mono resize-y`} />
+          )}
+          {assertion.type === 'maxLength' && (
+              <input type="number" min={0} value={assertion.value} onChange={e => onChange({ ...assertion, value: Number(e.target.value) })} className={`${inputClass} w-32`} />
+          )}
+          {assertion.type === 'sflAlignment' && (
+              <input type="number" min={0} max={100} value={assertion.threshold} onChange={e => onChange({ ...assertion, threshold: Number(e.target.value) })} className={`${inputClass} w-32`} />
+          )}
+      </div>
+      <button onClick={onRemove} className="p-1.5 text-slate-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+  </div>
+);
+
+const ResultRow: React.FC<{ result: TestCaseResult; change?: CaseChange }> = ({ result, change }) => {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg">
+        <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between px-4 py-2.5 text-left">
+            <span className="flex items-center gap-2 text-sm text-slate-200">
+                {result.passed ? <CheckCircle className="w-4 h-4 text-emerald-500" /> : <XCircle className="w-4 h-4 text-red-500" />}
+                {result.caseName}
+            </span>
+            {change && (
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full border ${CHANGE_STYLES[change]}`}>{change}</span>
+            )}
+        </button>
+        {expanded && (
+            <div className="px-4 pb-4 space-y-3 border-t border-slate-800 pt-3">
+                {result.error && (
+                    <p className="text-xs text-red-300 flex gap-2"><AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" /> {result.error}</p>
+                )}
+                <ul className="space-y-1">
+                    {result.assertions.map(a => (
+                        <li key={a.assertionId} className={`text-xs flex gap-2 ${a.passed ? 'text-emerald-400/80' : 'text-red-400/80'}`}>
+                            {a.passed ? '✓' : '✗'} <span className="break-words min-w-0">{a.message}</span>
+                        </li>
+                    ))}
+                </ul>
+                {result.output && (
+                    <pre className="text-[11px] text-slate-400 font-mono whitespace-pre-wrap break-words bg-slate-950 border border-slate-800 rounded p-3 max-h-64 overflow-auto">{result.output}</pre>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+const TestSuitePanel: React.FC<TestSuitePanelProps> = ({ prompt, onSuiteChange }) => {
+  const suite = prompt.testSuite || [];
+  const variableNames = useMemo(() => extractVariableNames(prompt.content), [prompt.content]);
+  const versions = useMemo(() => [prompt.version, ...prompt.history.map(h => h.version)], [prompt.version, prompt.history]);
+
+  const [version, setVersion] = useState(prompt.version);
+  const [runs, setRuns] = useState<TestRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<TestCaseResult[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedRunId(null);
+    setProgress([]);
+    setRunError(null);
+    db.testRuns.getByPrompt(prompt.id).then(setRuns);
+  }, [prompt.id]);
+
+  useEffect(() => {
+    setVersion(prompt.version);
+  }, [prompt.id, prompt.version]);
+
+  const updateCase = (id: string, updates: Partial<TestCase>) => {
+    onSuiteChange(suite.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const addCase = () => {
+    onSuiteChange([...suite, { id: newId('case'), name: `Case ${suite.length + 1}`, inputs: {}, assertions: [createAssertion('contains')] }]);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRunError(null);
+    setProgress([]);
+    setSelectedRunId(null);
+    try {
+        const run = await runTestSuite(prompt, version, { onCaseComplete: result => setProgress(prev => [...prev, result]) });
+        setRuns(prev => [run, ...prev]);
+        setSelectedRunId(run.id);
+    } catch (e: any) {
+        console.error("Test run failed", e);
+        setRunError(e?.message || "Test run failed.");
+    } finally {
+        setIsRunning(false);
+        setProgress([]);
+    }
+  };
+
+  // Compare against the run recorded just before the one on display
+  const selectedIndex = selectedRunId ? runs.findIndex(r => r.id === selectedRunId) : 0;
+  const displayedRun = runs[selectedIndex];
+  const changes = displayedRun ? compareRuns(displayedRun, runs[selectedIndex + 1]) : {};
+  const passedCount = displayedRun?.results.filter(r => r.passed).length || 0;
+
+  return (
+    <div className="space-y-6">
+        {/* Suite Editor */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                    <FlaskConical className="w-4 h-4 text-primary-400" /> Test Suite
+                </h3>
+                <div className="flex items-center gap-2">
+                    <select value={version} onChange={e => setVersion(Number(e.target.value))} className={inputClass}>
+                        {versions.map(v => <option key={v} value={v}>v{v}{v === prompt.version ? ' (current)' : ''}</option>)}
+                    </select>
+                    <button
+                        onClick={handleRun}
+                        disabled={isRunning || suite.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+                    >
+                        {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                        {isRunning ? `Running ${progress.length}/${suite.length}` : 'Run Suite'}
+                    </button>
+                </div>
+            </div>
+
+            {suite.map(testCase => (
+                <div key={testCase.id} className="p-4 bg-slate-950/50 border border-slate-800 rounded-lg space-y-3">
+                    <div className="flex items-center gap-2">
+                        <input value={testCase.name} onChange={e => updateCase(testCase.id, { name: e.target.value })} className={`${inputClass} flex-1 font-bold`} />
+                        <button onClick={() => onSuiteChange(suite.filter(c => c.id !== testCase.id))} className="p-1.5 text-slate-600 hover:text-red-400">
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {variableNames.length > 0 && (
+                        <div className="grid grid-cols-2 gap-2">
+                            {variableNames.map(name => (
+                                <input
+                                    key={name}
+                                    value={testCase.inputs[name] || ''}
+                                    onChange={e => updateCase(testCase.id, { inputs: { ...testCase.inputs, [name]: e.target.value } })}
+                                    placeholder={`{{${name}}}`}
+                                    className={`${inputClass} font-mono`}
+                                />
+                            ))}
+                        </div>
+                    )}
+                    <textarea
+                        value={testCase.userInput || ''}
+                        onChange={e => updateCase(testCase.id, { userInput: e.target.value || undefined })}
+                        placeholder="User message (defaults to &quot;Begin.&quot;)"
+                        className={`${inputClass} w-full h-14 resize-none font-mono`}
+                    />
+                    <div className="space-y-2">
+                        {testCase.assertions.map(assertion => (
+                            <AssertionEditor
+                                key={assertion.id}
+                                assertion={assertion}
+                                onChange={a => updateCase(testCase.id, { assertions: testCase.assertions.map(x => x.id === a.id ? a : x) })}
+                                onRemove={() => updateCase(testCase.id, { assertions: testCase.assertions.filter(x => x.id !== assertion.id) })}
+                            />
+                        ))}
+                        <button
+                            onClick={() => updateCase(testCase.id, { assertions: [...testCase.assertions, createAssertion('contains')] })}
+                            className="text-[11px] font-bold text-primary-400 hover:text-primary-300 flex items-center gap-1"
+                        >
+                            <Plus className="w-3 h-3" /> Assertion
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            <button onClick={addCase} className="w-full py-2.5 border border-dashed border-slate-700 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-300 hover:border-slate-500 flex items-center justify-center gap-2">
+                <Plus className="w-4 h-4" /> Add Test Case
+            </button>
+
+            {runError && (
+                <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-lg text-xs text-red-300 flex gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {runError}
+                </div>
+            )}
+        </div>
+
+        {/* Results */}
+        {isRunning ? (
+            <div className="space-y-2">
+                {progress.map(result => <ResultRow key={result.caseId} result={result} />)}
+            </div>
+        ) : displayedRun && (
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        v{displayedRun.promptVersion} · {displayedRun.model} · {passedCount}/{displayedRun.results.length} passed
+                    </h4>
+                    <select value={displayedRun.id} onChange={e => setSelectedRunId(e.target.value)} className={inputClass}>
+                        {runs.map(r => (
+                            <option key={r.id} value={r.id}>{new Date(r.startedAt).toLocaleString()} · v{r.promptVersion}</option>
+                        ))}
+                    </select>
+                </div>
+                {displayedRun.results.map(result => (
+                    <ResultRow key={result.caseId} result={result} change={changes[result.caseId]} />
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default TestSuitePanel;
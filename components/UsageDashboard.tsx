@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { Prompt, Workflow, UserSettings, UsageRecord, ModelPricing } from '../types';
+import { db } from '../services/storage';
+import { summarizeUsage, getBudgetStatus, subscribeUsage, formatUsd, BudgetStatus, UsageGroup } from '../services/usage';
+import { BarChart3, Loader2, Trash2, AlertTriangle, Save } from 'lucide-react';
+
+interface UsageDashboardProps {
+  prompts: Prompt[];
+  workflows: Workflow[];
+  settings: UserSettings;
+  onSaveSettings: (settings: UserSettings) => void;
+}
+
+const RANGES = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-primary-500 placeholder:text-slate-700";
+
+const BUDGET_STYLES: Record<BudgetStatus['level'], string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-500'
+};
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+const parseAmount = (value: string) => {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ prompts, workflows, settings, onSaveSettings }) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [budgetDraft, setBudgetDraft] = useState({
+    daily: settings.budget.dailyUsd?.toString() || '',
+    monthly: settings.budget.monthlyUsd?.toString() || '',
+    alertAt: String(Math.round(settings.budget.alertAt * 100))
+  });
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, { input: string; output: string }>>({});
+
+  const load = async () => {
+    setRecords(await db.usage.getSince(Date.now() - rangeDays * DAY_MS));
+    setBudgets(await getBudgetStatus());
+  };
+
+  useEffect(() => { load(); }, [rangeDays, settings.budget]);
+  useEffect(() => subscribeUsage(() => load()), [rangeDays]);
+
+  const summary = useMemo(() => records ? summarizeUsage(records) : null, [records]);
+  const runWorkflows = useMemo(() => new Map((records || []).filter(r => r.runId).map(r => [r.runId!, r.workflowId])), [records]);
+  const maxDayCost = Math.max(...(summary?.byDay.map(d => d.costUsd) || [0]), 0.0001);
+
+  const promptName = (id: string) => prompts.find(p => p.id === id)?.title || 'Deleted prompt';
+  const runName = (runId: string) => {
+    const workflow = workflows.find(w => w.id === runWorkflows.get(runId));
+    const startedAt = Number(runId.replace(/^run-/, ''));
+    return `${workflow?.name || 'Deleted workflow'} · ${new Date(startedAt).toLocaleString()}`;
+  };
+
+  const handleSaveBudget = () => {
+    const alertPercent = Number(budgetDraft.alertAt);
+    onSaveSettings({
+      ...settings,
+      budget: {
+        dailyUsd: parseAmount(budgetDraft.daily),
+        monthlyUsd: parseAmount(budgetDraft.monthly),
+        alertAt: Number.isFinite(alertPercent) && alertPercent > 0 && alertPercent <= 100 ? alertPercent / 100 : settings.budget.alertAt
+      }
+    });
+  };
+
+  // Overrides only affect calls recorded from now on; past costs keep the price they were recorded with
+  const handleSavePrice = (key: string) => {
+    const draft = priceDrafts[key];
+    if (!draft) return;
+    const input = Number(draft.input);
+    const output = Number(draft.output);
+    const pricing: ModelPricing | undefined = draft.input.trim() && draft.output.trim() && input >= 0 && output >= 0
+      ? { inputPerMillion: input, outputPerMillion: output }
+      : undefined;
+    onSaveSettings({ ...settings, pricing: { ...settings.pricing, [key]: pricing } });
+    setPriceDrafts(prev => {
+      const { [key]: _saved, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete all recorded usage? Budget totals restart from zero.")) return;
+    await db.usage.clear();
+    load();
+  };
+
+  const groupTable = (title: string, groups: UsageGroup[], label: (key: string) => string) => (
+    <div className="space-y-2">
+        <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{title}</h4>
+        {groups.length === 0 ? (
+            <p className="text-xs text-slate-600">No calls in this range.</p>
+        ) : (
+            <div className="space-y-1">
+                {groups.slice(0, 8).map(group => (
+                    <div key={group.key} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-900/50 text-xs">
+                        <span className="flex-1 truncate text-slate-300">{label(group.key)}</span>
+                        <span className="text-slate-500 font-mono">{group.calls} calls</span>
+                        <span className="text-slate-500 font-mono">{formatTokens(group.inputTokens + group.outputTokens)} tok</span>
+                        <span className="w-16 text-right font-mono text-slate-200">{formatUsd(group.costUsd)}{group.unpricedCalls > 0 ? '+' : ''}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+      {/* Header */}
+      <div className="px-6 py-5 border-b border-slate-800 flex items-center gap-3 bg-slate-950">
+          <div className="p-2 bg-slate-800 rounded-lg text-primary-400">
+              <BarChart3 className="w-5 h-5" />
+          </div>
+          <div className="flex-1">
+              <h3 className="font-bold text-lg font-display">Usage & Cost</h3>
+              <p className="text-xs text-slate-500">Token usage and spend per prompt, workflow run and day</p>
+          </div>
+          <div className="flex gap-1 mr-10">
+              {RANGES.map(days => (
+                  <button
+                      key={days}
+                      onClick={() => setRangeDays(days)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${days === rangeDays ? 'bg-primary-600/20 text-primary-400' : 'text-slate-500 hover:bg-slate-800'}`}
+                  >
+                      {days}d
+                  </button>
+              ))}
+          </div>
+      </div>
+
+      {!summary ? (
+          <div className="flex-1 flex items-center justify-center"><Loader2 className="w-5 h-5 animate-spin text-slate-500" /></div>
+      ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8">
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                      { label: 'Spend', value: formatUsd(summary.totals.costUsd) },
+                      { label: 'Calls', value: String(summary.totals.calls) },
+                      { label: 'Input tokens', value: formatTokens(summary.totals.inputTokens) },
+                      { label: 'Output tokens', value: formatTokens(summary.totals.outputTokens) }
+                  ].map(stat => (
+                      <div key={stat.label} className="p-4 rounded-xl bg-slate-900 border border-slate-800">
+                          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{stat.label}</p>
+                          <p className="text-2xl font-bold font-display text-slate-100 mt-1">{stat.value}</p>
+                      </div>
+                  ))}
+              </div>
+              {(summary.totals.unpricedCalls > 0 || summary.totals.estimatedCalls > 0) && (
+                  <p className="text-[11px] text-slate-500 -mt-5">
+                      {summary.totals.unpricedCalls > 0 && `${summary.totals.unpricedCalls} call(s) used models without a known price and aren't in the spend (marked +). `}
+                      {summary.totals.estimatedCalls > 0 && `${summary.totals.estimatedCalls} call(s) had token counts estimated from text length.`}
+                  </p>
+              )}
+
+              {/* Budgets */}
+              <div className="space-y-3">
+                  <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Budgets</h4>
+                  {budgets.map(budget => (
+                      <div key={budget.period} className="space-y-1">
+                          <div className="flex justify-between text-xs">
+                              <span className="capitalize text-slate-300 flex items-center gap-1.5">
+                                  {budget.level !== 'ok' && <AlertTriangle className={`w-3.5 h-3.5 ${budget.level === 'exceeded' ? 'text-red-400' : 'text-amber-400'}`} />}
+                                  {budget.period}
+                              </span>
+                              <span className="font-mono text-slate-400">{formatUsd(budget.spentUsd)} / {formatUsd(budget.limitUsd)}</span>
+                          </div>
+                          <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                              <div className={`h-full ${BUDGET_STYLES[budget.level]}`} style={{ width: `${Math.min(100, (budget.spentUsd / budget.limitUsd) * 100)}%` }} />
+                          </div>
+                      </div>
+                  ))}
+                  <div className="flex flex-wrap items-end gap-3">
+                      <label className="space-y-1 text-[11px] text-slate-500">
+                          <span>Daily (USD)</span>
+                          <input value={budgetDraft.daily} onChange={e => setBudgetDraft({ ...budgetDraft, daily: e.target.value })} placeholder="No limit" className={inputClass} />
+                      </label>
+                      <label className="space-y-1 text-[11px] text-slate-500">
+                          <span>Monthly (USD)</span>
+                          <input value={budgetDraft.monthly} onChange={e => setBudgetDraft({ ...budgetDraft, monthly: e.target.value })} placeholder="No limit" className={inputClass} />
+                      </label>
+                      <label className="space-y-1 text-[11px] text-slate-500">
+                          <span>Warn at (%)</span>
+                          <input value={budgetDraft.alertAt} onChange={e => setBudgetDraft({ ...budgetDraft, alertAt: e.target.value })} className={inputClass} />
+                      </label>
+                      <button onClick={handleSaveBudget} className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded text-xs font-bold">
+                          <Save className="w-3.5 h-3.5" /> Save Budgets
+                      </button>
+                  </div>
+              </div>
+
+              {/* Daily spend */}
+              <div className="space-y-2">
+                  <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Daily Spend</h4>
+                  {summary.byDay.length === 0 ? (
+                      <p className="text-xs text-slate-600">No calls in this range.</p>
+                  ) : (
+                      <div className="flex items-end gap-1 h-32 p-3 rounded-xl bg-slate-900/50 border border-slate-800">
+                          {summary.byDay.map(day => (
+                              <div key={day.key} className="flex-1 h-full flex flex-col justify-end group relative" title={`${day.key}: ${formatUsd(day.costUsd)} · ${day.calls} calls`}>
+                                  <div className="bg-primary-500/70 group-hover:bg-primary-400 rounded-t min-h-[2px]" style={{ height: `${(day.costUsd / maxDayCost) * 100}%` }} />
+                              </div>
+                          ))}
+                      </div>
+                  )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {groupTable('By Prompt', summary.byPrompt, promptName)}
+                  {groupTable('By Workflow Run', summary.byRun, runName)}
+              </div>
+
+              {/* Models & price overrides */}
+              <div className="space-y-2">
+                  <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">By Model</h4>
+                  <p className="text-[11px] text-slate-600">Override a model's price in USD per 1M tokens (input / output). Overrides apply to calls made from now on.</p>
+                  {summary.byModel.map(group => {
+                      const override = settings.pricing[group.key];
+                      const draft = priceDrafts[group.key] || { input: override?.inputPerMillion?.toString() || '', output: override?.outputPerMillion?.toString() || '' };
+                      const setDraft = (patch: Partial<typeof draft>) => setPriceDrafts(prev => ({ ...prev, [group.key]: { ...draft, ...patch } }));
+                      return (
+                          <div key={group.key} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-900/50 text-xs">
+                              <span className="flex-1 truncate text-slate-300 font-mono">{group.key}</span>
+                              <span className="text-slate-500 font-mono">{group.calls} calls</span>
+                              <span className="w-16 text-right font-mono text-slate-200">{formatUsd(group.costUsd)}{group.unpricedCalls > 0 ? '+' : ''}</span>
+                              <input value={draft.input} onChange={e => setDraft({ input: e.target.value })} placeholder="in" className={`${inputClass} !w-16`} />
+                              <input value={draft.output} onChange={e => setDraft({ output: e.target.value })} placeholder="out" className={`${inputClass} !w-16`} />
+                              <button onClick={() => handleSavePrice(group.key)} disabled={!priceDrafts[group.key]} className="text-slate-500 hover:text-primary-400 disabled:opacity-30" title="Save price">
+                                  <Save className="w-3.5 h-3.5" />
+                              </button>
+                          </div>
+                      );
+                  })}
+              </div>
+
+              <div className="flex justify-end pt-2 border-t border-slate-800">
+                  <button onClick={handleClear} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-red-400">
+                      <Trash2 className="w-3.5 h-3.5" /> Clear usage history
+                  </button>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
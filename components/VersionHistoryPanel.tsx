@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { Prompt, PromptVersion } from '../types';
+import DiffViewer from './DiffViewer';
+import { RotateCcw, GitBranch, Tag, Check, X } from 'lucide-react';
+
+interface VersionHistoryPanelProps {
+  prompt: Prompt;
+  onRestore: (version: number) => void;
+  onFork: (version: number, branch: string) => void;
+  onTag: (version: number, tags: string[], changeDescription: string) => void;
+}
+
+type VersionEntry = PromptVersion & { isHead: boolean };
+
+const DEFAULT_BRANCH = 'main';
+
+const toEntries = (prompt: Prompt): VersionEntry[] => [
+  {
+    version: prompt.version,
+    content: prompt.content,
+    sfl: prompt.sfl,
+    timestamp: prompt.updatedAt,
+    changeDescription: prompt.changeDescription,
+    branch: prompt.branch,
+    parentVersion: prompt.parentVersion,
+    versionTags: prompt.versionTags,
+    isHead: true
+  },
+  ...prompt.history.map(v => ({ ...v, isHead: false }))
+];
+
+const inputClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-primary-500 placeholder:text-slate-700";
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ prompt, onRestore, onFork, onTag }) => {
+  const entries = useMemo(() => toEntries(prompt), [prompt]);
+  const branches = useMemo(() => Array.from(new Set(entries.map(e => e.branch || DEFAULT_BRANCH))), [entries]);
+
+  const [branchFilter, setBranchFilter] = useState<string>('all');
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number>(prompt.version);
+  const [forking, setForking] = useState<{ version: number; branch: string } | null>(null);
+  const [tagging, setTagging] = useState<{ version: number; tags: string; description: string } | null>(null);
+
+  // Default comparison: the head against the version before it
+  useEffect(() => {
+    setCompareTo(prompt.version);
+    setCompareFrom(prompt.history[0]?.version ?? null);
+    setForking(null);
+    setTagging(null);
+  }, [prompt.id, prompt.version]);
+
+  const visible = entries.filter(e => branchFilter === 'all' || (e.branch || DEFAULT_BRANCH) === branchFilter);
+  const fromEntry = entries.find(e => e.version === compareFrom);
+  const toEntry = entries.find(e => e.version === compareTo);
+
+  return (
+    <div className="space-y-6">
+        {/* Compare */}
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Compare</h3>
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                    <select value={compareFrom ?? ''} onChange={e => setCompareFrom(e.target.value ? Number(e.target.value) : null)} className={inputClass}>
+                        <option value="">(empty)</option>
+                        {entries.map(e => <option key={e.version} value={e.version}>v{e.version}</option>)}
+                    </select>
+                    <span>→</span>
+                    <select value={compareTo} onChange={e => setCompareTo(Number(e.target.value))} className={inputClass}>
+                        {entries.map(e => <option key={e.version} value={e.version}>v{e.version}</option>)}
+                    </select>
+                </div>
+            </div>
+            <DiffViewer oldText={fromEntry?.content || ''} newText={toEntry?.content || ''} oldSfl={fromEntry?.sfl} newSfl={toEntry?.sfl} />
+        </div>
+
+        {/* Versions */}
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Version History</h3>
+                {branches.length > 1 && (
+                    <select value={branchFilter} onChange={e => setBranchFilter(e.target.value)} className={inputClass}>
+                        <option value="all">All branches</option>
+                        {branches.map(b => <option key={b} value={b}>{b}</option>)}
+                    </select>
+                )}
+            </div>
+
+            {visible.map(entry => (
+                <div key={entry.version} className={`p-4 rounded-lg border space-y-2 ${entry.isHead ? 'bg-primary-500/5 border-primary-500/30' : 'bg-slate-900 border-slate-800'}`}>
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 flex-wrap min-w-0">
+                            <span className="text-sm font-bold font-mono text-slate-200">v{entry.version}</span>
+                            {entry.isHead && <span className="text-[10px] font-bold uppercase text-primary-400">current</span>}
+                            <span className="flex items-center gap-1 text-[10px] text-slate-500 font-mono">
+                                <GitBranch className="w-3 h-3" /> {entry.branch || DEFAULT_BRANCH}
+                            </span>
+                            {entry.parentVersion !== undefined && (
+                                <span className="text-[10px] text-slate-600">from v{entry.parentVersion}</span>
+                            )}
+                            {(entry.versionTags || []).map(tag => (
+                                <span key={tag} className="px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/30 text-[10px] font-bold text-amber-400">{tag}</span>
+                            ))}
+                        </div>
+                        <span className="text-xs text-slate-500 flex-shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                    </div>
+
+                    {entry.changeDescription && <p className="text-xs text-slate-400">{entry.changeDescription}</p>}
+
+                    {tagging?.version === entry.version ? (
+                        <div className="flex flex-wrap gap-2 pt-1">
+                            <input value={tagging.tags} onChange={e => setTagging({ ...tagging, tags: e.target.value })} placeholder="Tags, comma separated (e.g. prod)" className={`${inputClass} w-56`} />
+                            <input value={tagging.description} onChange={e => setTagging({ ...tagging, description: e.target.value })} placeholder="Change description" className={`${inputClass} flex-1 min-w-[160px]`} />
+                            <button
+                                onClick={() => { onTag(entry.version, tagging.tags.split(','), tagging.description); setTagging(null); }}
+                                className="p-1.5 text-emerald-400 hover:text-emerald-300"
+                            >
+                                <Check className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setTagging(null)} className="p-1.5 text-slate-500 hover:text-slate-300"><X className="w-4 h-4" /></button>
+                        </div>
+                    ) : forking?.version === entry.version ? (
+                        <div className="flex gap-2 pt-1">
+                            <input autoFocus value={forking.branch} onChange={e => setForking({ ...forking, branch: e.target.value })} placeholder="New branch name" className={`${inputClass} flex-1`} />
+                            <button
+                                onClick={() => { if (forking.branch.trim()) { onFork(entry.version, forking.branch); setForking(null); } }}
+                                disabled={!forking.branch.trim()}
+                                className="p-1.5 text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+                            >
+                                <Check className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setForking(null)} className="p-1.5 text-slate-500 hover:text-slate-300"><X className="w-4 h-4" /></button>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-3 pt-1 text-[11px] font-bold">
+                            {!entry.isHead && (
+                                <button onClick={() => onRestore(entry.version)} className="flex items-center gap-1 text-slate-400 hover:text-primary-400">
+                                    <RotateCcw className="w-3 h-3" /> Restore
+                                </button>
+                            )}
+                            <button onClick={() => setForking({ version: entry.version, branch: '' })} className="flex items-center gap-1 text-slate-400 hover:text-primary-400">
+                                <GitBranch className="w-3 h-3" /> Fork
+                            </button>
+                            <button
+                                onClick={() => setTagging({ version: entry.version, tags: (entry.versionTags || []).join(', '), description: entry.changeDescription || '' })}
+                                className="flex items-center gap-1 text-slate-400 hover:text-primary-400"
+                            >
+                                <Tag className="w-3 h-3" /> Tag
+                            </button>
+                            <span className="flex-1" />
+                            <button onClick={() => setCompareFrom(entry.version)} className={compareFrom === entry.version ? 'text-primary-400' : 'text-slate-600 hover:text-slate-400'}>A</button>
+                            <button onClick={() => setCompareTo(entry.version)} className={compareTo === entry.version ? 'text-primary-400' : 'text-slate-600 hover:text-slate-400'}>B</button>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
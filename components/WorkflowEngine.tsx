@@ -2,18 +2,103 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Workflow, WorkflowTask, TaskType, Prompt } from '../types';
-import { Play, Plus, X, Settings, CheckCircle, Circle, AlertCircle, Loader2, FileText, Code, Activity, User, GripHorizontal, Zap, Upload, Video, Mic, FileInput, ArrowRight, FileOutput, Globe } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Workflow, WorkflowTask, WorkflowExecutionLog, TaskType, Prompt, VariableBinding, ReviewDecision, RouteRule, MapItemResult, InputMergeStrategy } from '../types';
+import { Play, Plus, X, Settings, CheckCircle, Circle, AlertCircle, AlertTriangle, Loader2, FileText, Code, Activity, User, GripHorizontal, Zap, Upload, Video, Mic, FileInput, ArrowRight, FileOutput, Globe, PauseCircle, Check, GitBranch, Split, MinusCircle, Repeat, Layers } from 'lucide-react';
 import { db } from '../services/storage';
+import {
+  validateWorkflow, hasBlockingIssues, wouldCreateCycle, getAncestorIds, isBranchingTask, getBranchOptions,
+  isContainerTask, getContainerBody, getContainerMembership, canRunInContainer,
+  DEFAULT_LOOP_ITERATIONS, MAX_LOOP_ITERATIONS, DEFAULT_MAP_CONCURRENCY, MAX_MAP_CONCURRENCY,
+  isMergingTask, getInputPorts, getDefaultPortName, DEFAULT_MERGE_SEPARATOR
+} from '../services/workflowValidator';
+import { EXPRESSION_FUNCTIONS } from '../services/expression';
+import { syncVariables } from '../services/templating';
 
 interface WorkflowEngineProps {
   workflow: Workflow;
   onSave: (w: Workflow) => void;
   onRun: (w: Workflow) => void;
+  onCancel?: () => void;
+  onReview?: (taskId: string, review: ReviewDecision) => void;
 }
 
-const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkflow, onSave, onRun }) => {
+const withoutKey = <T,>(record: Record<string, T>, key: string): Record<string, T> => {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+};
+
+// A new edge out of a branching node takes the first branch that has no edge yet
+const assignFreeBranch = (source: WorkflowTask, targetId: string): WorkflowTask => {
+  const used = Object.values(source.config.branches || {});
+  const free = getBranchOptions(source).find(o => !used.includes(o.key));
+  return free ? { ...source, config: { ...source.config, branches: { ...source.config.branches, [targetId]: free.key } } } : source;
+};
+
+// Compact per-pass summary for the loop view: the score when the output carries one (SFL analysis), else the status
+const passSummary = (log: WorkflowExecutionLog) =>
+  typeof log.output?.score === 'number' ? `score ${log.output.score}` : log.status.toLowerCase();
+
+const outputText = (output: any) => typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+
+// Decision form for a HUMAN_REVIEW task the run is paused at. The text starts as the upstream output;
+// approving with it unchanged passes the original value on untouched.
+const ReviewPanel: React.FC<{ task: WorkflowTask; log: WorkflowExecutionLog; onDecide: (review: ReviewDecision) => void }> = ({ task, log, onDecide }) => {
+  const original = outputText(log.output ?? '');
+  const [text, setText] = useState(original);
+  const [comment, setComment] = useState('');
+
+  const decide = (verdict: ReviewDecision['verdict']) => onDecide({
+      verdict,
+      comment: comment.trim() || undefined,
+      editedOutput: verdict === 'approved' && text !== original ? text : undefined,
+      decidedAt: Date.now()
+  });
+
+  return (
+    <div className="space-y-3">
+        {task.config.reviewInstructions && (
+            <div className="p-2 bg-amber-900/10 border border-amber-900/30 rounded text-xs text-amber-300/90 whitespace-pre-wrap">
+                {task.config.reviewInstructions}
+            </div>
+        )}
+        <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 flex justify-between">
+                <span>Output Under Review</span>
+                {text !== original && <button onClick={() => setText(original)} className="normal-case tracking-normal text-slate-400 hover:text-slate-200">Revert edits</button>}
+            </label>
+            <textarea
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs font-mono text-slate-300 focus:border-amber-500 outline-none resize-none h-48 leading-relaxed"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+            />
+        </div>
+        <input
+            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs text-slate-300 focus:border-amber-500 outline-none"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (required to reject)"
+        />
+        <div className="grid grid-cols-2 gap-2">
+            <button
+                onClick={() => decide('rejected')}
+                disabled={!comment.trim()}
+                className="py-2 border border-red-900/50 text-red-400 hover:bg-red-900/20 disabled:opacity-40 disabled:cursor-not-allowed rounded text-xs font-bold transition-colors flex items-center justify-center gap-1.5"
+            >
+                <X className="w-3 h-3" /> Reject
+            </button>
+            <button
+                onClick={() => decide('approved')}
+                className="py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded text-xs font-bold transition-colors flex items-center justify-center gap-1.5"
+            >
+                <Check className="w-3 h-3" /> {text !== original ? 'Approve Edits' : 'Approve'}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkflow, onSave, onRun, onCancel, onReview }) => {
   // --- State ---
   const [workflow, setWorkflow] = useState<Workflow>(initialWorkflow);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
@@ -34,13 +119,20 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
 
   // --- Initialization ---
   useEffect(() => {
-    setPrompts(db.prompts.getAll());
+    db.prompts.getAll().then(setPrompts);
   }, []);
 
   useEffect(() => {
       setWorkflow(initialWorkflow);
   }, [initialWorkflow]);
 
+  // Bring the paused review into view when a run stops for it
+  useEffect(() => {
+      if (initialWorkflow.status !== 'AWAITING_REVIEW') return;
+      const pending = initialWorkflow.logs.find(l => l.status === 'AWAITING_REVIEW' && l.timestamp === initialWorkflow.lastRun);
+      if (pending) setSelectedTaskId(pending.taskId);
+  }, [initialWorkflow.status, initialWorkflow.lastRun]);
+
   // --- Helpers ---
   
   // Convert screen coordinates to canvas coordinates
@@ -53,6 +145,11 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
     };
   }, [viewport]);
 
+  const issues = useMemo(() => validateWorkflow(workflow, prompts), [workflow.tasks, prompts]);
+  const isBlocked = hasBlockingIssues(issues);
+
+  const getTaskIssues = (id: string) => issues.filter(i => i.taskId === id);
+
   const saveWorkflow = (w: Workflow) => {
       setWorkflow(w);
       onSave(w);
@@ -72,6 +169,11 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
         centerY = (-viewport.y + rect.height / 2) / viewport.zoom - 40;
     }
 
+    // Pick the first output variable name not already taken
+    const usedKeys = new Set(workflow.tasks.map(t => t.config.targetKey));
+    let keyIndex = workflow.tasks.length + 1;
+    while (usedKeys.has(`output_${keyIndex}`)) keyIndex++;
+
     const newTask: WorkflowTask = {
         id: `task-${Date.now()}`,
         type,
@@ -79,7 +181,7 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
               type === TaskType.OUTPUT ? 'Final Output' : 
               `New ${type.toLowerCase().replace('_', ' ')}`,
         config: {
-            targetKey: `output_${workflow.tasks.length + 1}`,
+            targetKey: `output_${keyIndex}`,
             inputType: 'text',
             useGrounding: false,
             outputFormat: 'markdown'
@@ -99,7 +201,10 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
         }
     }
 
-    const updated = { ...workflow, tasks: [...workflow.tasks, newTask] };
+    const updated = {
+        ...workflow,
+        tasks: [...workflow.tasks.map(t => newTask.dependencies.includes(t.id) ? assignFreeBranch(t, newTask.id) : t), newTask]
+    };
     saveWorkflow(updated);
     setSelectedTaskId(newTask.id);
   };
@@ -113,7 +218,12 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
               config: {
                   ...t.config,
                   // Clear dataSourceId if the source was deleted
-                  dataSourceId: t.config.dataSourceId === id ? undefined : t.config.dataSourceId
+                  dataSourceId: t.config.dataSourceId === id ? undefined : t.config.dataSourceId,
+                  branches: t.config.branches && withoutKey(t.config.branches, id),
+                  inputPorts: t.config.inputPorts && withoutKey(t.config.inputPorts, id),
+                  bodyTaskIds: t.config.bodyTaskIds?.filter(b => b !== id),
+                  carryTaskId: t.config.carryTaskId === id ? undefined : t.config.carryTaskId,
+                  collectTaskId: t.config.collectTaskId === id ? undefined : t.config.collectTaskId
               }
           }))
       };
@@ -141,6 +251,38 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
       handleUpdateTask(taskId, { config: updatedConfig });
   };
 
+  const handleUpdateBinding = (taskId: string, variableName: string, binding: VariableBinding | undefined) => {
+      const task = workflow.tasks.find(t => t.id === taskId);
+      if (!task) return;
+      const bindings = { ...(task.config.variableBindings || {}) };
+      if (binding) bindings[variableName] = binding;
+      else delete bindings[variableName];
+      handleUpdateConfig(taskId, 'variableBindings', bindings);
+  };
+
+  const handleUpdateRoutes = (taskId: string, routes: RouteRule[]) => {
+      const task = workflow.tasks.find(t => t.id === taskId);
+      if (!task) return;
+      // Edges assigned to a removed rule lose their branch rather than pointing at nothing
+      const ruleIds = new Set(routes.map(r => r.id));
+      const branches = Object.fromEntries(Object.entries(task.config.branches || {}).filter(([, key]) => key === 'default' || ruleIds.has(key)));
+      handleUpdateTask(taskId, { config: { ...task.config, routes, branches } });
+  };
+
+  const handleRenamePort = (task: WorkflowTask, sourceId: string, name: string) => {
+      const ports = task.config.inputPorts || {};
+      handleUpdateConfig(task.id, 'inputPorts', name ? { ...ports, [sourceId]: name } : withoutKey(ports, sourceId));
+  };
+
+  const handleToggleBody = (container: WorkflowTask, taskId: string) => {
+      const bodyIds = container.config.bodyTaskIds || [];
+      const next = bodyIds.includes(taskId) ? bodyIds.filter(id => id !== taskId) : [...bodyIds, taskId];
+      const keep = (id?: string) => id && next.includes(id) ? id : undefined;
+      handleUpdateTask(container.id, {
+          config: { ...container.config, bodyTaskIds: next, carryTaskId: keep(container.config.carryTaskId), collectTaskId: keep(container.config.collectTaskId) }
+      });
+  };
+
   const handleFileUpload = async (taskId: string, e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -154,15 +296,19 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
       if (file.type.includes('text') || file.name.endsWith('.md') || file.name.endsWith('.json') || file.name.endsWith('.csv')) {
           const text = await file.text();
           updates.inputValue = text;
+          updates.blobId = undefined;
       } else {
-          // For binary (audio/video), in a real app we'd upload. 
-          // Here we mock by storing metadata.
+          // Binary (audio/video) contents go to the blob store; the config only keeps a reference
+          updates.blobId = await db.blobs.put(file);
           updates.inputValue = `[Binary File Reference: ${file.name}]`;
       }
 
-      handleUpdateConfig(taskId, 'fileName', updates.fileName);
-      handleUpdateConfig(taskId, 'fileType', updates.fileType);
-      handleUpdateConfig(taskId, 'inputValue', updates.inputValue);
+      const task = workflow.tasks.find(t => t.id === taskId);
+      if (!task) return;
+      if (task.config.blobId && task.config.blobId !== updates.blobId) {
+          db.blobs.delete(task.config.blobId).catch(err => console.warn("Failed to release previous file", err));
+      }
+      handleUpdateTask(taskId, { config: { ...task.config, ...updates } });
   };
 
   // --- Connection Management ---
@@ -190,7 +336,14 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
       // Check if already connected
       if (targetTask.dependencies.includes(sourceId)) return;
 
+      // Validation 3: No cycles (target must not already feed into source)
+      if (wouldCreateCycle(workflow.tasks, sourceId, targetId)) {
+          console.warn("Connection rejected: it would create a cycle.");
+          return;
+      }
+
       const updatedTasks = workflow.tasks.map(t => {
+          if (t.id === sourceId) return assignFreeBranch(t, targetId);
           if (t.id === targetId) {
              const newDependencies = [...t.dependencies, sourceId];
              // Auto-assign dataSourceId if empty and this is a consumer node
@@ -207,9 +360,12 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
 
   const handleDisconnect = (sourceId: string, targetId: string) => {
       const updatedTasks = workflow.tasks.map(t => {
+          if (t.id === sourceId && t.config.branches?.[targetId]) {
+              return { ...t, config: { ...t.config, branches: withoutKey(t.config.branches, targetId) } };
+          }
           if (t.id === targetId) {
               const newDependencies = t.dependencies.filter(d => d !== sourceId);
-              let newConfig = { ...t.config };
+              let newConfig = { ...t.config, inputPorts: t.config.inputPorts && withoutKey(t.config.inputPorts, sourceId) };
               // Clear dataSourceId if it was the disconnected node
               if (newConfig.dataSourceId === sourceId) {
                   newConfig.dataSourceId = newDependencies.length > 0 ? newDependencies[0] : undefined;
@@ -292,12 +448,75 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
 
   // --- Render Helpers ---
 
+  // Loop body tasks have a log per pass; the latest one is the task's current state
+  const getTaskLog = (id: string) => {
+    return workflow.logs.filter(l => l.taskId === id && l.timestamp === workflow.lastRun).pop();
+  };
+
+  const getPassLogs = (loop: WorkflowTask) => {
+    const bodyIds = loop.config.bodyTaskIds || [];
+    return workflow.logs.filter(l => l.timestamp === workflow.lastRun && l.iteration && bodyIds.includes(l.taskId));
+  };
+
   const getTaskStatus = (id: string) => {
-    const log = workflow.logs.find(l => l.taskId === id && l.timestamp === workflow.lastRun);
-    return log?.status || 'PENDING';
+    return getTaskLog(id)?.status || 'PENDING';
   };
 
+  const getBranchLabel = (task: WorkflowTask, key: string) => getBranchOptions(task).find(o => o.key === key)?.label;
+
   const selectedTaskObj = workflow.tasks.find(t => t.id === selectedTaskId);
+  const selectedTaskLog = selectedTaskId ? getTaskLog(selectedTaskId) : undefined;
+  const selectedPrompt = selectedTaskObj?.config.promptId ? prompts.find(p => p.id === selectedTaskObj.config.promptId) : undefined;
+  const selectedPromptVariables = selectedPrompt ? syncVariables(selectedPrompt.content, selectedPrompt.variables) : [];
+  // Output variables available to the selected node (from anything upstream of it)
+  const ownerOf = getContainerMembership(workflow.tasks);
+  // Inside a map, the current item sits in the context alongside upstream outputs
+  const owningMap = selectedTaskObj ? workflow.tasks.find(t => t.type === TaskType.MAP && t.id === ownerOf.get(selectedTaskObj.id)) : undefined;
+  const upstreamKeys = selectedTaskObj
+    ? [
+        ...(owningMap ? [owningMap.config.itemKey?.trim() || 'item'] : []),
+        ...getAncestorIds(workflow.tasks, selectedTaskObj.id)
+            .map(id => workflow.tasks.find(t => t.id === id)?.config.targetKey)
+            .filter((key): key is string => !!key)
+      ]
+    : [];
+  const downstreamTasks = selectedTaskObj ? workflow.tasks.filter(t => t.dependencies.includes(selectedTaskObj.id)) : [];
+  const bodyCandidates = selectedTaskObj && isContainerTask(selectedTaskObj)
+    ? workflow.tasks.filter(t => t.id !== selectedTaskObj.id && canRunInContainer(t) && (!ownerOf.has(t.id) || ownerOf.get(t.id) === selectedTaskObj.id))
+    : [];
+  const selectedMapFailures: MapItemResult[] = selectedTaskObj?.type === TaskType.MAP && Array.isArray(selectedTaskLog?.output)
+    ? selectedTaskLog.output.filter((r: MapItemResult) => r?.error)
+    : [];
+  const selectedPassLogs = selectedTaskObj?.type === TaskType.LOOP ? getPassLogs(selectedTaskObj) : [];
+  const selectedPassCount = Math.max(0, ...selectedPassLogs.map(l => l.iteration!));
+
+  const renderBodyPicker = (container: WorkflowTask, emptyHint: string) => (
+    <div>
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Body Nodes</label>
+        {bodyCandidates.length === 0 ? (
+            <p className="text-xs text-slate-500">{emptyHint}</p>
+        ) : bodyCandidates.map(t => (
+            <label key={t.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-800 text-xs text-slate-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    className={container.type === TaskType.MAP ? 'accent-teal-500' : 'accent-violet-500'}
+                    checked={container.config.bodyTaskIds?.includes(t.id) || false}
+                    onChange={() => handleToggleBody(container, t.id)}
+                />
+                <span className="truncate">{t.name}</span>
+                <span className="ml-auto text-[9px] font-mono text-slate-600">{t.type}</span>
+            </label>
+        ))}
+    </div>
+  );
+
+  const expressionHelp = (
+    <div className="mt-2 p-2 bg-slate-900 border border-slate-800 rounded text-[10px] text-slate-500 space-y-1 font-mono">
+        <p><span className="text-yellow-400">input</span> this node's input{upstreamKeys.map(key => <span key={key}>, <span className="text-yellow-400">{key}</span></span>)}</p>
+        <p>{'== != < <= > >= && || ! + - * / %'}</p>
+        <p>{EXPRESSION_FUNCTIONS.map(name => `${name}()`).join(' · ')}</p>
+    </div>
+  );
 
   return (
     <div className="flex h-full bg-slate-950 border border-slate-800 rounded-xl overflow-hidden relative">
@@ -336,6 +555,19 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                             </div>
                         </div>
 
+                        {getTaskIssues(selectedTaskObj.id).length > 0 && (
+                            <div className="space-y-1.5">
+                                {getTaskIssues(selectedTaskObj.id).map((issue, idx) => (
+                                    <div key={idx} className={`p-2 rounded text-xs flex gap-2 border ${
+                                        issue.severity === 'error' ? 'bg-red-900/10 border-red-900/30 text-red-400' : 'bg-amber-900/10 border-amber-900/30 text-amber-500'
+                                    }`}>
+                                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                        <span>{issue.message}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         <div className="h-px bg-slate-800 my-2"></div>
 
                         {/* Task Specific Config */}
@@ -348,12 +580,34 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                             {(selectedTaskObj.type === TaskType.GENERATION || 
                               selectedTaskObj.type === TaskType.TRANSFORMATION || 
                               selectedTaskObj.type === TaskType.ANALYSIS ||
+                              selectedTaskObj.type === TaskType.HUMAN_REVIEW ||
+                              isBranchingTask(selectedTaskObj) ||
+                              isContainerTask(selectedTaskObj) ||
                               selectedTaskObj.type === TaskType.OUTPUT) && (
                                 <div>
-                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">
-                                        Input Data Source
-                                    </label>
-                                    {selectedTaskObj.dependencies.length > 0 ? (
+                                    <div className="flex items-center justify-between mb-1.5">
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                                            {isMergingTask(selectedTaskObj) ? 'Input Ports' : 'Input Data Source'}
+                                        </label>
+                                        {(selectedTaskObj.dependencies.length > 1 || isMergingTask(selectedTaskObj)) && (
+                                            <select
+                                                className="bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[10px] text-slate-300 focus:border-primary-500 outline-none"
+                                                value={selectedTaskObj.config.mergeStrategy || 'single'}
+                                                onChange={(e) => handleUpdateConfig(selectedTaskId!, 'mergeStrategy', e.target.value as InputMergeStrategy)}
+                                            >
+                                                <option value="single">Single source</option>
+                                                <option value="concat">Concatenate</option>
+                                                <option value="object">Object by port</option>
+                                                <option value="template">Template</option>
+                                            </select>
+                                        )}
+                                    </div>
+                                    {selectedTaskObj.dependencies.length === 0 ? (
+                                        <div className="p-2 bg-amber-900/10 border border-amber-900/30 rounded text-xs text-amber-500 flex gap-2">
+                                            <AlertCircle className="w-4 h-4" />
+                                            <span>Connect a previous node to provide input.</span>
+                                        </div>
+                                    ) : !isMergingTask(selectedTaskObj) ? (
                                         <select
                                             className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
                                             value={selectedTaskObj.config.dataSourceId || ''}
@@ -366,9 +620,57 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                             })}
                                         </select>
                                     ) : (
-                                        <div className="p-2 bg-amber-900/10 border border-amber-900/30 rounded text-xs text-amber-500 flex gap-2">
-                                            <AlertCircle className="w-4 h-4" />
-                                            <span>Connect a previous node to provide input.</span>
+                                        <div className="space-y-3">
+                                            <div className="space-y-1.5">
+                                                {getInputPorts(selectedTaskObj, workflow.tasks).map((port, i) => {
+                                                    const source = workflow.tasks.find(t => t.id === port.sourceId);
+                                                    return (
+                                                        <div key={port.sourceId} className="flex items-center gap-2">
+                                                            <span className="flex-1 text-xs text-slate-400 truncate">{source?.name}</span>
+                                                            <ArrowRight className="w-3 h-3 text-slate-600 flex-shrink-0" />
+                                                            <input
+                                                                className="w-32 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-primary-300 focus:border-primary-500 outline-none"
+                                                                value={selectedTaskObj.config.inputPorts?.[port.sourceId] || ''}
+                                                                onChange={(e) => handleRenamePort(selectedTaskObj, port.sourceId, e.target.value)}
+                                                                placeholder={getDefaultPortName(source, i)}
+                                                                spellCheck={false}
+                                                            />
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                            {selectedTaskObj.config.mergeStrategy === 'concat' && (
+                                                <div>
+                                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Separator</label>
+                                                    <input
+                                                        className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs font-mono text-slate-200 focus:border-primary-500 outline-none"
+                                                        value={selectedTaskObj.config.mergeSeparator ?? DEFAULT_MERGE_SEPARATOR}
+                                                        onChange={(e) => handleUpdateConfig(selectedTaskId!, 'mergeSeparator', e.target.value)}
+                                                        spellCheck={false}
+                                                    />
+                                                    <p className="mt-1 text-[10px] text-slate-500">Inputs are joined in port order. Use <span className="font-mono">\n</span> for a line break.</p>
+                                                </div>
+                                            )}
+                                            {selectedTaskObj.config.mergeStrategy === 'object' && (
+                                                <p className="text-[10px] text-slate-500">The input is an object with one field per port, e.g. <span className="font-mono text-primary-300">{`{ ${getInputPorts(selectedTaskObj, workflow.tasks).map(p => p.name).join(', ')} }`}</span>.</p>
+                                            )}
+                                            {selectedTaskObj.config.mergeStrategy === 'template' && (
+                                                <div>
+                                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Merge Template</label>
+                                                    <textarea
+                                                        className="w-full h-28 bg-slate-950 border border-slate-800 rounded p-3 text-xs font-mono text-slate-200 focus:border-primary-500 outline-none resize-none"
+                                                        value={selectedTaskObj.config.mergeTemplate || ''}
+                                                        onChange={(e) => handleUpdateConfig(selectedTaskId!, 'mergeTemplate', e.target.value)}
+                                                        placeholder={'Document:\n{{document}}\n\nFollow this style guide:\n{{style}}'}
+                                                        spellCheck={false}
+                                                    />
+                                                    <div className="mt-1 flex flex-wrap gap-1">
+                                                        {getInputPorts(selectedTaskObj, workflow.tasks).map(p => (
+                                                            <span key={p.sourceId} className="px-1.5 py-0.5 bg-slate-800 rounded text-[10px] font-mono text-primary-300">{`{{${p.name}}}`}</span>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -413,6 +715,183 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                 </div>
                             )}
 
+                            {/* CONDITION CONFIG */}
+                            {selectedTaskObj.type === TaskType.CONDITION && (
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Condition</label>
+                                    <input
+                                        className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs font-mono text-yellow-300 focus:border-yellow-500 outline-none"
+                                        value={selectedTaskObj.config.expression || ''}
+                                        onChange={(e) => handleUpdateConfig(selectedTaskId!, 'expression', e.target.value)}
+                                        placeholder="analysis.score < 70"
+                                        spellCheck={false}
+                                    />
+                                    {expressionHelp}
+                                </div>
+                            )}
+
+                            {/* ROUTER CONFIG */}
+                            {selectedTaskObj.type === TaskType.ROUTER && (
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block">Rules</label>
+                                    {(selectedTaskObj.config.routes || []).map((route, idx, routes) => (
+                                        <div key={route.id} className="p-2 bg-slate-950 border border-slate-800 rounded space-y-1.5">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-[9px] text-slate-600 font-mono">{idx + 1}</span>
+                                                <input
+                                                    className="flex-1 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:border-sky-500 outline-none"
+                                                    value={route.label}
+                                                    onChange={(e) => handleUpdateRoutes(selectedTaskId!, routes.map(r => r.id === route.id ? { ...r, label: e.target.value } : r))}
+                                                    placeholder="Label"
+                                                />
+                                                <button onClick={() => handleUpdateRoutes(selectedTaskId!, routes.filter(r => r.id !== route.id))} className="text-slate-600 hover:text-red-400">
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                            <input
+                                                className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-sky-300 focus:border-sky-500 outline-none"
+                                                value={route.expression}
+                                                onChange={(e) => handleUpdateRoutes(selectedTaskId!, routes.map(r => r.id === route.id ? { ...r, expression: e.target.value } : r))}
+                                                placeholder='contains(lower(input), "refund")'
+                                                spellCheck={false}
+                                            />
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() => handleUpdateRoutes(selectedTaskId!, [...(selectedTaskObj.config.routes || []), { id: `route-${Date.now()}`, label: `Route ${(selectedTaskObj.config.routes?.length || 0) + 1}`, expression: '' }])}
+                                        className="w-full py-1.5 border border-dashed border-slate-700 hover:border-sky-500/50 text-slate-400 hover:text-sky-300 rounded text-xs flex items-center justify-center gap-1.5 transition-colors"
+                                    >
+                                        <Plus className="w-3 h-3" /> Add Rule
+                                    </button>
+                                    <p className="text-[10px] text-slate-500">Rules are tried in order; the first that holds picks the branch, otherwise "default".</p>
+                                    {expressionHelp}
+                                </div>
+                            )}
+
+                            {/* LOOP CONFIG */}
+                            {selectedTaskObj.type === TaskType.LOOP && (
+                                <div className="space-y-4">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Repeat Until</label>
+                                        <input
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs font-mono text-violet-300 focus:border-violet-500 outline-none"
+                                            value={selectedTaskObj.config.untilExpression || ''}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'untilExpression', e.target.value)}
+                                            placeholder="analysis.score >= 80"
+                                            spellCheck={false}
+                                        />
+                                        <p className="mt-1 text-[10px] text-slate-500">Checked after each pass, with <span className="font-mono text-violet-400">iteration</span> as the pass number. Leave empty to always run every pass.</p>
+                                        {expressionHelp}
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Max Passes</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_LOOP_ITERATIONS}
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-violet-500 outline-none"
+                                            value={selectedTaskObj.config.maxIterations ?? DEFAULT_LOOP_ITERATIONS}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'maxIterations', Math.min(MAX_LOOP_ITERATIONS, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                                        />
+                                    </div>
+                                    {renderBodyPicker(selectedTaskObj, 'Add the nodes to repeat, such as a Generator and an Analyzer, then tick them here.')}
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Carry Forward</label>
+                                        <select
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-violet-500 outline-none"
+                                            value={selectedTaskObj.config.carryTaskId || ''}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'carryTaskId', e.target.value || undefined)}
+                                        >
+                                            <option value="">-- Keep the loop's input --</option>
+                                            {getContainerBody(selectedTaskObj, workflow.tasks).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                        </select>
+                                        <p className="mt-1 text-[10px] text-slate-500">This node's output becomes the loop value for the next pass, and the loop's final output.</p>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* MAP CONFIG */}
+                            {selectedTaskObj.type === TaskType.MAP && (
+                                <div className="space-y-4">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Items</label>
+                                        <input
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs font-mono text-teal-300 focus:border-teal-500 outline-none"
+                                            value={selectedTaskObj.config.itemsExpression || ''}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'itemsExpression', e.target.value)}
+                                            placeholder="input"
+                                            spellCheck={false}
+                                        />
+                                        <p className="mt-1 text-[10px] text-slate-500">An array, or text holding a JSON array or CSV with a header row. Leave empty to use this node's input.</p>
+                                        {expressionHelp}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Item Variable</label>
+                                            <div className="flex items-center bg-slate-950 border border-slate-800 rounded px-3 py-2 focus-within:border-teal-500">
+                                                <span className="text-slate-500 text-xs mr-1">$</span>
+                                                <input
+                                                    className="w-full bg-transparent text-sm text-slate-200 font-mono outline-none"
+                                                    value={selectedTaskObj.config.itemKey || ''}
+                                                    onChange={(e) => handleUpdateConfig(selectedTaskId!, 'itemKey', e.target.value)}
+                                                    placeholder="item"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Concurrency</label>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={MAX_MAP_CONCURRENCY}
+                                                className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-teal-500 outline-none"
+                                                value={selectedTaskObj.config.concurrency ?? DEFAULT_MAP_CONCURRENCY}
+                                                onChange={(e) => handleUpdateConfig(selectedTaskId!, 'concurrency', Math.min(MAX_MAP_CONCURRENCY, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                                            />
+                                        </div>
+                                    </div>
+                                    {renderBodyPicker(selectedTaskObj, 'Add the nodes to run per item, such as a Generator bound to $item, then tick them here.')}
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Collect</label>
+                                        <select
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-teal-500 outline-none"
+                                            value={selectedTaskObj.config.collectTaskId || ''}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'collectTaskId', e.target.value || undefined)}
+                                        >
+                                            <option value="">-- Last node to run --</option>
+                                            {getContainerBody(selectedTaskObj, workflow.tasks).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                        </select>
+                                        <p className="mt-1 text-[10px] text-slate-500">Each item's result is this node's output. Failed items keep their error and the batch carries on.</p>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* BRANCH ASSIGNMENT */}
+                            {isBranchingTask(selectedTaskObj) && (
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block">Outgoing Branches</label>
+                                    {downstreamTasks.length === 0 ? (
+                                        <p className="text-xs text-slate-500">Connect nodes downstream, then pick the branch each edge follows.</p>
+                                    ) : downstreamTasks.map(target => (
+                                        <div key={target.id} className="flex items-center gap-2">
+                                            <ArrowRight className="w-3 h-3 text-slate-600 flex-shrink-0" />
+                                            <span className="flex-1 text-xs text-slate-300 truncate">{target.name}</span>
+                                            <select
+                                                className="bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:border-primary-500 outline-none"
+                                                value={selectedTaskObj.config.branches?.[target.id] || ''}
+                                                onChange={(e) => {
+                                                    const branches = selectedTaskObj.config.branches || {};
+                                                    handleUpdateConfig(selectedTaskId!, 'branches', e.target.value ? { ...branches, [target.id]: e.target.value } : withoutKey(branches, target.id));
+                                                }}
+                                            >
+                                                <option value="">Always</option>
+                                                {getBranchOptions(selectedTaskObj).map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
                             {/* OUTPUT CONFIG */}
                             {selectedTaskObj.type === TaskType.OUTPUT && (
                                 <div>
@@ -429,6 +908,20 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                 </div>
                             )}
 
+                            {/* REVIEW CONFIG */}
+                            {selectedTaskObj.type === TaskType.HUMAN_REVIEW && (
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Reviewer Instructions</label>
+                                    <textarea
+                                        className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 focus:border-amber-500 outline-none resize-none h-24 leading-relaxed"
+                                        value={selectedTaskObj.config.reviewInstructions || ''}
+                                        onChange={(e) => handleUpdateConfig(selectedTaskId!, 'reviewInstructions', e.target.value)}
+                                        placeholder="What should the reviewer check before approving?"
+                                    />
+                                    <p className="mt-2 text-[10px] text-slate-500">Runs pause here until the output is approved, edited or rejected.</p>
+                                </div>
+                            )}
+
                             {/* INPUT CONFIG */}
                             {selectedTaskObj.type === TaskType.INPUT && (
                                 <div className="space-y-4">
@@ -508,6 +1001,47 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                             <option key={p.id} value={p.id}>{p.title}</option>
                                         ))}
                                     </select>
+                                    {selectedPrompt && selectedPromptVariables.length > 0 && (
+                                        <div className="mt-4 space-y-2">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider block">Variable Bindings</label>
+                                            {selectedPromptVariables.map(variable => {
+                                                const binding = selectedTaskObj.config.variableBindings?.[variable.name];
+                                                const selectValue = !binding ? '' : binding.source === 'literal' ? '__literal__' : binding.key;
+                                                return (
+                                                    <div key={variable.name} className="p-2 bg-slate-950 border border-slate-800 rounded space-y-1.5">
+                                                        <div className="flex justify-between items-center">
+                                                            <span className="text-xs font-mono text-cyan-400">{`{{${variable.name}}}`}</span>
+                                                            <span className="text-[9px] text-slate-600 uppercase">{variable.type}{variable.required ? ' · required' : ''}</span>
+                                                        </div>
+                                                        <select
+                                                            className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:border-primary-500 outline-none"
+                                                            value={selectValue}
+                                                            onChange={(e) => {
+                                                                const v = e.target.value;
+                                                                handleUpdateBinding(selectedTaskId!, variable.name,
+                                                                    v === '' ? undefined :
+                                                                    v === '__literal__' ? { source: 'literal', value: variable.defaultValue || '' } :
+                                                                    { source: 'context', key: v }
+                                                                );
+                                                            }}
+                                                        >
+                                                            <option value="">{variable.defaultValue ? `Default (${variable.defaultValue})` : '-- Unbound --'}</option>
+                                                            <option value="__literal__">Literal value</option>
+                                                            {upstreamKeys.map(key => <option key={key} value={key}>${key}</option>)}
+                                                        </select>
+                                                        {binding?.source === 'literal' && (
+                                                            <input
+                                                                className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-slate-300 focus:border-primary-500 outline-none"
+                                                                value={binding.value}
+                                                                onChange={(e) => handleUpdateBinding(selectedTaskId!, variable.name, { source: 'literal', value: e.target.value })}
+                                                                placeholder="Value"
+                                                            />
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                 </div>
                             )}
 
@@ -521,18 +1055,142 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                         placeholder="// return input.data..."
                                         spellCheck={false}
                                     />
+                                    <div className="mt-2 p-2 bg-slate-900 border border-slate-800 rounded text-[10px] text-slate-500 space-y-1 font-mono">
+                                        <p><span className="text-blue-400">input</span> upstream value, <span className="text-blue-400">context</span> outputs by variable</p>
+                                        <p><span className="text-blue-400">helpers</span>.json(text) · .extract(text, regex) · .split(text, sep) · .template(str, values)</p>
+                                        <p className="text-slate-600">Runs in an isolated worker (no DOM or network), 3s limit.</p>
+                                    </div>
                                 </div>
                             )}
 
                              {selectedTaskObj.type === TaskType.ANALYSIS && (
-                                <div>
-                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Analysis Rules</label>
-                                    <div className="p-3 bg-slate-900 border border-slate-800 rounded text-xs text-slate-400">
-                                        <p>Standard SFL Analysis will be applied to the input text.</p>
+                                <div className="space-y-4">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">SFL Profile</label>
+                                        <select
+                                            className="w-full bg-slate-950 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 focus:border-primary-500 outline-none"
+                                            value={selectedTaskObj.config.promptId || ''}
+                                            onChange={(e) => handleUpdateConfig(selectedTaskId!, 'promptId', e.target.value || undefined)}
+                                        >
+                                            <option value="">-- Inherit from upstream Generator --</option>
+                                            {prompts.map(p => (
+                                                <option key={p.id} value={p.id}>{p.title}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 block">Analysis Rules</label>
+                                        <div className="p-3 bg-slate-900 border border-slate-800 rounded text-xs text-slate-400">
+                                            <p>Standard SFL Analysis will be applied to the input text.</p>
+                                        </div>
                                     </div>
                                 </div>
                             )}
                         </div>
+
+                        {/* Last Run Result */}
+                        {selectedTaskLog && (
+                            <>
+                                <div className="h-px bg-slate-800 my-2"></div>
+                                <div className="space-y-2">
+                                    <h5 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center justify-between">
+                                        <span>
+                                            Last Run
+                                            {selectedTaskLog.iteration && selectedTaskObj.type !== TaskType.LOOP && <span className="ml-1.5 normal-case tracking-normal text-violet-400">pass {selectedTaskLog.iteration}</span>}
+                                        </span>
+                                        <span className={`text-[9px] px-1.5 py-0.5 rounded border ${
+                                            selectedTaskLog.status === 'COMPLETED' ? 'border-emerald-500/30 text-emerald-400' :
+                                            selectedTaskLog.status === 'FAILED' ? 'border-red-500/30 text-red-400' :
+                                            selectedTaskLog.status === 'RUNNING' ? 'border-primary-500/30 text-primary-400' :
+                                            selectedTaskLog.status === 'AWAITING_REVIEW' ? 'border-amber-500/30 text-amber-400' :
+                                            'border-slate-700 text-slate-500'
+                                        }`}>{selectedTaskLog.status}</span>
+                                    </h5>
+                                    {selectedTaskObj.type === TaskType.LOOP && selectedPassCount > 0 && (
+                                        <div className="space-y-1">
+                                            <p className="text-xs text-slate-400">
+                                                {selectedPassCount} pass{selectedPassCount === 1 ? '' : 'es'}
+                                                {selectedTaskLog.loopExit === 'condition' && ' · condition met'}
+                                                {selectedTaskLog.loopExit === 'maxIterations' && ' · stopped at the pass limit'}
+                                            </p>
+                                            {Array.from({ length: selectedPassCount }, (_, i) => i + 1).map(pass => (
+                                                <div key={pass} className="flex items-start gap-2 p-2 bg-slate-950 border border-slate-800 rounded text-[10px]">
+                                                    <span className="font-mono text-violet-400 w-5 flex-shrink-0">#{pass}</span>
+                                                    <div className="flex-1 flex flex-wrap gap-x-3 gap-y-0.5 min-w-0">
+                                                        {selectedPassLogs.filter(l => l.iteration === pass).map(l => (
+                                                            <span key={l.taskId} className="truncate">
+                                                                <span className="text-slate-500">{workflow.tasks.find(t => t.id === l.taskId)?.name}</span>{' '}
+                                                                <span className={`font-mono ${l.status === 'FAILED' ? 'text-red-400' : 'text-slate-300'}`}>{passSummary(l)}</span>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {selectedTaskLog.items && (
+                                        <div className="space-y-1">
+                                            <div className="flex items-center justify-between text-xs text-slate-400">
+                                                <span>{selectedTaskLog.items.completed + selectedTaskLog.items.failed} / {selectedTaskLog.items.total} items</span>
+                                                {selectedTaskLog.items.failed > 0 && <span className="text-red-400">{selectedTaskLog.items.failed} failed</span>}
+                                            </div>
+                                            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden flex">
+                                                <div className="bg-teal-500" style={{ width: `${(selectedTaskLog.items.completed / Math.max(1, selectedTaskLog.items.total)) * 100}%` }} />
+                                                <div className="bg-red-500" style={{ width: `${(selectedTaskLog.items.failed / Math.max(1, selectedTaskLog.items.total)) * 100}%` }} />
+                                            </div>
+                                        </div>
+                                    )}
+                                    {selectedMapFailures.length > 0 && (
+                                        <div className="space-y-1">
+                                            {selectedMapFailures.slice(0, 10).map(r => (
+                                                <div key={r.index} className="p-2 bg-red-900/10 border border-red-900/30 rounded text-[10px] text-red-400 break-words">
+                                                    <span className="font-mono text-red-300">#{r.index + 1}</span>
+                                                    {r.failedTaskId && <span className="text-slate-500"> {workflow.tasks.find(t => t.id === r.failedTaskId)?.name}:</span>} {r.error}
+                                                </div>
+                                            ))}
+                                            {selectedMapFailures.length > 10 && <p className="text-[10px] text-slate-500">and {selectedMapFailures.length - 10} more in the output</p>}
+                                        </div>
+                                    )}
+                                    {selectedTaskLog.branch && (
+                                        <div className="text-xs text-slate-400 flex items-center gap-1.5">
+                                            <GitBranch className="w-3 h-3 text-yellow-400" />
+                                            Took <span className="font-mono text-yellow-300">{getBranchLabel(selectedTaskObj, selectedTaskLog.branch) || selectedTaskLog.branch}</span>
+                                        </div>
+                                    )}
+                                    {selectedTaskLog.review && (
+                                        <div className={`p-2 border rounded text-xs ${selectedTaskLog.review.verdict === 'approved' ? 'bg-emerald-900/10 border-emerald-900/30 text-emerald-400' : 'bg-red-900/10 border-red-900/30 text-red-400'}`}>
+                                            <span className="font-bold capitalize">{selectedTaskLog.review.verdict}</span>
+                                            {selectedTaskLog.review.editedOutput !== undefined && <span> with edits</span>}
+                                            <span className="text-slate-500"> · {new Date(selectedTaskLog.review.decidedAt).toLocaleString()}</span>
+                                            {selectedTaskLog.review.comment && <p className="mt-1 text-slate-300">{selectedTaskLog.review.comment}</p>}
+                                        </div>
+                                    )}
+                                    {selectedTaskLog.error && (
+                                        <div className="p-2 bg-red-900/10 border border-red-900/30 rounded text-xs text-red-400 break-words">
+                                            {selectedTaskLog.errorDetail ? (
+                                                <>
+                                                    <span className="font-bold font-mono">{selectedTaskLog.errorDetail.name}</span>
+                                                    {selectedTaskLog.errorDetail.line && <span className="text-red-500/70 font-mono"> @ line {selectedTaskLog.errorDetail.line}</span>}
+                                                    <p className="mt-1">{selectedTaskLog.errorDetail.message}</p>
+                                                </>
+                                            ) : selectedTaskLog.error}
+                                        </div>
+                                    )}
+                                    {selectedTaskLog.status === 'AWAITING_REVIEW' && onReview && workflow.status === 'AWAITING_REVIEW' ? (
+                                        <ReviewPanel
+                                            key={`${selectedTaskLog.taskId}-${selectedTaskLog.timestamp}`}
+                                            task={selectedTaskObj}
+                                            log={selectedTaskLog}
+                                            onDecide={(review) => onReview(selectedTaskObj.id, review)}
+                                        />
+                                    ) : selectedTaskLog.output !== undefined && (
+                                        <pre className="p-2 bg-slate-950 border border-slate-800 rounded text-[10px] font-mono text-slate-300 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                                            {outputText(selectedTaskLog.output)}
+                                        </pre>
+                                    )}
+                                </div>
+                            </>
+                        )}
                     </div>
 
                     <div className="p-4 border-t border-slate-800 bg-slate-950/50">
@@ -577,6 +1235,41 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                     <span className="text-[10px] text-slate-500">Quality Guard</span>
                                 </div>
                             </button>
+                            <button onClick={() => handleAddTask(TaskType.HUMAN_REVIEW)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-rose-500/50 rounded-lg text-xs text-slate-300 transition-all group">
+                                <div className="p-1.5 bg-rose-500/10 rounded group-hover:bg-rose-500/20 text-rose-400"><User className="w-4 h-4" /></div>
+                                <div className="text-left">
+                                    <span className="block font-bold">Human Review</span>
+                                    <span className="text-[10px] text-slate-500">Approve / Edit</span>
+                                </div>
+                            </button>
+                            <button onClick={() => handleAddTask(TaskType.CONDITION)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-yellow-500/50 rounded-lg text-xs text-slate-300 transition-all group">
+                                <div className="p-1.5 bg-yellow-500/10 rounded group-hover:bg-yellow-500/20 text-yellow-400"><GitBranch className="w-4 h-4" /></div>
+                                <div className="text-left">
+                                    <span className="block font-bold">Condition</span>
+                                    <span className="text-[10px] text-slate-500">If / Else</span>
+                                </div>
+                            </button>
+                            <button onClick={() => handleAddTask(TaskType.ROUTER)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-sky-500/50 rounded-lg text-xs text-slate-300 transition-all group">
+                                <div className="p-1.5 bg-sky-500/10 rounded group-hover:bg-sky-500/20 text-sky-400"><Split className="w-4 h-4" /></div>
+                                <div className="text-left">
+                                    <span className="block font-bold">Router</span>
+                                    <span className="text-[10px] text-slate-500">Labelled Rules</span>
+                                </div>
+                            </button>
+                            <button onClick={() => handleAddTask(TaskType.LOOP)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-violet-500/50 rounded-lg text-xs text-slate-300 transition-all group">
+                                <div className="p-1.5 bg-violet-500/10 rounded group-hover:bg-violet-500/20 text-violet-400"><Repeat className="w-4 h-4" /></div>
+                                <div className="text-left">
+                                    <span className="block font-bold">Loop</span>
+                                    <span className="text-[10px] text-slate-500">Refine Until Good</span>
+                                </div>
+                            </button>
+                            <button onClick={() => handleAddTask(TaskType.MAP)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-teal-500/50 rounded-lg text-xs text-slate-300 transition-all group">
+                                <div className="p-1.5 bg-teal-500/10 rounded group-hover:bg-teal-500/20 text-teal-400"><Layers className="w-4 h-4" /></div>
+                                <div className="text-left">
+                                    <span className="block font-bold">Map</span>
+                                    <span className="text-[10px] text-slate-500">Run Per Item</span>
+                                </div>
+                            </button>
                             <button onClick={() => handleAddTask(TaskType.OUTPUT)} className="flex items-center gap-3 px-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-fuchsia-500/50 rounded-lg text-xs text-slate-300 transition-all group">
                                 <div className="p-1.5 bg-fuchsia-500/10 rounded group-hover:bg-fuchsia-500/20 text-fuchsia-400"><FileOutput className="w-4 h-4" /></div>
                                 <div className="text-left">
@@ -597,13 +1290,37 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                  <p>• Drag from <Circle className="w-2 h-2 inline text-slate-400" /> to connect</p>
                              </div>
                          </div>
-                        <button 
-                            onClick={() => onRun(workflow)}
-                            className="w-full py-3 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-bold rounded-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-emerald-900/20"
-                        >
-                            {workflow.status === 'RUNNING' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4 fill-current" />}
-                            <span>{workflow.status === 'RUNNING' ? 'Running...' : 'Execute Workflow'}</span>
-                        </button>
+                        {workflow.status === 'AWAITING_REVIEW' && (
+                            <div className="p-2 bg-amber-900/10 border border-amber-900/30 rounded text-xs text-amber-400 flex gap-2">
+                                <PauseCircle className="w-4 h-4 flex-shrink-0" />
+                                <span>Run paused for review. Select the highlighted node to decide; executing again discards the paused run.</span>
+                            </div>
+                        )}
+                        {isBlocked && (
+                            <div className="p-2 bg-red-900/10 border border-red-900/30 rounded text-xs text-red-400 flex gap-2">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                <span>{issues.filter(i => i.severity === 'error').length} blocking issue(s). Fix the flagged nodes to run.</span>
+                            </div>
+                        )}
+                        {workflow.status === 'RUNNING' && onCancel ? (
+                            <button 
+                                onClick={onCancel}
+                                className="w-full py-3 bg-slate-800 hover:bg-red-900/40 border border-slate-700 hover:border-red-500/50 text-slate-200 font-bold rounded-lg flex items-center justify-center gap-2 transition-all group"
+                            >
+                                <Loader2 className="w-4 h-4 animate-spin group-hover:hidden" />
+                                <X className="w-4 h-4 hidden group-hover:block text-red-400" />
+                                <span>Running... (Cancel)</span>
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={() => onRun(workflow)}
+                                disabled={workflow.status === 'RUNNING' || workflow.tasks.length === 0 || isBlocked}
+                                className="w-full disabled:opacity-60 disabled:cursor-not-allowed py-3 bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-bold rounded-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-emerald-900/20"
+                            >
+                                {workflow.status === 'RUNNING' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4 fill-current" />}
+                                <span>{workflow.status === 'RUNNING' ? 'Running...' : 'Execute Workflow'}</span>
+                            </button>
+                        )}
                     </div>
                 </div>
             )}
@@ -643,6 +1360,28 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                         </marker>
                     </defs>
                     
+                    {/* Loop and Map Containers */}
+                    {workflow.tasks.filter(isContainerTask).map(container => {
+                        const body = getContainerBody(container, workflow.tasks);
+                        if (body.length === 0) return null;
+                        const left = Math.min(...body.map(t => t.position.x)) - 16;
+                        const top = Math.min(...body.map(t => t.position.y)) - 28;
+                        const right = Math.max(...body.map(t => t.position.x + 192)) + 16;
+                        const bottom = Math.max(...body.map(t => t.position.y + 80)) + 16;
+                        const isMap = container.type === TaskType.MAP;
+                        const color = isMap ? '#14b8a6' : '#8b5cf6';
+                        return (
+                            <g key={`container-${container.id}`}>
+                                <rect x={left} y={top} width={right - left} height={bottom - top} rx={16} fill={color} fillOpacity={0.04} stroke={color} strokeOpacity={0.4} strokeWidth={1.5} strokeDasharray="6,4" />
+                                <text x={left + 12} y={top + 17} fill={isMap ? '#2dd4bf' : '#a78bfa'} className="text-[10px] font-mono font-bold">
+                                    {isMap
+                                        ? `${container.name} · each $${container.config.itemKey?.trim() || 'item'}, ${container.config.concurrency ?? DEFAULT_MAP_CONCURRENCY} at a time`
+                                        : `${container.name} · up to ${container.config.maxIterations ?? DEFAULT_LOOP_ITERATIONS} passes`}
+                                </text>
+                            </g>
+                        );
+                    })}
+
                     {/* Existing Connections */}
                     {workflow.tasks.map(task => {
                         return task.dependencies.map(depId => {
@@ -660,16 +1399,37 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                             const controlDist = Math.abs(endX - startX) * 0.5;
                             const d = `M ${startX} ${startY} C ${startX + controlDist} ${startY}, ${endX - controlDist} ${endY}, ${endX} ${endY}`;
 
+                            // Edges out of branching nodes are labelled, and fade when the last run went another way
+                            const branchKey = isBranchingTask(dep) ? dep.config.branches?.[task.id] : undefined;
+                            const branchLabel = branchKey ? getBranchLabel(dep, branchKey) : undefined;
+                            const takenBranch = getTaskLog(dep.id)?.branch;
+                            const notTaken = !!branchLabel && !!takenBranch && takenBranch !== branchKey;
+
                             return (
-                                <g key={`${dep.id}-${task.id}`}>
+                                <g key={`${dep.id}-${task.id}`} opacity={notTaken ? 0.4 : 1}>
                                     <path 
                                         d={d} 
                                         stroke={task.config.dataSourceId === dep.id ? "#10b981" : "#475569"} 
                                         strokeWidth={task.config.dataSourceId === dep.id ? "2.5" : "2"}
+                                        strokeDasharray={notTaken ? "5,5" : undefined}
                                         fill="none"
                                         markerEnd="url(#arrowhead)"
                                         className="transition-colors duration-300"
                                     />
+                                    {branchLabel && (
+                                        <text
+                                            x={(startX + endX) / 2}
+                                            y={(startY + endY) / 2 - 6}
+                                            textAnchor="middle"
+                                            fill={dep.type === TaskType.CONDITION ? "#facc15" : "#38bdf8"}
+                                            stroke="#020617"
+                                            strokeWidth={3}
+                                            paintOrder="stroke"
+                                            className="text-[10px] font-mono font-bold"
+                                        >
+                                            {branchLabel}
+                                        </text>
+                                    )}
                                 </g>
                             );
                         });
@@ -692,6 +1452,8 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                     const status = getTaskStatus(task.id);
                     const isSelected = selectedTaskId === task.id;
                     const isDragging = draggingTaskId === task.id;
+                    const taskIssues = getTaskIssues(task.id);
+                    const hasError = taskIssues.some(i => i.severity === 'error');
 
                     return (
                         <div 
@@ -699,6 +1461,7 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                             className={`absolute w-48 bg-slate-900 border rounded-xl shadow-xl transition-shadow group
                                 ${isSelected ? 'border-primary-500 ring-2 ring-primary-500/20 z-10' : 'border-slate-700 hover:border-slate-500'}
                                 ${isDragging ? 'cursor-grabbing shadow-2xl' : 'cursor-grab'}
+                                ${status === 'SKIPPED' ? 'opacity-50' : ''}
                             `}
                             style={{ 
                                 left: task.position.x, 
@@ -707,6 +1470,19 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                             }}
                             onMouseDown={(e) => handleNodeMouseDown(e, task.id)}
                         >
+                            {/* Validation Badge */}
+                            {taskIssues.length > 0 && (
+                                <div 
+                                    className={`absolute -top-2.5 -right-2.5 flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[9px] font-bold shadow-lg z-10 ${
+                                        hasError ? 'bg-red-950 border-red-500/50 text-red-400' : 'bg-amber-950 border-amber-500/50 text-amber-400'
+                                    }`}
+                                    title={taskIssues.map(i => i.message).join('\n')}
+                                >
+                                    <AlertTriangle className="w-3 h-3" />
+                                    {taskIssues.length}
+                                </div>
+                            )}
+
                             {/* Input Handle (Left) - Only if not INPUT type */}
                             {task.type !== TaskType.INPUT && (
                                 <div 
@@ -731,16 +1507,28 @@ const WorkflowEngine: React.FC<WorkflowEngineProps> = ({ workflow: initialWorkfl
                                         task.type === TaskType.GENERATION ? 'bg-indigo-950/50 border-indigo-500/30 text-indigo-300' : 
                                         task.type === TaskType.TRANSFORMATION ? 'bg-blue-950/50 border-blue-500/30 text-blue-300' :
                                         task.type === TaskType.OUTPUT ? 'bg-fuchsia-950/50 border-fuchsia-500/30 text-fuchsia-300' :
+                                        task.type === TaskType.HUMAN_REVIEW ? 'bg-rose-950/50 border-rose-500/30 text-rose-300' :
+                                        task.type === TaskType.CONDITION ? 'bg-yellow-950/50 border-yellow-500/30 text-yellow-300' :
+                                        task.type === TaskType.ROUTER ? 'bg-sky-950/50 border-sky-500/30 text-sky-300' :
+                                        task.type === TaskType.LOOP ? 'bg-violet-950/50 border-violet-500/30 text-violet-300' :
+                                        task.type === TaskType.MAP ? 'bg-teal-950/50 border-teal-500/30 text-teal-300' :
                                         'bg-amber-950/50 border-amber-500/30 text-amber-300'
                                     }`}>
                                         {task.type === TaskType.INPUT ? 'INPUT' : 
                                          task.type === TaskType.GENERATION ? 'GEN' : 
                                          task.type === TaskType.TRANSFORMATION ? 'CODE' : 
-                                         task.type === TaskType.OUTPUT ? 'EXPORT' : 'TEST'}
+                                         task.type === TaskType.OUTPUT ? 'EXPORT' :
+                                         task.type === TaskType.HUMAN_REVIEW ? 'REVIEW' :
+                                         task.type === TaskType.CONDITION ? 'IF' :
+                                         task.type === TaskType.ROUTER ? 'ROUTE' :
+                                         task.type === TaskType.LOOP ? 'LOOP' :
+                                         task.type === TaskType.MAP ? 'MAP' : 'TEST'}
                                     </span>
                                     {status === 'RUNNING' && <Loader2 className="w-3.5 h-3.5 animate-spin text-primary-400" />}
                                     {status === 'COMPLETED' && <CheckCircle className="w-3.5 h-3.5 text-emerald-400" />}
                                     {status === 'FAILED' && <AlertCircle className="w-3.5 h-3.5 text-red-400" />}
+                                    {status === 'AWAITING_REVIEW' && <PauseCircle className="w-3.5 h-3.5 text-amber-400 animate-pulse" />}
+                                    {status === 'SKIPPED' && <MinusCircle className="w-3.5 h-3.5 text-slate-500" />}
                                 </div>
                                 
                                 <div className="flex items-center gap-2">
@@ -3,6 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { z } from 'zod';
+import { TaskType } from './types';
+
+// With strictNullChecks off, z.infer marks every property optional, including the ones a schema requires.
+// Parsed data has passed validation, so the required fields are present; this restores that in the type.
+export type Validated<T> = T extends (infer U)[] ? Validated<U>[] : T extends object ? { [K in keyof T]-?: Validated<T[K]> } : T;
 
 export const SFLFieldSchema = z.object({
   domain: z.string().min(3, "Domain must be at least 3 characters").max(50, "Domain too long"),
@@ -21,3 +26,146 @@ export const SFLModeSchema = z.object({
   medium: z.string().min(2, "Medium required (e.g., Email, Code)"),
   rhetoricalMode: z.enum(['Didactic', 'Persuasive', 'Descriptive', 'Narrative'])
 });
+
+// --- Model Output ---
+
+export const SFLAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  suggestions: z.array(z.string()),
+  sflAlignment: z.object({
+    field: z.number().min(0).max(10),
+    tenor: z.number().min(0).max(10),
+    mode: z.number().min(0).max(10)
+  })
+});
+
+// --- Import / Export Bundles ---
+// Bundles check the structure the app relies on and pass any other fields through untouched.
+// SFL text fields are plain strings here (drafts and older prompts needn't satisfy the editor's length rules),
+// but the fields picked from a list must hold one of the editor's options.
+
+export const BUNDLE_FORMAT = 'sfl-studio-bundle';
+export const BUNDLE_VERSION = 3;
+
+const BundleSFLSchema = z.object({
+  field: z.object({ domain: z.string(), process: z.string() }).passthrough(),
+  tenor: z.object({
+    senderRole: z.string(),
+    receiverRole: z.string(),
+    powerStatus: SFLTenorSchema.shape.powerStatus,
+    affect: SFLTenorSchema.shape.affect
+  }).passthrough(),
+  mode: z.object({ channel: SFLModeSchema.shape.channel, medium: z.string(), rhetoricalMode: SFLModeSchema.shape.rhetoricalMode }).passthrough()
+});
+
+const BundlePromptVersionSchema = z.object({
+  version: z.number().int().positive(),
+  content: z.string(),
+  sfl: BundleSFLSchema,
+  timestamp: z.number()
+}).passthrough();
+
+export const BundlePromptSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  tags: z.array(z.string()).default([]),
+  sfl: BundleSFLSchema,
+  content: z.string(),
+  version: z.number().int().positive(),
+  history: z.array(BundlePromptVersionSchema).default([]),
+  updatedAt: z.number()
+}).passthrough();
+
+const BundleVariableBindingSchema = z.discriminatedUnion('source', [
+  z.object({ source: z.literal('context'), key: z.string() }),
+  z.object({ source: z.literal('literal'), value: z.string() })
+]);
+
+// Every config field is optional, but those present must have the type the executor expects
+const BundleTaskConfigSchema = z.object({
+  promptId: z.string().optional(),
+  variableBindings: z.record(BundleVariableBindingSchema).optional(),
+  code: z.string().optional(),
+  targetKey: z.string().optional(),
+  dataSourceId: z.string().optional(),
+  mergeStrategy: z.enum(['single', 'concat', 'object', 'template']).optional(),
+  inputPorts: z.record(z.string()).optional(),
+  mergeSeparator: z.string().optional(),
+  mergeTemplate: z.string().optional(),
+  inputType: z.enum(['text', 'file', 'audio', 'video']).optional(),
+  inputValue: z.string().optional(),
+  fileName: z.string().optional(),
+  fileType: z.string().optional(),
+  blobId: z.string().optional(),
+  useGrounding: z.boolean().optional(),
+  outputFormat: z.enum(['markdown', 'json', 'text']).optional(),
+  reviewInstructions: z.string().optional(),
+  expression: z.string().optional(),
+  routes: z.array(z.object({ id: z.string(), label: z.string(), expression: z.string() })).optional(),
+  branches: z.record(z.string()).optional(),
+  bodyTaskIds: z.array(z.string()).optional(),
+  untilExpression: z.string().optional(),
+  maxIterations: z.number().optional(),
+  carryTaskId: z.string().optional(),
+  itemsExpression: z.string().optional(),
+  itemKey: z.string().optional(),
+  concurrency: z.number().optional(),
+  collectTaskId: z.string().optional()
+}).passthrough();
+
+// Run state (status, lastRun, logs) is accepted but dropped on import; it only means something where the run happened
+export const BundleWorkflowSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  tasks: z.array(z.object({
+    id: z.string().min(1),
+    type: z.nativeEnum(TaskType),
+    name: z.string(),
+    config: BundleTaskConfigSchema,
+    position: z.object({ x: z.number(), y: z.number() }),
+    dependencies: z.array(z.string())
+  }).passthrough()),
+  status: z.enum(['IDLE', 'RUNNING', 'AWAITING_REVIEW', 'COMPLETED', 'FAILED']).default('IDLE'),
+  logs: z.array(z.any()).default([]),
+  updatedAt: z.number().optional()
+}).passthrough();
+
+export const BundleCollectionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  promptIds: z.array(z.string()),
+  workflowIds: z.array(z.string()),
+  createdAt: z.number(),
+  updatedAt: z.number()
+});
+
+const ModelTargetSchema = z.object({ provider: z.string(), model: z.string() });
+
+const ModelPricingSchema = z.object({ inputPerMillion: z.number().min(0), outputPerMillion: z.number().min(0) });
+
+export const BundleSettingsSchema = z.object({
+  apiKeys: z.record(z.string().optional()).optional(), // Present only when secrets were explicitly exported
+  baseUrls: z.record(z.string().optional()).optional(),
+  useSearchGrounding: z.boolean().optional(),
+  live: z.object({ voice: z.string(), model: z.string(), quality: z.enum(['low', 'standard', 'high']) }).optional(),
+  generation: z.object({ provider: z.string(), model: z.string(), fallbacks: z.array(ModelTargetSchema).default([]) }).optional(),
+  analysis: z.object({ provider: z.string(), model: z.string(), fallbacks: z.array(ModelTargetSchema).default([]) }).optional(),
+  network: z.object({ maxRetries: z.number().int().min(0), timeoutsMs: z.record(z.number().positive().optional()) }).optional(),
+  budget: z.object({ dailyUsd: z.number().positive().optional(), monthlyUsd: z.number().positive().optional(), alertAt: z.number().gt(0).max(1) }).optional(),
+  pricing: z.record(ModelPricingSchema.optional()).optional()
+});
+
+export const BundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION), // Older files are upgraded step by step before validation (see parseBundle)
+  exportedAt: z.number(),
+  prompts: z.array(BundlePromptSchema).default([]),
+  workflows: z.array(BundleWorkflowSchema).default([]),
+  collections: z.array(BundleCollectionSchema).default([]),
+  settings: BundleSettingsSchema.optional()
+});
+
+// A bundle file as read back in: what BundleSchema accepts
+export type Bundle = Validated<z.infer<typeof BundleSchema>>;
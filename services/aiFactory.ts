@@ -2,79 +2,158 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-import { AIProvider, UserSettings } from "../types";
+import { ProviderId, TokenUsage, ModelTarget, UserSettings, UsageScope } from "../types";
 import { db } from "./storage";
+import { getVaultStatus, redactError } from "./vault";
+import { VaultLockedError, ProviderContentFilterError } from "./errors";
+import { recordUsage } from "./usage";
+import {
+    getProvider, resolveConnection, runWithPolicy, DEFAULT_TIMEOUT_MS,
+    ProviderAdapter, ProviderRequest, ProviderResponse, RequestPolicy
+} from "./providers";
 
 // --- Adapter Interfaces ---
 
-interface GenerationRequest {
-  systemInstruction: string;
-  prompt: string;
-  model: string;
-  settings: UserSettings;
+export interface GenerationOptions {
+    jsonMode?: boolean;
+    responseSchema?: Record<string, unknown>; // JSON Schema for the response; only sent along with jsonMode
+    signal?: AbortSignal;
+    scope?: UsageScope; // Attributes the call's token usage and cost
 }
 
-// --- Providers ---
-
-const generateGoogle = async ({ systemInstruction, prompt, model, settings }: GenerationRequest) => {
-    const ai = new GoogleGenAI({ apiKey: settings.apiKeys.google || process.env.API_KEY });
-    const response = await ai.models.generateContent({
+const buildRequest = (provider: ProviderId, model: string, systemInstruction: string, prompt: string, options: GenerationOptions = {}) => {
+    const adapter = getProvider(provider);
+    const connection = resolveConnection(adapter, db.settings.get());
+    const { apiKey } = adapter.credentials;
+    if (apiKey && !apiKey.optional && !connection.apiKey && getVaultStatus() === 'locked') throw new VaultLockedError(adapter.displayName);
+    const request: ProviderRequest = {
+        ...connection,
+        systemInstruction,
+        prompt,
         model,
-        contents: prompt,
-        config: { systemInstruction }
-    });
-    return response.text || "";
+        jsonMode: options.jsonMode && adapter.capabilities.jsonMode,
+        responseSchema: options.jsonMode && adapter.capabilities.jsonMode ? options.responseSchema : undefined
+    };
+    return { adapter, request };
+};
+
+const policyFor = (adapter: ProviderAdapter): RequestPolicy => {
+    const { network } = db.settings.get();
+    return { timeoutMs: network.timeoutsMs[adapter.id] || adapter.timeoutMs || DEFAULT_TIMEOUT_MS, maxRetries: network.maxRetries };
 };
 
-const generateOpenAICompatible = async (baseUrl: string, apiKey: string, { systemInstruction, prompt, model }: GenerationRequest) => {
+// Rough 4-characters-per-token heuristic for providers that don't report usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateUsage = (input: string, output: string): TokenUsage => ({
+    inputTokens: estimateTokens(input),
+    outputTokens: estimateTokens(output),
+    estimated: true
+});
+
+// --- Factory ---
+
+// Like generateTextStandard, but always includes token usage (estimated when the provider omits it)
+export const generateWithUsage = async (provider: ProviderId, model: string, systemInstruction: string, prompt: string, options: GenerationOptions = {}): Promise<ProviderResponse & { usage: TokenUsage }> => {
+    const { adapter, request } = buildRequest(provider, model, systemInstruction, prompt, options);
     try {
-        const response = await fetch(`${baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                model: model,
-                messages: [
-                    { role: 'system', content: systemInstruction },
-                    { role: 'user', content: prompt }
-                ],
-                temperature: 0.7
-            })
-        });
-        const data = await response.json();
-        return data.choices?.[0]?.message?.content || "";
+        const response = await runWithPolicy(adapter.id, policyFor(adapter), signal => adapter.generate(request, signal), options.signal);
+        const usage = response.usage || estimateUsage(systemInstruction + prompt, response.text);
+        recordUsage({ provider, model }, usage, options.scope);
+        return { text: response.text, usage };
     } catch (e) {
-        console.error("Provider Error", e);
-        throw new Error("Failed to generate content from provider.");
+        console.error("Provider Error", redactError(e));
+        throw e;
     }
 };
 
-const generateOllama = async ({ systemInstruction, prompt, model, settings }: GenerationRequest) => {
-    const baseUrl = settings.ollamaBaseUrl || 'http://localhost:11434/v1';
-    // Ollama supports OpenAI compatible endpoint at /v1
-    return generateOpenAICompatible(baseUrl, 'ollama', { systemInstruction, prompt, model, settings });
+export const generateTextStandard = async (provider: ProviderId, model: string, systemInstruction: string, prompt: string, options?: GenerationOptions) => {
+    const { text } = await generateWithUsage(provider, model, systemInstruction, prompt, options);
+    return text;
 };
 
-// --- Factory ---
+// Yields text chunks as they arrive. Aborting the signal stops the underlying request.
+// Retries and the timeout cover the wait for the first chunk; after that the stream runs until it ends or is aborted.
+export const streamTextStandard = async function* (provider: ProviderId, model: string, systemInstruction: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const { adapter, request } = buildRequest(provider, model, systemInstruction, prompt, options);
+
+    // Adapters without streaming still work; the full response arrives as one chunk
+    const open = (attemptSignal: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> => adapter.capabilities.streaming
+        ? adapter.stream(request, attemptSignal)
+        : (async function* () {
+            const response = await adapter.generate(request, attemptSignal);
+            yield response.text;
+            return response.usage;
+        })();
+
+    let output = '';
+    let reported: TokenUsage | undefined;
+    let iterator: AsyncGenerator<string, TokenUsage | undefined> | undefined;
+    let finished = false;
+    try {
+        const opened = await runWithPolicy(adapter.id, policyFor(adapter), async attemptSignal => {
+            const attempt = open(attemptSignal);
+            return { attempt, first: await attempt.next() };
+        }, options.signal);
+        iterator = opened.attempt;
+        // IteratorResult doesn't narrow on `done` in this tsconfig, hence the casts
+        for (let next = opened.first; ; next = await iterator.next()) {
+            if (next.done) {
+                finished = true;
+                reported = next.value as TokenUsage | undefined;
+                break;
+            }
+            output += next.value as string;
+            yield next.value as string;
+        }
+    } catch (e) {
+        throw redactError(e);
+    } finally {
+        // Partial streams are billed too, so anything that produced output is recorded
+        if (reported || output) recordUsage({ provider, model }, reported || estimateUsage(systemInstruction + prompt, output), options.scope);
+        // A consumer that stops early (break, return) leaves the adapter mid-stream; closing it releases the
+        // provider's reader and request instead of letting them run until the server finishes
+        if (iterator && !finished) await iterator.return?.(undefined);
+    }
+};
+
+// --- Fallback Chains ---
+
+// The configured model followed by its fallbacks, e.g. Gemini -> OpenRouter -> local Ollama
+export const fallbackChain = ({ provider, model, fallbacks }: UserSettings['generation']): ModelTarget[] => [{ provider, model }, ...(fallbacks || [])];
+
+// Content-filter refusals and caller aborts end the chain; any other failure moves on to the next model
+const canFallBack = (error: unknown, signal?: AbortSignal) => !signal?.aborted && !(error instanceof ProviderContentFilterError);
 
-export const generateTextStandard = async (provider: AIProvider, model: string, systemInstruction: string, prompt: string) => {
-    const settings = db.settings.get();
-    
-    const request: GenerationRequest = { systemInstruction, prompt, model, settings };
-
-    switch (provider) {
-        case AIProvider.GOOGLE:
-            return generateGoogle(request);
-        case AIProvider.OPENROUTER:
-            return generateOpenAICompatible('https://openrouter.ai/api/v1', settings.apiKeys.openrouter || '', request);
-        case AIProvider.MISTRAL:
-            return generateOpenAICompatible('https://api.mistral.ai/v1', settings.apiKeys.mistral || '', request);
-        case AIProvider.OLLAMA:
-            return generateOllama(request);
-        default:
-            throw new Error(`Provider ${provider} not supported`);
+const warnFallback = (from: ModelTarget, to: ModelTarget, error: unknown) =>
+    console.warn(`${from.provider}/${from.model} failed, falling back to ${to.provider}/${to.model}`, redactError(error));
+
+export const withFallback = async <T>(targets: ModelTarget[], run: (target: ModelTarget) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let i = 0; ; i++) {
+        try {
+            return await run(targets[i]);
+        } catch (e) {
+            const next = targets[i + 1];
+            if (!next || !canFallBack(e, signal)) throw e;
+            warnFallback(targets[i], next, e);
+        }
     }
-};
\ No newline at end of file
+};
+
+// Falls back only until the first chunk arrives; a stream that fails partway through isn't restarted elsewhere
+export const streamWithFallback = async function* (targets: ModelTarget[], systemInstruction: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<string> {
+    for (let i = 0; ; i++) {
+        let started = false;
+        try {
+            for await (const chunk of streamTextStandard(targets[i].provider, targets[i].model, systemInstruction, prompt, options)) {
+                started = true;
+                yield chunk;
+            }
+            return;
+        } catch (e) {
+            const next = targets[i + 1];
+            if (started || !next || !canFallBack(e, options.signal)) throw e;
+            warnFallback(targets[i], next, e);
+        }
+    }
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt, ModelTarget, Evaluation, EvaluationResult } from "../types";
+import { db } from "./storage";
+import { generateWithUsage } from "./aiFactory";
+import { analyzePromptWithSFL } from "./orchestrator";
+import { renderTemplate } from "./templating";
+
+export interface ArenaOptions {
+    input?: string; // User message sent alongside the prompt; defaults to "Begin."
+    score?: boolean; // Score each output against the prompt's SFL profile
+    onResult?: (index: number, result: EvaluationResult) => void;
+}
+
+// --- Runner ---
+
+const runTarget = async (target: ModelTarget, systemInstruction: string, input: string, prompt: Prompt, score: boolean): Promise<EvaluationResult> => {
+    const startedAt = performance.now();
+    let result: EvaluationResult;
+    try {
+        const { text, usage } = await generateWithUsage(target.provider, target.model, systemInstruction, input, { scope: { source: 'arena', promptId: prompt.id } });
+        result = { ...target, output: text, usage, latencyMs: Math.round(performance.now() - startedAt) };
+    } catch (e: any) {
+        return { ...target, output: '', latencyMs: Math.round(performance.now() - startedAt), error: e?.message || 'Generation failed.' };
+    }
+
+    if (score && result.output) {
+        try {
+            result.analysis = await analyzePromptWithSFL(result.output, prompt.sfl, { source: 'arena', promptId: prompt.id });
+        } catch (e: any) {
+            result.error = `Scoring failed: ${e?.message || 'unknown error'}`;
+        }
+    }
+    return result;
+};
+
+// Runs the prompt against every target in parallel. One failing model never fails the whole run;
+// its column just carries the error. The evaluation is persisted against the prompt.
+export const runArena = async (prompt: Prompt, targets: ModelTarget[], options: ArenaOptions = {}): Promise<Evaluation> => {
+    // Variables fall back to their defaults; missing required ones throw before any model is called
+    const systemInstruction = renderTemplate(prompt.content, prompt.variables);
+    const input = options.input?.trim() || "Begin.";
+
+    const results = await Promise.all(targets.map(async (target, index) => {
+        const result = await runTarget(target, systemInstruction, input, prompt, !!options.score);
+        options.onResult?.(index, result);
+        return result;
+    }));
+
+    const evaluation: Evaluation = {
+        id: `eval-${Date.now()}`,
+        promptId: prompt.id,
+        promptVersion: prompt.version,
+        promptContent: prompt.content,
+        input,
+        scored: !!options.score,
+        createdAt: Date.now(),
+        results
+    };
+    await db.evaluations.save(evaluation);
+    return evaluation;
+};
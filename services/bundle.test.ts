@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect, vi } from "vitest";
+import { BUNDLE_FORMAT, BUNDLE_VERSION } from "../schemas";
+import { BundleValidationError } from "./errors";
+import { parseBundle, previewImport, applyImport } from "./bundle";
+
+const { importRecords } = vi.hoisted(() => ({ importRecords: vi.fn(async (_records: unknown) => {}) }));
+
+vi.mock("./storage", () => ({
+    db: {
+        prompts: { getAll: async () => [] },
+        workflows: { getAll: async () => [] },
+        collections: { getAll: async () => [] },
+        system: { importRecords }
+    }
+}));
+
+vi.mock("./vault", () => ({ getApiKeys: () => ({}), setApiKeys: async () => {}, getVaultStatus: () => 'unlocked' }));
+
+// --- Fixtures ---
+
+const sfl = {
+    field: { domain: 'Software', process: 'Explaining' },
+    tenor: { senderRole: 'Engineer', receiverRole: 'Manager', powerStatus: 'Equal', affect: 'Neutral' },
+    mode: { channel: 'Written', medium: 'Email', rhetoricalMode: 'Didactic' }
+};
+
+const prompt = { id: 'p1', title: 'Prompt', tags: ['a'], sfl, content: 'Hi', version: 1, history: [], updatedAt: 1, lastAnalysis: { score: 80 } };
+
+const workflow = {
+    id: 'w1',
+    name: 'Flow',
+    tasks: [{ id: 't1', type: 'INPUT', name: 'Input', config: { inputValue: 'x' }, position: { x: 0, y: 0 }, dependencies: [] }],
+    status: 'AWAITING_REVIEW',
+    lastRun: 123,
+    logs: [{ taskId: 't1', status: 'COMPLETED', timestamp: 123 }],
+    updatedAt: 1
+};
+
+const bundle = (overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: 5, prompts: [prompt], workflows: [workflow], collections: [], ...overrides });
+
+const parseError = (text: string) => {
+    try {
+        parseBundle(text);
+    } catch (e) {
+        return e as BundleValidationError;
+    }
+    throw new Error("Expected the bundle to be rejected.");
+};
+
+// --- Parsing ---
+
+describe("parseBundle", () => {
+    it("reads a current bundle and keeps fields it doesn't check", () => {
+        const parsed = parseBundle(bundle());
+        expect(parsed.prompts[0]).toMatchObject({ id: 'p1', lastAnalysis: { score: 80 } });
+        expect(parsed.workflows[0].tasks[0].config.inputValue).toBe('x');
+    });
+
+    it("upgrades a legacy backup", () => {
+        const parsed = parseBundle(JSON.stringify({ version: '2.0', timestamp: 42, prompts: [prompt], workflows: [] }));
+        expect(parsed).toMatchObject({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: 42, collections: [] });
+        expect(parsed.prompts).toHaveLength(1);
+    });
+
+    it("upgrades a version 2 bundle", () => {
+        const parsed = parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: 2, exportedAt: 5, prompts: [], workflows: [] }));
+        expect(parsed.version).toBe(BUNDLE_VERSION);
+        expect(parsed.collections).toEqual([]);
+    });
+
+    it("explains that a newer bundle needs a newer app", () => {
+        expect(parseError(bundle({ version: BUNDLE_VERSION + 1 })).message).toMatch(/newer version of SFL Studio/);
+    });
+
+    it("rejects files that aren't bundles", () => {
+        expect(parseError('not json').message).toBe("File is not valid JSON.");
+        expect(parseError(JSON.stringify({ format: 'other', version: 1 })).message).toBe("File is not an SFL Studio bundle.");
+        expect(parseError(bundle({ version: 'three' })).message).toMatch(/Unrecognised bundle version/);
+    });
+
+    it("lists each validation issue with its path", () => {
+        const broken = { ...prompt, sfl: { ...sfl, tenor: { ...sfl.tenor, powerStatus: 'Sideways' } } };
+        const error = parseError(bundle({ prompts: [broken] }));
+        expect(error).toBeInstanceOf(BundleValidationError);
+        expect(error.issues).toHaveLength(1);
+        expect(error.issues[0]).toMatch(/^prompts\.0\.sfl\.tenor\.powerStatus: /);
+    });
+});
+
+// --- Import ---
+
+describe("applyImport", () => {
+    it("drops run state from imported workflows", async () => {
+        const parsed = parseBundle(bundle());
+        await applyImport(parsed, await previewImport(parsed), { strategy: 'skip' });
+        expect(importRecords).toHaveBeenCalledWith(expect.objectContaining({
+            workflows: [expect.objectContaining({ id: 'w1', status: 'IDLE', lastRun: undefined, logs: [] })]
+        }));
+    });
+});
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt, Workflow, Collection, UserSettings, ApiKeys } from "../types";
+import { Bundle, BundleSchema, BUNDLE_FORMAT, BUNDLE_VERSION } from "../schemas";
+import { BundleValidationError, VaultError } from "./errors";
+import { db } from "./storage";
+import { getApiKeys, setApiKeys, getVaultStatus } from "./vault";
+
+export type BundleItemKind = 'prompt' | 'workflow' | 'collection';
+export type ImportStatus = 'new' | 'update' | 'conflict' | 'unchanged';
+export type MergeStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface ExportOptions {
+    promptIds?: string[]; // Omit to export everything
+    workflowIds?: string[];
+    includeSettings?: boolean;
+    includeSecrets?: boolean; // API keys only leave the browser when explicitly requested, and need an unlocked vault
+}
+
+export interface ImportPreviewItem {
+    kind: BundleItemKind;
+    id: string;
+    name: string;
+    status: ImportStatus; // 'update': the bundle copy is newer; 'conflict': the local copy is newer or the same age but different
+}
+
+export interface ImportPreview {
+    items: ImportPreviewItem[];
+    hasSettings: boolean;
+    hasSecrets: boolean;
+}
+
+export interface ImportOptions {
+    strategy: MergeStrategy; // Applies to every update and conflict without an override
+    overrides?: Record<string, MergeStrategy>; // Keyed by itemKey()
+    importSettings?: boolean;
+    importSecrets?: boolean; // Needs an unlocked vault
+}
+
+export interface ImportSummary {
+    added: number;
+    updated: number;
+    duplicated: number;
+    skipped: number;
+}
+
+// What createBundle writes: records exactly as stored. Files are read back through BundleSchema (see Bundle).
+export interface BundleFile {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: number;
+    prompts: Prompt[];
+    workflows: Workflow[];
+    collections: Collection[];
+    settings?: Partial<UserSettings> & { apiKeys?: ApiKeys }; // apiKeys only when secrets were opted in
+}
+
+export const itemKey = (kind: BundleItemKind, id: string) => `${kind}:${id}`;
+
+// --- Export ---
+
+const pick = <T extends { id: string }>(items: T[], ids?: string[]) => ids ? items.filter(item => ids.includes(item.id)) : items;
+
+export const createBundle = async (options: ExportOptions = {}): Promise<BundleFile> => {
+    const prompts = pick(await db.prompts.getAll(), options.promptIds);
+    const workflows = pick(await db.workflows.getAll(), options.workflowIds);
+    const promptIds = new Set(prompts.map(p => p.id));
+    const workflowIds = new Set(workflows.map(w => w.id));
+
+    // Collections travel with whichever of their members were exported
+    const collections = (await db.collections.getAll())
+        .map(c => ({ ...c, promptIds: c.promptIds.filter(id => promptIds.has(id)), workflowIds: c.workflowIds.filter(id => workflowIds.has(id)) }))
+        .filter(c => c.promptIds.length > 0 || c.workflowIds.length > 0);
+
+    let settings: BundleFile['settings'];
+    if (options.includeSettings) {
+        // Throws while the vault is locked rather than silently exporting without keys
+        settings = options.includeSecrets ? { ...db.settings.get(), apiKeys: getApiKeys() } : db.settings.get();
+    }
+
+    return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: Date.now(), prompts, workflows, collections, settings };
+};
+
+export const downloadBundle = (bundle: BundleFile) => {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sfl-studio-bundle-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Parsing ---
+
+// Each step takes a bundle of the version it's keyed by to the next version, so any older file is upgraded
+// one version at a time until it reaches BUNDLE_VERSION
+const BUNDLE_UPGRADES: Record<number, (data: any) => any> = {
+    // 1: backups written before bundles had a format: { prompts, workflows, settings, timestamp, version: '2.0' }
+    1: data => ({
+        format: BUNDLE_FORMAT,
+        version: 2,
+        exportedAt: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
+        prompts: data.prompts,
+        workflows: data.workflows,
+        settings: data.settings
+    }),
+    // 2: collections didn't exist yet
+    2: data => ({ ...data, version: 3, collections: data.collections ?? [] })
+};
+
+const upgradeBundle = (data: any) => {
+    while (data.version < BUNDLE_VERSION) data = BUNDLE_UPGRADES[data.version](data);
+    return data;
+};
+
+export const parseBundle = (text: string): Bundle => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BundleValidationError("File is not valid JSON.");
+    }
+    if (!data || typeof data !== 'object') throw new BundleValidationError("File is not an SFL Studio bundle.");
+    if (data.format === undefined && data.version === '2.0') data = { ...data, format: BUNDLE_FORMAT, version: 1 };
+    if (data.format !== BUNDLE_FORMAT) throw new BundleValidationError("File is not an SFL Studio bundle.");
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        throw new BundleValidationError(`Unrecognised bundle version: ${JSON.stringify(data.version)}.`);
+    }
+    if (data.version > BUNDLE_VERSION) {
+        throw new BundleValidationError(`This bundle was exported by a newer version of SFL Studio (bundle version ${data.version}; this app reads up to ${BUNDLE_VERSION}). Update the app to import it.`);
+    }
+    data = upgradeBundle(data);
+
+    const result = BundleSchema.safeParse(data);
+    if (result.success === false) {
+        throw new BundleValidationError(
+            "Bundle failed validation.",
+            result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        );
+    }
+    // Only the optionality differs: see Validated in schemas.ts
+    return result.data as Bundle;
+};
+
+// --- Records ---
+
+// Run state stays with the browser that ran it: a paused run can only be resumed where its record lives
+const toWorkflow = (w: Bundle['workflows'][number]): Workflow => ({ ...w, status: 'IDLE', lastRun: undefined, logs: [] });
+
+// --- Preview ---
+
+const promptFingerprint = (p: Pick<Prompt, 'title' | 'content' | 'sfl' | 'tags' | 'version'>) =>
+    JSON.stringify([p.title, p.content, p.sfl, p.tags, p.version]);
+const workflowFingerprint = (w: Pick<Workflow, 'name' | 'tasks'>) => JSON.stringify([w.name, w.tasks]);
+const collectionFingerprint = (c: Pick<Collection, 'name' | 'promptIds' | 'workflowIds'>) => JSON.stringify([c.name, c.promptIds, c.workflowIds]);
+
+const classify = (same: boolean, localUpdatedAt = 0, incomingUpdatedAt = 0): ImportStatus =>
+    same ? 'unchanged' : incomingUpdatedAt > localUpdatedAt ? 'update' : 'conflict';
+
+export const previewImport = async (bundle: Bundle): Promise<ImportPreview> => {
+    const localPrompts = new Map((await db.prompts.getAll()).map(p => [p.id, p]));
+    const localWorkflows = new Map((await db.workflows.getAll()).map(w => [w.id, w]));
+    const localCollections = new Map((await db.collections.getAll()).map(c => [c.id, c]));
+
+    const items: ImportPreviewItem[] = [
+        ...bundle.prompts.map(p => {
+            const local = localPrompts.get(p.id);
+            const status = local ? classify(promptFingerprint(local) === promptFingerprint(p), local.updatedAt, p.updatedAt) : 'new';
+            return { kind: 'prompt' as const, id: p.id, name: p.title, status };
+        }),
+        ...bundle.workflows.map(toWorkflow).map(w => {
+            const local = localWorkflows.get(w.id);
+            const status = local ? classify(workflowFingerprint(local) === workflowFingerprint(w), local.updatedAt, w.updatedAt) : 'new';
+            return { kind: 'workflow' as const, id: w.id, name: w.name, status };
+        }),
+        ...bundle.collections.map(c => {
+            const local = localCollections.get(c.id);
+            const status = local ? classify(collectionFingerprint(local) === collectionFingerprint(c), local.updatedAt, c.updatedAt) : 'new';
+            return { kind: 'collection' as const, id: c.id, name: c.name, status };
+        })
+    ];
+
+    const apiKeys = bundle.settings?.apiKeys || {};
+    return { items, hasSettings: !!bundle.settings, hasSecrets: Object.values(apiKeys).some(Boolean) };
+};
+
+// --- Apply ---
+
+const copyId = (id: string) => `${id}-copy-${Date.now().toString(36)}`;
+
+const mergeSettings = (current: UserSettings, incoming: BundleFile['settings']): UserSettings => {
+    const { apiKeys, baseUrls, pricing, ...rest } = incoming;
+    return { ...current, ...rest, baseUrls: { ...current.baseUrls, ...baseUrls }, pricing: { ...current.pricing, ...pricing } };
+};
+
+// Writes the bundle according to the preview's statuses. Kept copies get fresh ids, and references to them
+// from workflows and collections in the same bundle are rewritten to match.
+export const applyImport = async (bundle: Bundle, preview: ImportPreview, options: ImportOptions): Promise<ImportSummary> => {
+    const summary: ImportSummary = { added: 0, updated: 0, duplicated: 0, skipped: 0 };
+    const statusOf = new Map(preview.items.map(item => [itemKey(item.kind, item.id), item.status]));
+    const promptIdMap = new Map<string, string>();
+    const workflowIdMap = new Map<string, string>();
+
+    // Resolves one item to the id it should be written under, or null to leave it out
+    const resolve = (kind: BundleItemKind, id: string, idMap?: Map<string, string>): string | null => {
+        const key = itemKey(kind, id);
+        const status = statusOf.get(key) || 'new';
+        if (status === 'new') { summary.added++; return id; }
+        if (status === 'unchanged') { summary.skipped++; return null; }
+        const strategy = options.overrides?.[key] || options.strategy;
+        if (strategy === 'skip') { summary.skipped++; return null; }
+        if (strategy === 'overwrite') { summary.updated++; return id; }
+        const newId = copyId(id);
+        idMap?.set(id, newId);
+        summary.duplicated++;
+        return newId;
+    };
+
+    const prompts: Prompt[] = [];
+    bundle.prompts.forEach(p => {
+        const id = resolve('prompt', p.id, promptIdMap);
+        if (id) prompts.push({ ...p, id, title: id === p.id ? p.title : `${p.title} (copy)` });
+    });
+
+    const workflows: Workflow[] = [];
+    bundle.workflows.map(toWorkflow).forEach(w => {
+        const id = resolve('workflow', w.id, workflowIdMap);
+        if (!id) return;
+        const tasks = w.tasks.map(t => t.config.promptId && promptIdMap.has(t.config.promptId)
+            ? { ...t, config: { ...t.config, promptId: promptIdMap.get(t.config.promptId) } }
+            : t);
+        workflows.push({ ...w, id, name: id === w.id ? w.name : `${w.name} (copy)`, tasks });
+    });
+
+    const collections: Collection[] = [];
+    bundle.collections.forEach(c => {
+        const id = resolve('collection', c.id);
+        if (!id) return;
+        collections.push({
+            ...c,
+            id,
+            name: id === c.id ? c.name : `${c.name} (copy)`,
+            promptIds: c.promptIds.map(pid => promptIdMap.get(pid) || pid),
+            workflowIds: c.workflowIds.map(wid => workflowIdMap.get(wid) || wid)
+        });
+    });
+
+    // Keys can only be written into an unlocked vault, so check before anything else is imported
+    const apiKeys = options.importSettings && options.importSecrets ? bundle.settings?.apiKeys : undefined;
+    if (apiKeys && getVaultStatus() !== 'unlocked') throw new VaultError("Unlock the key vault in Settings to import API keys.");
+
+    await db.system.importRecords({ prompts, workflows, collections });
+
+    if (options.importSettings && bundle.settings) {
+        db.settings.save(mergeSettings(db.settings.get(), bundle.settings));
+        if (apiKeys) await setApiKeys(apiKeys);
+    }
+    return summary;
+};
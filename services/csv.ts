@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Parses RFC 4180 style CSV: quoted fields may hold commas, newlines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) rows.push([...row, field]);
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// The first row names the columns; each following row becomes an object keyed by them
+export const parseCsv = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) return [];
+    const columns = header.map((name, i) => name.trim() || `column${i + 1}`);
+    return rows.map(cells => Object.fromEntries(columns.map((name, i) => [name, cells[i] ?? ''])));
+};
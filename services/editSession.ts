@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt } from "../types";
+import { db } from "./storage";
+import { diffSFL } from "./sflDiff";
+
+// Editor changes are written as a draft shortly after typing stops, and only become
+// a version on explicit save, on generation, or once the editor has been idle a while.
+
+export const DRAFT_DEBOUNCE_MS = 1000;
+export const IDLE_COMMIT_MS = 60_000;
+
+export interface EditSessionOptions {
+    onIdleCommit?: (saved: Prompt) => void;
+    draftDelayMs?: number;
+    idleCommitMs?: number;
+}
+
+export interface EditSession {
+    update: (prompt: Prompt) => void;
+    commit: (prompt: Prompt, changeDescription?: string) => Promise<Prompt>;
+    flush: () => void;
+    cancel: () => void;
+}
+
+// --- Helpers ---
+
+// Opens a prompt with any saved draft applied over the committed head
+export const applyDraft = (prompt: Prompt): Prompt => {
+    if (!prompt.draft) return prompt;
+    const { content, sfl, title = prompt.title, variables = prompt.variables } = prompt.draft;
+    return { ...prompt, content, sfl, title, variables, draft: undefined };
+};
+
+export const hasUncommittedChanges = (committed: Prompt, edited: Prompt) =>
+    committed.content !== edited.content
+    || committed.title !== edited.title
+    || JSON.stringify(committed.variables || []) !== JSON.stringify(edited.variables || [])
+    || diffSFL(committed.sfl, edited.sfl).length > 0;
+
+// --- Session ---
+
+export const createEditSession = (options: EditSessionOptions = {}): EditSession => {
+    const draftDelay = options.draftDelayMs ?? DRAFT_DEBOUNCE_MS;
+    const idleDelay = options.idleCommitMs ?? IDLE_COMMIT_MS;
+
+    let pending: Prompt | null = null;
+    let draftTimer: ReturnType<typeof setTimeout> | undefined;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const clearTimers = () => {
+        clearTimeout(draftTimer);
+        clearTimeout(idleTimer);
+    };
+
+    const writeDraft = () => {
+        if (!pending) return;
+        const { id, content, sfl, title, variables } = pending;
+        db.prompts.saveDraft(id, { content, sfl, title, variables, updatedAt: Date.now() }).catch(e => console.error("Draft save failed", e));
+    };
+
+    const commit = async (prompt: Prompt, changeDescription?: string) => {
+        clearTimers();
+        pending = null;
+        return db.prompts.save({ ...prompt, draft: undefined }, { changeDescription });
+    };
+
+    const commitIdle = () => {
+        if (!pending) return;
+        commit(pending)
+            .then(saved => options.onIdleCommit?.(saved))
+            .catch(e => console.error("Idle commit failed", e));
+    };
+
+    return {
+        update: (prompt: Prompt) => {
+            pending = prompt;
+            clearTimers();
+            draftTimer = setTimeout(writeDraft, draftDelay);
+            idleTimer = setTimeout(commitIdle, idleDelay);
+        },
+        commit,
+        // Writes the draft now and stops the idle commit, e.g. when switching prompts
+        flush: () => {
+            clearTimers();
+            writeDraft();
+            pending = null;
+        },
+        cancel: () => {
+            clearTimers();
+            pending = null;
+        }
+    };
+};
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Structured Output ---
+
+// The model never produced output that parsed and validated, even after repair round-trips
+export class StructuredOutputError extends Error {
+    issues: string[];
+    rawOutput: string;
+    attempts: number;
+
+    constructor(message: string, issues: string[], rawOutput: string, attempts: number) {
+        super(message);
+        this.name = 'StructuredOutputError';
+        this.issues = issues;
+        this.rawOutput = rawOutput;
+        this.attempts = attempts;
+    }
+}
+
+// --- Provider Requests ---
+
+export type ProviderErrorKind = 'auth' | 'rateLimit' | 'contentFilter' | 'network' | 'badRequest' | 'server';
+
+// A provider call failed. `retryable` failures are retried with backoff before surfacing.
+export class ProviderError extends Error {
+    providerId: string;
+    kind: ProviderErrorKind;
+    status?: number;
+    retryable: boolean;
+
+    constructor(message: string, providerId: string, kind: ProviderErrorKind, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.providerId = providerId;
+        this.kind = kind;
+        this.status = status;
+        this.retryable = kind === 'rateLimit' || kind === 'server' || kind === 'network';
+    }
+}
+
+// Missing, invalid or unauthorised API key (401/403)
+export class ProviderAuthError extends ProviderError {
+    constructor(message: string, providerId: string, status?: number) {
+        super(message, providerId, 'auth', status);
+        this.name = 'ProviderAuthError';
+    }
+}
+
+// 429; `retryAfterMs` comes from the Retry-After header when the provider sends one
+export class ProviderRateLimitError extends ProviderError {
+    retryAfterMs?: number;
+
+    constructor(message: string, providerId: string, retryAfterMs?: number) {
+        super(message, providerId, 'rateLimit', 429);
+        this.name = 'ProviderRateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// The provider refused the prompt or withheld the response on safety grounds
+export class ProviderContentFilterError extends ProviderError {
+    constructor(message: string, providerId: string, status?: number) {
+        super(message, providerId, 'contentFilter', status);
+        this.name = 'ProviderContentFilterError';
+    }
+}
+
+// The provider couldn't be reached, or didn't answer within its timeout
+export class ProviderNetworkError extends ProviderError {
+    timedOut: boolean;
+
+    constructor(message: string, providerId: string, timedOut = false) {
+        super(message, providerId, 'network');
+        this.name = 'ProviderNetworkError';
+        this.timedOut = timedOut;
+    }
+}
+
+// The request itself was rejected (unknown model, malformed parameters, ...); retrying won't help
+export class ProviderBadRequestError extends ProviderError {
+    constructor(message: string, providerId: string, status?: number) {
+        super(message, providerId, 'badRequest', status);
+        this.name = 'ProviderBadRequestError';
+    }
+}
+
+// 5xx or an overloaded provider
+export class ProviderServerError extends ProviderError {
+    constructor(message: string, providerId: string, status?: number) {
+        super(message, providerId, 'server', status);
+        this.name = 'ProviderServerError';
+    }
+}
+
+// --- Import / Export ---
+
+// The file isn't a bundle this version of the app can read
+export class BundleValidationError extends Error {
+    issues: string[];
+
+    constructor(message: string, issues: string[] = []) {
+        super(message);
+        this.name = 'BundleValidationError';
+        this.issues = issues;
+    }
+}
+
+// --- Key Vault ---
+
+// A vault operation failed, e.g. a wrong passphrase or writing keys while locked
+export class VaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VaultError';
+    }
+}
+
+// A request needed a stored API key but the vault hasn't been unlocked this session
+export class VaultLockedError extends VaultError {
+    providerId: string;
+
+    constructor(providerId: string) {
+        super(`Unlock the key vault in Settings to use ${providerId}.`);
+        this.name = 'VaultLockedError';
+        this.providerId = providerId;
+    }
+}
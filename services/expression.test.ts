@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from "vitest";
+import { compileExpression, evaluateExpression, ExpressionError } from "./expression";
+
+const scope = { analysis: { score: 65, tags: ['draft'] }, draft: 'Intro. TODO: finish', count: '3' };
+
+describe("evaluateExpression", () => {
+    it("follows operator precedence", () => {
+        expect(evaluateExpression('1 + 2 * 3 - 4 % 3', {})).toBe(6);
+        expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+        expect(evaluateExpression('!false && 1 < 2 || false', {})).toBe(true);
+        expect(evaluateExpression('-2 * -3', {})).toBe(6);
+    });
+
+    it("reads variables, members and indexes", () => {
+        expect(evaluateExpression('analysis.score < 70 && !contains(draft, "DONE")', scope)).toBe(true);
+        expect(evaluateExpression('analysis["tags"][0]', scope)).toBe('draft');
+        expect(evaluateExpression('analysis.tags.length + len(draft)', scope)).toBe(20);
+        expect(evaluateExpression('missing.deeply.nested', scope)).toBeUndefined();
+    });
+
+    it("compares numeric text by value", () => {
+        expect(evaluateExpression('count == 3', scope)).toBe(true);
+        expect(evaluateExpression('count > 20', scope)).toBe(false);
+        expect(evaluateExpression('"10" > "9"', {})).toBe(true);
+        expect(evaluateExpression('"b" > "a"', {})).toBe(true);
+    });
+
+    it("calls the built-in functions", () => {
+        expect(evaluateExpression('upper("a") + lower("B")', {})).toBe('Ab');
+        expect(evaluateExpression('number("4") + 1', {})).toBe(5);
+        expect(evaluateExpression('exists("") || exists(null)', {})).toBe(false);
+        expect(evaluateExpression('contains(analysis.tags, "draft")', scope)).toBe(true);
+    });
+
+    it("can't reach prototypes or globals", () => {
+        expect(evaluateExpression('draft.constructor', scope)).toBeUndefined();
+        expect(evaluateExpression('analysis.__proto__', scope)).toBeUndefined();
+        expect(evaluateExpression('globalThis', scope)).toBeUndefined();
+    });
+});
+
+describe("compileExpression", () => {
+    it("reports syntax errors with their position", () => {
+        const errorAt = (source: string) => {
+            try {
+                compileExpression(source);
+            } catch (e) {
+                return e as ExpressionError;
+            }
+            throw new Error("Expected a syntax error.");
+        };
+        expect(errorAt('1 +')).toMatchObject({ message: "Expression ended unexpectedly.", position: 3 });
+        expect(errorAt('a ; b')).toMatchObject({ message: 'Unexpected character ";".', position: 2 });
+        expect(errorAt('"open')).toMatchObject({ message: "Unterminated string.", position: 0 });
+        expect(errorAt('alert(1)').message).toMatch(/^Unknown function "alert"/);
+        expect(errorAt('   ')).toBeInstanceOf(ExpressionError);
+    });
+
+    it("can be evaluated against different scopes", () => {
+        const expression = compileExpression('score >= 70');
+        expect(expression({ score: 80 })).toBe(true);
+        expect(expression({ score: 50 })).toBe(false);
+    });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A small expression language for workflow conditions, e.g. `analysis.score < 70 && !contains(draft, "TODO")`.
+// Expressions are parsed into a tree and interpreted here; nothing is handed to eval or Function, and member
+// access only reads own properties, so an expression can't reach prototypes or globals.
+
+export class ExpressionError extends Error {
+    position?: number; // Offset into the source, when known
+
+    constructor(message: string, position?: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+interface Token {
+    kind: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+    value: string; // Numbers keep their source text
+    pos: number;
+}
+
+type ExpressionNode =
+    | { kind: 'literal'; value: any }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] }
+    | { kind: 'unary'; op: string; operand: ExpressionNode }
+    | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode };
+
+export type CompiledExpression = (scope: Record<string, any>) => any;
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', '.', ','];
+const LITERALS: Record<string, any> = { true: true, false: false, null: null, undefined: undefined };
+
+const hasOwn = (object: object, key: PropertyKey) => Object.prototype.hasOwnProperty.call(object, key);
+
+// --- Functions ---
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+    len: (value: any) => typeof value === 'string' || Array.isArray(value) ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0,
+    contains: (haystack: any, needle: any) => typeof haystack === 'string' ? haystack.includes(String(needle)) : Array.isArray(haystack) ? haystack.includes(needle) : false,
+    lower: (value: any) => String(value ?? '').toLowerCase(),
+    upper: (value: any) => String(value ?? '').toUpperCase(),
+    number: (value: any) => Number(value),
+    exists: (value: any) => value !== undefined && value !== null && value !== ''
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// --- Tokenizer ---
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const ch = source[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+            const match = source.slice(i).match(/^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/)!;
+            tokens.push({ kind: 'number', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    const escaped = source[j + 1];
+                    value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+                    j += 2;
+                } else {
+                    value += source[j++];
+                }
+            }
+            if (j >= source.length) throw new ExpressionError("Unterminated string.", i);
+            tokens.push({ kind: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(ch)) {
+            const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+            tokens.push({ kind: 'identifier', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const op = OPERATORS.find(o => source.startsWith(o, i));
+        if (!op) throw new ExpressionError(`Unexpected character "${ch}".`, i);
+        tokens.push({ kind: 'operator', value: op, pos: i });
+        i += op.length;
+    }
+    tokens.push({ kind: 'end', value: '', pos: source.length });
+    return tokens;
+};
+
+// --- Parser ---
+
+// Precedence climbing, loosest first: || && equality relational additive multiplicative unary postfix
+const BINARY_LEVELS = [['||'], ['&&'], ['===', '!==', '==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+const parse = (source: string): ExpressionNode => {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isOperator = (value: string) => peek().kind === 'operator' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isOperator(value)) throw new ExpressionError(`Expected "${value}".`, peek().pos);
+        index++;
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level === BINARY_LEVELS.length) return parseUnary();
+        let left = parseBinary(level + 1);
+        while (peek().kind === 'operator' && BINARY_LEVELS[level].includes(peek().value)) {
+            const op = tokens[index++].value;
+            left = { kind: 'binary', op, left, right: parseBinary(level + 1) };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isOperator('!') || isOperator('-')) {
+            const op = tokens[index++].value;
+            return { kind: 'unary', op, operand: parseUnary() };
+        }
+        return parsePostfix(parsePrimary());
+    };
+
+    const parsePostfix = (node: ExpressionNode): ExpressionNode => {
+        while (true) {
+            if (isOperator('.')) {
+                index++;
+                const name = peek();
+                if (name.kind !== 'identifier') throw new ExpressionError("Expected a property name after \".\".", name.pos);
+                index++;
+                node = { kind: 'member', object: node, property: { kind: 'literal', value: name.value } };
+            } else if (isOperator('[')) {
+                index++;
+                const property = parseBinary(0);
+                expect(']');
+                node = { kind: 'member', object: node, property };
+            } else {
+                return node;
+            }
+        }
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[index++];
+        if (token.kind === 'number') return { kind: 'literal', value: Number(token.value) };
+        if (token.kind === 'string') return { kind: 'literal', value: token.value };
+        if (token.kind === 'identifier') {
+            if (hasOwn(LITERALS, token.value)) return { kind: 'literal', value: LITERALS[token.value] };
+            if (isOperator('(')) {
+                if (!hasOwn(FUNCTIONS, token.value)) throw new ExpressionError(`Unknown function "${token.value}". Available: ${EXPRESSION_FUNCTIONS.join(', ')}.`, token.pos);
+                index++;
+                const args: ExpressionNode[] = [];
+                while (!isOperator(')')) {
+                    args.push(parseBinary(0));
+                    if (!isOperator(')')) expect(',');
+                }
+                index++;
+                return { kind: 'call', name: token.value, args };
+            }
+            return { kind: 'identifier', name: token.value };
+        }
+        if (token.kind === 'operator' && token.value === '(') {
+            const inner = parseBinary(0);
+            expect(')');
+            return inner;
+        }
+        throw new ExpressionError(token.kind === 'end' ? "Expression ended unexpectedly." : `Unexpected "${token.value}".`, token.pos);
+    };
+
+    if (peek().kind === 'end') throw new ExpressionError("Expression is empty.", 0);
+    const root = parseBinary(0);
+    if (peek().kind !== 'end') throw new ExpressionError(`Unexpected "${peek().value}".`, peek().pos);
+    return root;
+};
+
+// --- Interpreter ---
+
+const readProperty = (object: any, key: any) => {
+    if (object === undefined || object === null) return undefined;
+    if (key === 'length' && (typeof object === 'string' || Array.isArray(object))) return object.length;
+    if (typeof object !== 'object') return undefined;
+    return hasOwn(object, key) ? object[key] : undefined;
+};
+
+// Model output is usually text, so a number and a numeric string compare by value
+const asNumbers = (a: any, b: any): [number, number] | null => {
+    if (typeof a === typeof b && typeof a !== 'string') return typeof a === 'number' ? [a, b] : null;
+    const x = typeof a === 'string' && a.trim() ? Number(a) : a;
+    const y = typeof b === 'string' && b.trim() ? Number(b) : b;
+    return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y) ? [x, y] : null;
+};
+
+const looseEquals = (a: any, b: any) => {
+    if (typeof a !== typeof b) {
+        const numbers = asNumbers(a, b);
+        if (numbers) return numbers[0] === numbers[1];
+    }
+    return a === b;
+};
+
+const compare = (op: string, a: any, b: any) => {
+    const numbers = asNumbers(a, b);
+    const [x, y] = numbers || [String(a ?? ''), String(b ?? '')];
+    switch (op) {
+        case '<': return x < y;
+        case '<=': return x <= y;
+        case '>': return x > y;
+        default: return x >= y;
+    }
+};
+
+const evaluate = (node: ExpressionNode, scope: Record<string, any>): any => {
+    switch (node.kind) {
+        case 'literal': return node.value;
+        case 'identifier': return readProperty(scope, node.name);
+        case 'member': return readProperty(evaluate(node.object, scope), evaluate(node.property, scope));
+        case 'call': return FUNCTIONS[node.name](...node.args.map(arg => evaluate(arg, scope)));
+        case 'unary': {
+            const value = evaluate(node.operand, scope);
+            return node.op === '!' ? !value : -Number(value);
+        }
+        case 'binary': {
+            if (node.op === '&&') return evaluate(node.left, scope) && evaluate(node.right, scope);
+            if (node.op === '||') return evaluate(node.left, scope) || evaluate(node.right, scope);
+            const left = evaluate(node.left, scope);
+            const right = evaluate(node.right, scope);
+            switch (node.op) {
+                case '==': case '===': return looseEquals(left, right);
+                case '!=': case '!==': return !looseEquals(left, right);
+                case '+': return typeof left === 'string' || typeof right === 'string' ? `${left ?? ''}${right ?? ''}` : Number(left) + Number(right);
+                case '-': return Number(left) - Number(right);
+                case '*': return Number(left) * Number(right);
+                case '/': return Number(left) / Number(right);
+                case '%': return Number(left) % Number(right);
+                default: return compare(node.op, left, right);
+            }
+        }
+    }
+};
+
+// --- Public API ---
+
+// Throws ExpressionError on a syntax error, so callers can validate expressions before a run
+export const compileExpression = (source: string): CompiledExpression => {
+    const root = parse(source);
+    return (scope) => evaluate(root, scope);
+};
+
+export const evaluateExpression = (source: string, scope: Record<string, any>): any => compileExpression(source)(scope);
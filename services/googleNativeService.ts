@@ -3,9 +3,13 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { GoogleGenAI, Modality, Type, LiveServerMessage } from "@google/genai";
-import { db } from "./storage";
+import { getApiKey, redactError } from "./vault";
+import { AIProvider, UsageScope } from "../types";
+import { estimateTokens } from "./aiFactory";
+import { recordUsage } from "./usage";
+import { toUsage } from "./providers/google";
 
-const getAi = () => new GoogleGenAI({ apiKey: db.settings.get().apiKeys.google || process.env.API_KEY });
+const getAi = () => new GoogleGenAI({ apiKey: getApiKey(AIProvider.GOOGLE) || process.env.API_KEY });
 
 // --- Helpers ---
 
@@ -29,7 +33,7 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
 
 // --- Grounded Generation ---
 
-export const generateGroundedContent = async (model: string, prompt: string, systemInstruction?: string) => {
+export const generateGroundedContent = async (model: string, prompt: string, systemInstruction?: string, scope?: UsageScope) => {
     const ai = getAi();
     // Use search tool if configured
     const tools = [{ googleSearch: {} }];
@@ -43,8 +47,12 @@ export const generateGroundedContent = async (model: string, prompt: string, sys
         }
     });
 
+    const text = response.text || "";
+    const usage = toUsage(response) || { inputTokens: estimateTokens((systemInstruction || '') + prompt), outputTokens: estimateTokens(text), estimated: true };
+    recordUsage({ provider: AIProvider.GOOGLE, model }, usage, scope);
+
     return {
-        text: response.text || "",
+        text,
         // Extract citations/sources from grounding metadata
         sources: response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
             title: chunk.web?.title || "Source",
@@ -104,6 +112,8 @@ export const extractSFLFromContext = async (file: File) => {
         }
     });
 
+    const usage = toUsage(response);
+    if (usage) recordUsage({ provider: AIProvider.GOOGLE, model }, usage, { source: 'extraction' });
     return JSON.parse(response.text || "{}");
 };
 
@@ -210,7 +220,7 @@ export const connectLiveAssistant = async (
             onopen: () => callbacks.onStatusChange('connected'),
             onclose: () => callbacks.onStatusChange('disconnected'),
             onerror: (e) => {
-                console.error("Live API Error:", e);
+                console.error("Live API Error:", redactError(e));
                 callbacks.onStatusChange('error');
             },
             onmessage: async (msg: LiveServerMessage) => {
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from "vitest";
+import { validateJsonSchema } from "./jsonSchema";
+
+describe("validateJsonSchema", () => {
+    const schema = {
+        type: 'object',
+        required: ['name', 'tags'],
+        additionalProperties: false,
+        properties: {
+            name: { type: 'string', minLength: 2, pattern: '^[a-z]+$' },
+            score: { type: 'integer', minimum: 0, maximum: 10 },
+            tags: { type: 'array', maxItems: 2, items: { enum: ['a', 'b'] } }
+        }
+    };
+
+    it("accepts a matching value", () => {
+        expect(validateJsonSchema({ name: 'ok', score: 3, tags: ['a'] }, schema)).toEqual([]);
+    });
+
+    it("reports each violation with its path", () => {
+        expect(validateJsonSchema({ name: 'X', score: 11, tags: ['a', 'c', 'b'], extra: 1 }, schema)).toEqual([
+            '$.name: shorter than 2 characters',
+            '$.name: does not match /^[a-z]+$/',
+            '$.score: greater than 10',
+            '$.tags: more than 2 items',
+            '$.tags[1]: must be one of ["a","b"]',
+            '$: unexpected property "extra"'
+        ]);
+    });
+
+    it("reports missing required properties", () => {
+        expect(validateJsonSchema({ name: 'ok' }, schema)).toEqual(['$: missing required property "tags"']);
+    });
+
+    it("stops at a type mismatch", () => {
+        expect(validateJsonSchema([], schema)).toEqual(['$: expected object, got array']);
+        expect(validateJsonSchema(1.5, { type: 'integer', minimum: 2 })).toEqual(['$: expected integer, got number']);
+        expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    });
+
+    it("compares const and enum values structurally", () => {
+        expect(validateJsonSchema({ a: [1] }, { const: { a: [1] } })).toEqual([]);
+        expect(validateJsonSchema({ a: [2] }, { const: { a: [1] } })).toEqual(['$: must equal {"a":[1]}']);
+    });
+
+    it("treats boolean schemas as allow-all or allow-none", () => {
+        expect(validateJsonSchema('anything', true)).toEqual([]);
+        expect(validateJsonSchema('anything', false)).toEqual(['$: no value is allowed here']);
+    });
+});
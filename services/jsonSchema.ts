@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A deliberately small JSON Schema validator for test assertions. Supported keywords:
+// type, enum, const, properties, required, additionalProperties (boolean), items,
+// minItems/maxItems, minLength/maxLength, pattern, minimum/maximum.
+// Unknown keywords are ignored rather than rejected.
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+    if (type === 'integer') return Number.isInteger(value);
+    if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+    return typeOf(value) === type;
+};
+
+// Returns one message per violation; an empty list means the value is valid
+export const validateJsonSchema = (value: unknown, schema: any, path = '$'): string[] => {
+    if (schema === true || schema === undefined) return [];
+    if (schema === false) return [`${path}: no value is allowed here`];
+    const errors: string[] = [];
+
+    if (schema.type) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(t => matchesType(value, t))) {
+            return [`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+        }
+    }
+    if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+    }
+    if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+        if (schema.items) value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`)));
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        (schema.required || []).forEach((key: string) => {
+            if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+        });
+        const properties = schema.properties || {};
+        Object.entries(record).forEach(([key, child]) => {
+            if (key in properties) {
+                errors.push(...validateJsonSchema(child, properties[key], `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            }
+        });
+    }
+
+    return errors;
+};
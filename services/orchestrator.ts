@@ -2,72 +2,62 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { SFLField, SFLTenor, SFLMode, AIProvider, AIModel, SFLAnalysis } from "../types";
+import { SFLField, SFLTenor, SFLMode, AIModel, SFLAnalysis, UserSettings, ApiKeys, AIProvider, UsageScope } from "../types";
 import { db } from "./storage";
-import { generateTextStandard } from "./aiFactory";
+import { generateTextStandard, withFallback, streamWithFallback, fallbackChain, GenerationOptions } from "./aiFactory";
+import { recordUsage } from "./usage";
+import { toUsage } from "./providers/google";
 import { generateGroundedContent } from "./googleNativeService";
+import { listProviders, getProvider, resolveConnection, ModelListOptions } from "./providers";
+import { generateStructured } from "./structuredOutput";
+import { getApiKey, redactError } from "./vault";
+import { SFLAnalysisSchema } from "../schemas";
 import { GoogleGenAI, Type } from "@google/genai";
 
 // Re-export native features
 export { connectLiveAssistant, extractSFLFromContext } from "./googleNativeService";
 
-const safeParseAnalysis = (jsonString: string): SFLAnalysis => {
-    try {
-        const parsed = JSON.parse(jsonString);
-        return {
-            score: typeof parsed.score === 'number' ? parsed.score : 0,
-            strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
-            weaknesses: Array.isArray(parsed.weaknesses) ? parsed.weaknesses : [],
-            suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions : [],
-            sflAlignment: parsed.sflAlignment || { field: 0, tenor: 0, mode: 0 }
-        };
-    } catch {
-        return { score: 0, strengths: [], weaknesses: ["Analysis Parse Failed"], suggestions: [], sflAlignment: { field:0, tenor:0, mode:0 }};
+// Model pickers are built from every registered provider adapter; discovery results are cached unless `refresh` is set.
+// Pass `settings` and `apiKeys` to discover with unsaved credentials (e.g. from the settings form).
+export const getAvailableModels = async ({ settings = db.settings.get(), apiKeys, ...options }: ModelListOptions & { settings?: UserSettings; apiKeys?: ApiKeys } = {}): Promise<AIModel[]> => {
+    const results = await Promise.all(listProviders().map(async adapter => {
+        try {
+            return await adapter.listModels(resolveConnection(adapter, settings, apiKeys), options);
+        } catch (e) {
+            console.warn(`Model discovery failed for ${adapter.id}`, redactError(e));
+            return [];
+        }
+    }));
+    return results.flat();
+};
+
+const supportsGrounding = (provider: string) => getProvider(provider).capabilities.grounding;
+
+const generateWithOptionalGrounding = async (systemInstruction: string, userPrompt: string, useGrounding: boolean, scope?: UsageScope) => {
+    const generation = db.settings.get().generation;
+    const { provider, model } = generation;
+
+    // If Search Grounding is enabled (Only supported on Google)
+    if (useGrounding && supportsGrounding(provider)) {
+        try {
+            const result = await generateGroundedContent(model, userPrompt, systemInstruction, scope);
+            // Append sources to text for now
+            let text = result.text;
+            if (result.sources && result.sources.length > 0) {
+                text += "\n\n--- Grounding Sources ---\n" + result.sources.map((s: any) => `- [${s.title}](${s.url})`).join('\n');
+            }
+            return text;
+        } catch (e) {
+            console.warn("Grounding failed, falling back to standard generation", redactError(e));
+            // Fallback
+        }
     }
-}
 
-export const getAvailableModels = async (): Promise<AIModel[]> => {
-    const settings = db.settings.get();
-    let models: AIModel[] = [];
-
-    // 1. Google Models
-    const googleModels: AIModel[] = [
-        { name: 'gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', provider: AIProvider.GOOGLE, description: 'Fast, efficient, low latency' },
-        { name: 'gemini-3-pro-preview', displayName: 'Gemini 3.0 Pro', provider: AIProvider.GOOGLE, description: 'Best for complex reasoning' },
-        { name: 'gemini-2.5-flash-native-audio-preview-09-2025', displayName: 'Gemini Live Audio', provider: AIProvider.GOOGLE, description: 'Optimized for speech' },
-        { name: 'veo-3.1-fast-generate-preview', displayName: 'Veo 3.1 Fast', provider: AIProvider.GOOGLE, description: 'Video generation' }
-    ];
-    models = [...models, ...googleModels];
-
-    // 2. OpenRouter (Static List for V2)
-    models.push(
-        { name: 'anthropic/claude-3.5-sonnet', displayName: 'Claude 3.5 Sonnet (OpenRouter)', provider: AIProvider.OPENROUTER, description: 'Balanced intelligence' },
-        { name: 'openai/gpt-4o', displayName: 'GPT-4o (OpenRouter)', provider: AIProvider.OPENROUTER, description: 'Omni model' },
-        { name: 'meta-llama/llama-3-70b-instruct', displayName: 'Llama 3 70B (OpenRouter)', provider: AIProvider.OPENROUTER, description: 'Open weights' }
-    );
-
-    // 3. Mistral
-    models.push(
-        { name: 'mistral-large-latest', displayName: 'Mistral Large', provider: AIProvider.MISTRAL },
-        { name: 'mistral-medium', displayName: 'Mistral Medium', provider: AIProvider.MISTRAL },
-        { name: 'codestral-latest', displayName: 'Codestral', provider: AIProvider.MISTRAL }
-    );
-
-    // 4. Ollama (Discovery attempt or static defaults)
-    models.push(
-        { name: 'llama3', displayName: 'Llama 3 (Local)', provider: AIProvider.OLLAMA },
-        { name: 'mistral', displayName: 'Mistral (Local)', provider: AIProvider.OLLAMA },
-        { name: 'gemma:7b', displayName: 'Gemma 7B (Local)', provider: AIProvider.OLLAMA }
-    );
-
-    return models;
+    // Standard Generation (Factory), through the configured fallback chain
+    return await withFallback(fallbackChain(generation), target => generateTextStandard(target.provider, target.model, systemInstruction, userPrompt, { scope }));
 };
 
-export const generatePromptFromSFL = async (sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }, context: string = "") => {
-    const settings = db.settings.get();
-    const { provider, model } = settings.generation;
-
-    const systemInstruction = `
+const buildGenerationInstruction = (sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }) => `
     You are an expert Prompt Engineer specializing in Systemic Functional Linguistics (SFL).
     Your task is to generate a high-quality LLM prompt based on the following SFL parameters:
     
@@ -89,31 +79,60 @@ export const generatePromptFromSFL = async (sfl: { field: SFLField, tenor: SFLTe
     Output ONLY the resulting prompt text. Do not explain your reasoning.
     `;
 
-    const userPrompt = context ? `Refine this existing prompt based on the SFL parameters: "${context}"` : "Generate a prompt based on the SFL parameters.";
+const buildGenerationRequest = (context: string) =>
+    context ? `Refine this existing prompt based on the SFL parameters: "${context}"` : "Generate a prompt based on the SFL parameters.";
 
-    // If Search Grounding is enabled (Only supported on Google)
-    if (settings.useSearchGrounding && provider === AIProvider.GOOGLE) {
-        try {
-            const result = await generateGroundedContent(model, userPrompt, systemInstruction);
-            // Append sources to text for now
-            let text = result.text;
-            if (result.sources && result.sources.length > 0) {
-                text += "\n\n--- Grounding Sources ---\n" + result.sources.map((s: any) => `- [${s.title}](${s.url})`).join('\n');
-            }
-            return text;
-        } catch (e) {
-            console.warn("Grounding failed, falling back to standard generation", e);
-            // Fallback
-        }
+const streamWithOptionalGrounding = async function* (systemInstruction: string, userPrompt: string, useGrounding: boolean, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const generation = db.settings.get().generation;
+
+    // Grounded responses only carry their sources once complete, so they arrive as a single chunk
+    if (useGrounding && supportsGrounding(generation.provider)) {
+        yield await generateWithOptionalGrounding(systemInstruction, userPrompt, true, options.scope);
+        return;
     }
 
-    // Standard Generation (Factory)
-    return await generateTextStandard(provider, model, systemInstruction, userPrompt);
+    yield* streamWithFallback(fallbackChain(generation), systemInstruction, userPrompt, options);
+};
+
+export const generatePromptFromSFL = async (sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }, context: string = "", scope?: UsageScope) => {
+    const settings = db.settings.get();
+    return generateWithOptionalGrounding(buildGenerationInstruction(sfl), buildGenerationRequest(context), settings.useSearchGrounding, scope);
 };
 
-export const analyzePromptWithSFL = async (promptText: string, sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }) => {
+export const streamPromptFromSFL = (sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }, context: string = "", signal?: AbortSignal, scope?: UsageScope) => {
     const settings = db.settings.get();
-    const { provider, model } = settings.analysis;
+    return streamWithOptionalGrounding(buildGenerationInstruction(sfl), buildGenerationRequest(context), settings.useSearchGrounding, { signal, scope });
+};
+
+// Runs a saved prompt as the system instruction against upstream input (used by workflow Generator nodes)
+export const streamFromPrompt = (promptContent: string, input: string, useGrounding: boolean = false, signal?: AbortSignal, scope?: UsageScope) => {
+    return streamWithOptionalGrounding(promptContent, input || "Begin.", useGrounding, { signal, scope });
+};
+
+// Sent to providers that can constrain their output to a schema; SFLAnalysisSchema still validates the result
+const SFL_ANALYSIS_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        score: { type: 'number', description: "Overall quality score 0-100" },
+        strengths: { type: 'array', items: { type: 'string' } },
+        weaknesses: { type: 'array', items: { type: 'string' } },
+        suggestions: { type: 'array', items: { type: 'string' } },
+        sflAlignment: {
+            type: 'object',
+            properties: {
+                field: { type: 'number', description: "Alignment score 0-10" },
+                tenor: { type: 'number', description: "Alignment score 0-10" },
+                mode: { type: 'number', description: "Alignment score 0-10" }
+            },
+            required: ['field', 'tenor', 'mode']
+        }
+    },
+    required: ['score', 'strengths', 'weaknesses', 'suggestions', 'sflAlignment']
+};
+
+// `scope` attributes the cost; it defaults to a standalone analysis
+export const analyzePromptWithSFL = async (promptText: string, sfl: { field: SFLField, tenor: SFLTenor, mode: SFLMode }, scope: UsageScope = { source: 'analysis' }): Promise<SFLAnalysis> => {
+    const analysis = db.settings.get().analysis;
 
     const systemInstruction = `
       Analyze the prompt against SFL parameters.
@@ -124,62 +143,29 @@ export const analyzePromptWithSFL = async (promptText: string, sfl: { field: SFL
         "strengths": string[],
         "weaknesses": string[],
         "suggestions": string[],
-        "sflAlignment": { "field": number, "tenor": number, "mode": number }
+        "sflAlignment": { "field": number (0-10), "tenor": number (0-10), "mode": number (0-10) }
       }
     `;
 
-    // Special handling for Google to use native schema if possible
-    if (provider === AIProvider.GOOGLE) {
-         const ai = new GoogleGenAI({ apiKey: settings.apiKeys.google || process.env.API_KEY });
-         try {
-             const response = await ai.models.generateContent({
-                model,
-                contents: `Analyze: "${promptText}"`,
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            score: { type: Type.NUMBER },
-                            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            sflAlignment: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    field: { type: Type.NUMBER },
-                                    tenor: { type: Type.NUMBER },
-                                    mode: { type: Type.NUMBER }
-                                }
-                            }
-                        }
-                    }
-                }
-            });
-            return safeParseAnalysis(response.text || "{}");
-         } catch (e) {
-             console.error("Google Analysis failed", e);
-         }
-    }
-
-    // Fallback for generic providers (expecting them to follow JSON instruction)
-    const text = await generateTextStandard(provider, model, systemInstruction, `Analyze this prompt: "${promptText}"`);
-    try {
-        // Simple heuristic to find JSON blob
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        return safeParseAnalysis(jsonMatch ? jsonMatch[0] : text);
-    } catch (e) {
-        console.error("Analysis JSON parse failed", e);
-        return { score: 0, strengths: [], weaknesses: ["Failed to parse analysis"], suggestions: [], sflAlignment: { field:0, tenor:0, mode:0 }};
-    }
+    // Throws StructuredOutputError when no model in the chain can produce a valid analysis
+    return withFallback(fallbackChain(analysis), ({ provider, model }) => generateStructured({
+        provider,
+        model,
+        systemInstruction,
+        prompt: `Analyze this prompt: "${promptText}"`,
+        schema: SFLAnalysisSchema,
+        responseSchema: SFL_ANALYSIS_RESPONSE_SCHEMA,
+        scope
+    }));
 };
 
 export const generateWizardSuggestion = async (input: string) => {
     // Using Google Flash for wizard for speed and schema reliability
     // Only use default key for wizard if configured
-    const ai = new GoogleGenAI({ apiKey: db.settings.get().apiKeys.google || process.env.API_KEY });
+    const ai = new GoogleGenAI({ apiKey: getApiKey(AIProvider.GOOGLE) || process.env.API_KEY });
+    const model = 'gemini-2.5-flash';
     const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model,
         contents: `Given the user input "${input}", suggest SFL parameters in JSON format.`,
         config: {
             responseMimeType: 'application/json',
@@ -196,5 +182,7 @@ export const generateWizardSuggestion = async (input: string) => {
             }
         }
     });
+    const usage = toUsage(response);
+    if (usage) recordUsage({ provider: AIProvider.GOOGLE, model }, usage, { source: 'wizard' });
     return JSON.parse(response.text || "{}");
 };
\ No newline at end of file
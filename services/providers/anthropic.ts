@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIProvider, AIModel, TokenUsage } from "../../types";
+import { ProviderAdapter, ProviderRequest } from "./types";
+import { ensureOk, readServerSentEvents } from "./sse";
+import { errorForStatus } from "./requestPolicy";
+
+const API_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+
+const MODELS: AIModel[] = [
+    { name: 'claude-sonnet-4-5', displayName: 'Claude Sonnet 4.5', provider: AIProvider.ANTHROPIC, description: 'Balanced intelligence and speed', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+    { name: 'claude-opus-4-1', displayName: 'Claude Opus 4.1', provider: AIProvider.ANTHROPIC, description: 'Deepest reasoning', pricing: { inputPerMillion: 15, outputPerMillion: 75 } },
+    { name: 'claude-haiku-4-5', displayName: 'Claude Haiku 4.5', provider: AIProvider.ANTHROPIC, description: 'Fast, low latency', pricing: { inputPerMillion: 1, outputPerMillion: 5 } }
+];
+
+// --- Messages API ---
+
+const buildHeaders = (apiKey: string) => ({
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': API_VERSION,
+    // Required for calls made straight from the browser
+    'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+const buildBody = ({ systemInstruction, prompt, model }: ProviderRequest) => ({
+    model,
+    max_tokens: MAX_TOKENS,
+    system: systemInstruction,
+    messages: [{ role: 'user', content: prompt }]
+});
+
+export const anthropicAdapter: ProviderAdapter = {
+    id: AIProvider.ANTHROPIC,
+    displayName: 'Anthropic',
+    credentials: {
+        apiKey: { label: 'Anthropic', placeholder: 'sk-ant-...' },
+        baseUrl: { label: 'Anthropic Base URL', default: 'https://api.anthropic.com/v1', configurable: false }
+    },
+    capabilities: { streaming: true, jsonMode: false, grounding: false },
+
+    listModels: async () => MODELS,
+
+    generate: async (request, signal) => {
+        const response = await fetch(`${request.baseUrl}/messages`, {
+            method: 'POST',
+            headers: buildHeaders(request.apiKey),
+            body: JSON.stringify(buildBody(request)),
+            signal
+        });
+        await ensureOk(response, AIProvider.ANTHROPIC);
+        const data = await response.json();
+        return {
+            text: (data.content || [])
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join(''),
+            usage: data.usage ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 } : undefined
+        };
+    },
+
+    stream: async function* (request, signal) {
+        const response = await fetch(`${request.baseUrl}/messages`, {
+            method: 'POST',
+            headers: buildHeaders(request.apiKey),
+            body: JSON.stringify({ ...buildBody(request), stream: true }),
+            signal
+        });
+        await ensureOk(response, AIProvider.ANTHROPIC);
+
+        // Input tokens arrive with message_start, the output count with message_delta
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const data of readServerSentEvents(response)) {
+            let event: any;
+            try {
+                event = JSON.parse(data);
+            } catch {
+                continue;
+            }
+            if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                yield event.delta.text as string;
+            } else if (event.type === 'message_start') {
+                usage.inputTokens = event.message?.usage?.input_tokens || 0;
+            } else if (event.type === 'message_delta') {
+                usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+            } else if (event.type === 'error') {
+                // Mid-stream errors arrive as events rather than HTTP statuses
+                const status = event.error?.type === 'overloaded_error' ? 529 : event.error?.type === 'rate_limit_error' ? 429 : 500;
+                throw errorForStatus(AIProvider.ANTHROPIC, status, event.error?.message || 'Anthropic stream failed.');
+            } else if (event.type === 'message_stop') {
+                break;
+            }
+        }
+        return usage.inputTokens || usage.outputTokens ? usage : undefined;
+    }
+};
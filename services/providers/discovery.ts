@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIModel, AIProvider, ModelPricing, ProviderId } from "../../types";
+import { ProviderConnection } from "./types";
+import { ensureOk } from "./sse";
+
+export type DiscoveredModel = Omit<AIModel, 'provider'>;
+export type ModelDiscovery = (connection: ProviderConnection) => Promise<DiscoveredModel[]>;
+
+const CACHE_KEY = 'sfl_model_cache_v1';
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+// --- Cache ---
+// Discovery results persist in localStorage so reopening settings doesn't refetch every provider.
+
+interface CacheEntry {
+    fetchedAt: number;
+    models: DiscoveredModel[];
+}
+
+const readCache = (): Record<string, CacheEntry> => {
+    try {
+        return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeCache = (cache: Record<string, CacheEntry>) => {
+    try {
+        localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+    } catch (e) {
+        console.warn("Model cache write failed", e);
+    }
+};
+
+// Keyed by endpoint and whether a key was present, never by the key itself
+const cacheKeyFor = (providerId: ProviderId, { baseUrl, apiKey }: ProviderConnection) => `${providerId}|${baseUrl}|${apiKey ? 'auth' : 'anon'}`;
+
+export const withModelCache = async (providerId: ProviderId, connection: ProviderConnection, discover: ModelDiscovery, refresh = false): Promise<DiscoveredModel[]> => {
+    const key = cacheKeyFor(providerId, connection);
+    const cached = readCache()[key];
+    if (!refresh && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.models;
+
+    const models = await discover(connection);
+    // Failures throw before this point, so only real results are cached
+    writeCache({ ...readCache(), [key]: { fetchedAt: Date.now(), models } });
+    return models;
+};
+
+export const clearModelCache = () => localStorage.removeItem(CACHE_KEY);
+
+// --- Fetch Helpers ---
+
+const getJson = async (providerId: ProviderId, url: string, apiKey?: string) => {
+    const response = await fetch(url, {
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+    });
+    await ensureOk(response, providerId);
+    return response.json();
+};
+
+// OpenRouter quotes USD per token as strings; negative values mean variable pricing
+const perMillion = (value: unknown) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? Math.round(n * 1_000_000 * 1000) / 1000 : undefined;
+};
+
+// --- Providers ---
+
+export const discoverOpenRouterModels: ModelDiscovery = async ({ baseUrl, apiKey }) => {
+    const body = await getJson(AIProvider.OPENROUTER, `${baseUrl}/models`, apiKey);
+    return (body.data || []).map((m: any): DiscoveredModel => {
+        const input = perMillion(m.pricing?.prompt);
+        const output = perMillion(m.pricing?.completion);
+        return {
+            name: m.id,
+            displayName: m.name || m.id,
+            description: m.description ? String(m.description).split('\n')[0] : undefined,
+            contextLength: m.context_length || undefined,
+            pricing: input !== undefined && output !== undefined ? { inputPerMillion: input, outputPerMillion: output } : undefined,
+            isVisionCapable: Array.isArray(m.architecture?.input_modalities) ? m.architecture.input_modalities.includes('image') : undefined
+        };
+    });
+};
+
+export const discoverMistralModels: ModelDiscovery = async ({ baseUrl, apiKey }) => {
+    const body = await getJson(AIProvider.MISTRAL, `${baseUrl}/models`, apiKey);
+    return (body.data || [])
+        .filter((m: any) => m.capabilities?.completion_chat !== false)
+        .map((m: any): DiscoveredModel => ({
+            name: m.id,
+            displayName: m.name || m.id,
+            description: m.description || undefined,
+            contextLength: m.max_context_length || undefined,
+            isVisionCapable: m.capabilities?.vision
+        }));
+};
+
+// Local inference has no per-token cost
+export const LOCAL_PRICING: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+// Prefers Ollama's native tag listing (it includes model details); falls back to the OpenAI compatible listing
+export const discoverOllamaModels: ModelDiscovery = async ({ baseUrl }) => {
+    const root = baseUrl.replace(/\/v1\/?$/, '');
+    try {
+        const body = await getJson(AIProvider.OLLAMA, `${root}/api/tags`);
+        return (body.models || []).map((m: any): DiscoveredModel => ({
+            name: m.name,
+            displayName: `${m.name} (Local)`,
+            description: [m.details?.parameter_size, m.details?.quantization_level].filter(Boolean).join(' · ') || undefined,
+            pricing: LOCAL_PRICING
+        }));
+    } catch {
+        const body = await getJson(AIProvider.OLLAMA, `${root}/v1/models`);
+        return (body.data || []).map((m: any): DiscoveredModel => ({ name: m.id, displayName: `${m.id} (Local)`, pricing: LOCAL_PRICING }));
+    }
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse, FinishReason } from "@google/genai";
+import { AIProvider, AIModel, TokenUsage } from "../../types";
+import { ProviderAdapter } from "./types";
+import { ProviderContentFilterError } from "../errors";
+
+const MODELS: AIModel[] = [
+    { name: 'gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', provider: AIProvider.GOOGLE, description: 'Fast, efficient, low latency', pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5 } },
+    { name: 'gemini-3-pro-preview', displayName: 'Gemini 3.0 Pro', provider: AIProvider.GOOGLE, description: 'Best for complex reasoning', pricing: { inputPerMillion: 2, outputPerMillion: 12 } },
+    { name: 'gemini-2.5-flash-native-audio-preview-09-2025', displayName: 'Gemini Live Audio', provider: AIProvider.GOOGLE, description: 'Optimized for speech' },
+    { name: 'veo-3.1-fast-generate-preview', displayName: 'Veo 3.1 Fast', provider: AIProvider.GOOGLE, description: 'Video generation' }
+];
+
+export const toUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | undefined =>
+    usageMetadata ? { inputTokens: usageMetadata.promptTokenCount || 0, outputTokens: usageMetadata.candidatesTokenCount || 0 } : undefined;
+
+// Gemini reports safety blocks in a successful response rather than as an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+        throw new ProviderContentFilterError(`Gemini blocked the ${blockReason ? 'prompt' : 'response'} (${blockReason || finishReason}).`, AIProvider.GOOGLE);
+    }
+};
+
+// Gemini's JSON mode, constrained to the request's schema when it has one
+const jsonConfig = (jsonMode?: boolean, responseSchema?: Record<string, unknown>) =>
+    jsonMode ? { responseMimeType: 'application/json', ...(responseSchema ? { responseJsonSchema: responseSchema } : {}) } : {};
+
+export const googleAdapter: ProviderAdapter = {
+    id: AIProvider.GOOGLE,
+    displayName: 'Google Gemini',
+    credentials: {
+        apiKey: {
+            label: 'Google Gemini',
+            placeholder: process.env.API_KEY ? "Using env variable (Hidden)" : "AIzaSy...",
+            fallback: process.env.API_KEY
+        }
+    },
+    capabilities: { streaming: true, jsonMode: true, grounding: true },
+
+    listModels: async () => MODELS,
+
+    generate: async ({ systemInstruction, prompt, model, apiKey, jsonMode, responseSchema }, signal) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: { systemInstruction, abortSignal: signal, ...jsonConfig(jsonMode, responseSchema) }
+        });
+        assertNotBlocked(response);
+        return { text: response.text || "", usage: toUsage(response) };
+    },
+
+    stream: async function* ({ systemInstruction, prompt, model, apiKey, jsonMode, responseSchema }, signal) {
+        const ai = new GoogleGenAI({ apiKey });
+        const stream = await ai.models.generateContentStream({
+            model,
+            contents: prompt,
+            config: { systemInstruction, abortSignal: signal, ...jsonConfig(jsonMode, responseSchema) }
+        });
+        // Every chunk carries the running usage; the last one has the totals
+        let usage: TokenUsage | undefined;
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            usage = toUsage(chunk) || usage;
+            if (chunk.text) yield chunk.text;
+        }
+        return usage;
+    }
+};
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIProvider, ApiKeys, ProviderId, UserSettings } from "../../types";
+import { getApiKey } from "../vault";
+import { ProviderAdapter, ProviderConnection } from "./types";
+import { createOpenAICompatibleAdapter } from "./openaiCompatible";
+import { googleAdapter } from "./google";
+import { anthropicAdapter } from "./anthropic";
+import { discoverOpenRouterModels, discoverMistralModels, discoverOllamaModels, LOCAL_PRICING } from "./discovery";
+
+export type { ProviderAdapter, ProviderConnection, ProviderRequest, ProviderResponse, ProviderCapabilities, ProviderCredentials, ModelListOptions } from "./types";
+export { clearModelCache } from "./discovery";
+export { runWithPolicy, DEFAULT_TIMEOUT_MS } from "./requestPolicy";
+export type { RequestPolicy } from "./requestPolicy";
+
+// --- Built-in Adapters ---
+
+const openaiAdapter = createOpenAICompatibleAdapter({
+    id: AIProvider.OPENAI,
+    displayName: 'OpenAI',
+    credentials: {
+        apiKey: { label: 'OpenAI', placeholder: 'sk-...' },
+        baseUrl: { label: 'OpenAI Base URL', default: 'https://api.openai.com/v1', configurable: false }
+    },
+    models: [
+        { name: 'gpt-4o', displayName: 'GPT-4o', description: 'Omni model', pricing: { inputPerMillion: 2.5, outputPerMillion: 10 } },
+        { name: 'gpt-4o-mini', displayName: 'GPT-4o Mini', description: 'Fast, low cost', pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 } },
+        { name: 'gpt-4.1', displayName: 'GPT-4.1', description: 'Long context reasoning', pricing: { inputPerMillion: 2, outputPerMillion: 8 } }
+    ],
+    jsonMode: true,
+    streamUsage: true
+});
+
+const openrouterAdapter = createOpenAICompatibleAdapter({
+    id: AIProvider.OPENROUTER,
+    displayName: 'OpenRouter',
+    credentials: {
+        apiKey: { label: 'OpenRouter', placeholder: 'sk-or-...' },
+        baseUrl: { label: 'OpenRouter Base URL', default: 'https://openrouter.ai/api/v1', configurable: false }
+    },
+    models: [
+        { name: 'anthropic/claude-3.5-sonnet', displayName: 'Claude 3.5 Sonnet (OpenRouter)', description: 'Balanced intelligence' },
+        { name: 'openai/gpt-4o', displayName: 'GPT-4o (OpenRouter)', description: 'Omni model' },
+        { name: 'meta-llama/llama-3-70b-instruct', displayName: 'Llama 3 70B (OpenRouter)', description: 'Open weights' }
+    ],
+    discoverModels: discoverOpenRouterModels,
+    streamUsage: true
+});
+
+const mistralAdapter = createOpenAICompatibleAdapter({
+    id: AIProvider.MISTRAL,
+    displayName: 'Mistral AI',
+    credentials: {
+        apiKey: { label: 'Mistral AI', placeholder: 'Key...' },
+        baseUrl: { label: 'Mistral Base URL', default: 'https://api.mistral.ai/v1', configurable: false }
+    },
+    models: [
+        { name: 'mistral-large-latest', displayName: 'Mistral Large', pricing: { inputPerMillion: 2, outputPerMillion: 6 } },
+        { name: 'mistral-medium', displayName: 'Mistral Medium', pricing: { inputPerMillion: 0.4, outputPerMillion: 2 } },
+        { name: 'codestral-latest', displayName: 'Codestral', pricing: { inputPerMillion: 0.3, outputPerMillion: 0.9 } }
+    ],
+    discoverModels: discoverMistralModels,
+    jsonMode: true
+});
+
+// Ollama serves an OpenAI compatible endpoint at /v1 and needs no key
+const ollamaAdapter = createOpenAICompatibleAdapter({
+    id: AIProvider.OLLAMA,
+    displayName: 'Ollama',
+    credentials: {
+        apiKey: { label: 'Ollama', placeholder: 'ollama', optional: true, fallback: 'ollama' },
+        baseUrl: { label: 'Ollama Base URL', default: 'http://localhost:11434/v1', configurable: true }
+    },
+    models: [
+        { name: 'llama3', displayName: 'Llama 3 (Local)', pricing: LOCAL_PRICING },
+        { name: 'mistral', displayName: 'Mistral (Local)', pricing: LOCAL_PRICING },
+        { name: 'gemma:7b', displayName: 'Gemma 7B (Local)', pricing: LOCAL_PRICING }
+    ],
+    discoverModels: discoverOllamaModels,
+    timeoutMs: 180_000 // Local models can take a while to load on first use
+});
+
+// --- Registry ---
+
+const registry = new Map<ProviderId, ProviderAdapter>();
+
+export const registerProvider = (adapter: ProviderAdapter) => {
+    registry.set(adapter.id, adapter);
+};
+
+[googleAdapter, openaiAdapter, anthropicAdapter, openrouterAdapter, mistralAdapter, ollamaAdapter].forEach(registerProvider);
+
+export const listProviders = (): ProviderAdapter[] => Array.from(registry.values());
+
+export const getProvider = (id: ProviderId): ProviderAdapter => {
+    const adapter = registry.get(id);
+    if (!adapter) throw new Error(`Provider ${id} not supported`);
+    return adapter;
+};
+
+// Keys come from the vault; `keyOverrides` lets the settings form try unsaved keys
+export const resolveConnection = (adapter: ProviderAdapter, settings: UserSettings, keyOverrides?: ApiKeys): ProviderConnection => {
+    const { apiKey, baseUrl } = adapter.credentials;
+    return {
+        apiKey: keyOverrides?.[adapter.id] || getApiKey(adapter.id) || apiKey?.fallback || '',
+        baseUrl: (baseUrl?.configurable && settings.baseUrls[adapter.id]) || baseUrl?.default || ''
+    };
+};
+
+// True when the adapter has everything it needs to make a request
+export const isProviderConfigured = (adapter: ProviderAdapter, settings: UserSettings, keyOverrides?: ApiKeys) => {
+    const { apiKey } = adapter.credentials;
+    return !apiKey || apiKey.optional || !!resolveConnection(adapter, settings, keyOverrides).apiKey;
+};
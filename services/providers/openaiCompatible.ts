@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIModel, ProviderId, TokenUsage } from "../../types";
+import { ProviderAdapter, ProviderCredentials, ProviderRequest } from "./types";
+import { ensureOk, readServerSentEvents } from "./sse";
+import { ModelDiscovery, withModelCache } from "./discovery";
+import { redactError } from "../vault";
+import { ProviderContentFilterError } from "../errors";
+
+// --- Chat Completions ---
+
+const buildBody = ({ systemInstruction, prompt, model, jsonMode }: ProviderRequest, supportsJsonMode: boolean) => ({
+    model,
+    messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: prompt }
+    ],
+    temperature: 0.7,
+    ...(jsonMode && supportsJsonMode ? { response_format: { type: 'json_object' } } : {})
+});
+
+const toUsage = (usage: any): TokenUsage => ({ inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 });
+
+const buildHeaders = (apiKey: string) => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${apiKey}`
+});
+
+// --- Factory ---
+
+interface OpenAICompatibleOptions {
+    id: ProviderId;
+    displayName: string;
+    credentials: ProviderCredentials;
+    models: Omit<AIModel, 'provider'>[]; // Static list, also the fallback when discovery fails
+    discoverModels?: ModelDiscovery;
+    jsonMode?: boolean;
+    streamUsage?: boolean; // Accepts stream_options.include_usage and sends usage in the final chunk
+    timeoutMs?: number;
+}
+
+// Builds an adapter for any endpoint that speaks the OpenAI chat completions protocol
+export const createOpenAICompatibleAdapter = ({ id, displayName, credentials, models, discoverModels, jsonMode = false, streamUsage = false, timeoutMs }: OpenAICompatibleOptions): ProviderAdapter => ({
+    id,
+    displayName,
+    credentials,
+    capabilities: { streaming: true, jsonMode, grounding: false },
+    timeoutMs,
+
+    listModels: async (connection, options = {}) => {
+        const fallback = models.map(m => ({ ...m, provider: id }));
+        if (!discoverModels) return fallback;
+        try {
+            const discovered = await withModelCache(id, connection, discoverModels, options.refresh);
+            return discovered.length > 0 ? discovered.map(m => ({ ...m, provider: id })) : fallback;
+        } catch (e) {
+            console.warn(`Model discovery failed for ${id}, using defaults`, redactError(e));
+            return fallback;
+        }
+    },
+
+    generate: async (request, signal) => {
+        const response = await fetch(`${request.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: buildHeaders(request.apiKey),
+            body: JSON.stringify(buildBody(request, jsonMode)),
+            signal
+        });
+        await ensureOk(response, id);
+        const data = await response.json();
+        if (data.choices?.[0]?.finish_reason === 'content_filter') {
+            throw new ProviderContentFilterError(`${displayName} withheld the response under its content policy.`, id);
+        }
+        return {
+            text: data.choices?.[0]?.message?.content || "",
+            usage: data.usage ? toUsage(data.usage) : undefined
+        };
+    },
+
+    stream: async function* (request, signal) {
+        const response = await fetch(`${request.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: buildHeaders(request.apiKey),
+            body: JSON.stringify({ ...buildBody(request, jsonMode), stream: true, ...(streamUsage ? { stream_options: { include_usage: true } } : {}) }),
+            signal
+        });
+        await ensureOk(response, id);
+
+        let usage: TokenUsage | undefined;
+        for await (const data of readServerSentEvents(response)) {
+            if (data === '[DONE]') break;
+            let frame: any;
+            try {
+                frame = JSON.parse(data);
+            } catch {
+                // Keep-alive comments and partial frames are skipped
+                continue;
+            }
+            if (frame.usage) usage = toUsage(frame.usage);
+            const choice = frame.choices?.[0];
+            if (choice?.delta?.content) yield choice.delta.content as string;
+            if (choice?.finish_reason === 'content_filter') {
+                throw new ProviderContentFilterError(`${displayName} stopped the response under its content policy.`, id);
+            }
+        }
+        return usage;
+    }
+});
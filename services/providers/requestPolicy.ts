@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProviderId } from "../../types";
+import {
+    ProviderError, ProviderAuthError, ProviderRateLimitError, ProviderContentFilterError,
+    ProviderNetworkError, ProviderBadRequestError, ProviderServerError
+} from "../errors";
+import { redactError } from "../vault";
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 20_000;
+const MAX_RETRY_AFTER_MS = 60_000; // Longer waits fail fast so a fallback provider can take over
+
+export interface RequestPolicy {
+    timeoutMs: number; // Per attempt
+    maxRetries: number;
+}
+
+// --- Classification ---
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const CONTENT_FILTER_PATTERN = /content[ _-]?(filter|policy|management)|safety|moderation|blocked/i;
+
+export const errorForStatus = (providerId: ProviderId, status: number, detail: string, retryAfterMs?: number): ProviderError => {
+    const message = `${providerId} responded with ${status}: ${detail}`;
+    if (status === 401 || status === 403) return new ProviderAuthError(message, providerId, status);
+    if (status === 429) return new ProviderRateLimitError(message, providerId, retryAfterMs);
+    if (status >= 500) return new ProviderServerError(message, providerId, status);
+    if (CONTENT_FILTER_PATTERN.test(detail)) return new ProviderContentFilterError(message, providerId, status);
+    return new ProviderBadRequestError(message, providerId, status);
+};
+
+// Normalises whatever an adapter threw: SDK errors carrying an HTTP status, and fetch's TypeError for network failures
+const toProviderError = (error: any, providerId: ProviderId): unknown => {
+    if (error instanceof ProviderError) return error;
+    if (typeof error?.status === 'number') return errorForStatus(providerId, error.status, error.message);
+    if (error instanceof TypeError) return new ProviderNetworkError(`Could not reach ${providerId}: ${error.message}`, providerId);
+    return error;
+};
+
+// --- Timing ---
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter, or the provider's own Retry-After
+const backoffDelay = (error: ProviderError, attempt: number) => {
+    if (error instanceof ProviderRateLimitError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+    return Math.round(ceiling * (0.5 + Math.random() / 2));
+};
+
+// One attempt. The task's signal aborts with the caller's, or when the timeout elapses; the race also covers
+// adapters that ignore their signal. On success the signal stays linked to the caller's, so a stream opened by the
+// task can still be cancelled.
+const attemptWithTimeout = async <T>(providerId: ProviderId, timeoutMs: number, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+    if (signal?.aborted) throw signal.reason;
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new ProviderNetworkError(`${providerId} did not respond within ${Math.round(timeoutMs / 1000)}s.`, providerId, true));
+        }, timeoutMs);
+    });
+
+    const pending = task(controller.signal);
+    pending.catch(() => {}); // Its rejection is handled below, or is moot once the timeout has won
+
+    try {
+        return await Promise.race([pending, timeout]);
+    } catch (e) {
+        signal?.removeEventListener('abort', onAbort);
+        throw signal?.aborted ? e : toProviderError(e, providerId);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// --- Pipeline ---
+
+// Runs a provider call under a timeout per attempt, retrying rate limits, 5xx and network failures with backoff.
+// Everything else, including a caller abort, surfaces immediately.
+export const runWithPolicy = async <T>(providerId: ProviderId, policy: RequestPolicy, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await attemptWithTimeout(providerId, policy.timeoutMs, task, signal);
+        } catch (e) {
+            if (!(e instanceof ProviderError) || !e.retryable || attempt > policy.maxRetries || signal?.aborted) throw e;
+            const delay = backoffDelay(e, attempt);
+            if (delay > MAX_RETRY_AFTER_MS) throw e;
+            console.warn(`${providerId} attempt ${attempt} failed, retrying in ${Math.round(delay / 100) / 10}s`, redactError(e));
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProviderId } from "../../types";
+import { errorForStatus, parseRetryAfter } from "./requestPolicy";
+
+// Throws a typed ProviderError carrying the provider's own error message when it sends one
+export const ensureOk = async (response: Response, providerId: ProviderId) => {
+    if (response.ok) return;
+    let detail = response.statusText;
+    try {
+        const body = await response.json();
+        detail = body?.error?.message || body?.message || detail;
+    } catch {
+        // Non-JSON error bodies keep the status text
+    }
+    throw errorForStatus(providerId, response.status, detail, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+// Yields the payload of each `data:` line of a server-sent event stream
+export const readServerSentEvents = async function* (response: Response): AsyncGenerator<string> {
+    if (!response.body) throw new Error("Provider returned an empty stream.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) { finished = true; break; }
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+            }
+        }
+    } finally {
+        // Releasing the lock alone leaves the body downloading; cancelling it aborts the request when the
+        // consumer stopped early or reading failed
+        if (!finished) await reader.cancel().catch(() => {});
+        reader.releaseLock();
+    }
+};
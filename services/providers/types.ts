@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIModel, ProviderId, TokenUsage } from "../../types";
+
+// --- Adapter Contract ---
+
+// Resolved endpoint details handed to an adapter; adapters never read settings themselves
+export interface ProviderConnection {
+    apiKey: string;
+    baseUrl: string;
+}
+
+export interface ProviderRequest extends ProviderConnection {
+    systemInstruction: string;
+    prompt: string;
+    model: string;
+    jsonMode?: boolean; // Ask for a bare JSON object; ignored by adapters without the capability
+    responseSchema?: Record<string, unknown>; // JSON Schema the object should match; adapters that can't enforce one ignore it
+}
+
+export interface ProviderResponse {
+    text: string;
+    usage?: TokenUsage; // Omitted when the provider doesn't report it
+}
+
+export interface ModelListOptions {
+    refresh?: boolean; // Bypass cached discovery results
+}
+
+export interface ProviderCredentials {
+    apiKey?: {
+        label: string;
+        placeholder: string;
+        optional?: boolean;
+        fallback?: string; // Used when the user has not entered a key (e.g. a build-time env key)
+    };
+    baseUrl?: {
+        label: string;
+        default: string;
+        configurable: boolean; // Whether the settings UI lets the user override it
+    };
+}
+
+export interface ProviderCapabilities {
+    streaming: boolean;
+    jsonMode: boolean;
+    grounding: boolean; // Search grounding via the provider's native tooling
+}
+
+export interface ProviderAdapter {
+    id: ProviderId;
+    displayName: string;
+    credentials: ProviderCredentials;
+    capabilities: ProviderCapabilities;
+    timeoutMs?: number; // Default per-attempt timeout; settings can override it
+    listModels: (connection: ProviderConnection, options?: ModelListOptions) => Promise<AIModel[]>;
+    generate: (request: ProviderRequest, signal?: AbortSignal) => Promise<ProviderResponse>;
+    // Yields text chunks as they arrive and returns the usage, when the provider reports it for streams.
+    // Aborting the signal stops the underlying request.
+    stream: (request: ProviderRequest, signal?: AbortSignal) => AsyncGenerator<string, TokenUsage | undefined>;
+}
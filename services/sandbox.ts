@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TaskErrorDetail } from "../types";
+
+// --- Limits ---
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const MAX_PAYLOAD_CHARS = 5_000_000; // Applies to both the serialized input and the returned result
+
+export interface SandboxOptions {
+    timeoutMs?: number;
+}
+
+export type SandboxOutcome =
+    | { ok: true; result: any }
+    | { ok: false; error: TaskErrorDetail };
+
+export class SandboxExecutionError extends Error {
+    detail: TaskErrorDetail;
+
+    constructor(detail: TaskErrorDetail) {
+        super(`${detail.name}: ${detail.message}${detail.line ? ` (line ${detail.line})` : ''}`);
+        this.name = 'SandboxExecutionError';
+        this.detail = detail;
+    }
+}
+
+// --- Worker Source ---
+// Runs inside a dedicated Worker: no DOM, and network/storage globals are removed before user code runs.
+// Removing globals is best-effort isolation, not a security boundary: dynamic `import()` can't be disabled and
+// can still reach the network, and a worker created from a blob URL runs under the page's CSP, not one of its own.
+// Memory isn't capped either; MAX_PAYLOAD_CHARS only bounds what crosses the worker boundary.
+// The user body is compiled with `new Function`; its two header lines plus the "use strict" line are subtracted from error line numbers.
+
+const WORKER_SOURCE = `
+const send = self.postMessage.bind(self);
+const MAX_PAYLOAD_CHARS = ${MAX_PAYLOAD_CHARS};
+const BLOCKED = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage', 'close'];
+for (const name of BLOCKED) {
+    try { Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false }); } catch (e) {}
+}
+
+const getPath = (obj, path) => path.split('.').reduce((acc, key) => acc == null ? undefined : acc[key], obj);
+
+const helpers = Object.freeze({
+    json: (text) => typeof text === 'string' ? JSON.parse(text) : text,
+    extract: (text, pattern, flags = 'g') => {
+        const regex = pattern instanceof RegExp ? pattern : new RegExp(pattern, flags.includes('g') ? flags : flags + 'g');
+        return Array.from(String(text).matchAll(regex), m => m.length > 1 ? m[1] : m[0]);
+    },
+    split: (text, separator = '\\n') => String(text).split(separator).map(s => s.trim()).filter(Boolean),
+    template: (str, values = {}) => String(str).replace(/\\{\\{\\s*([\\w.]+)\\s*\\}\\}/g, (_, key) => {
+        const value = getPath(values, key);
+        return value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    })
+});
+
+const toDetail = (err) => {
+    const detail = { name: (err && err.name) || 'Error', message: (err && err.message) || String(err) };
+    const match = err && err.stack && err.stack.match(/<anonymous>:(\\d+):(\\d+)/);
+    if (match) {
+        detail.line = Math.max(1, Number(match[1]) - 3);
+        detail.column = Number(match[2]);
+    }
+    return detail;
+};
+
+self.onmessage = async (event) => {
+    const { code, input, context } = event.data;
+    try {
+        const fn = new Function('input', 'context', 'helpers', '"use strict";\\n' + code);
+        const result = await fn(input, context, helpers);
+        const serialized = JSON.stringify(result === undefined ? null : result);
+        if (serialized.length > MAX_PAYLOAD_CHARS) {
+            send({ ok: false, error: { name: 'PayloadSizeError', message: 'Result exceeds the ' + MAX_PAYLOAD_CHARS + ' character limit.' } });
+            return;
+        }
+        send({ ok: true, result: serialized });
+    } catch (err) {
+        send({ ok: false, error: toDetail(err) });
+    }
+};
+`;
+
+// --- Runner ---
+
+export const runSandboxed = (code: string, input: any, context: Record<string, any>, options: SandboxOptions = {}): Promise<SandboxOutcome> => {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    if (typeof Worker === 'undefined') {
+        return Promise.resolve({ ok: false, error: { name: 'SandboxUnavailableError', message: 'Web Workers are not available in this environment.' } });
+    }
+
+    // Round-trip through JSON so only plain data crosses the boundary
+    let payload: { input: any; context: Record<string, any> };
+    try {
+        const serialized = JSON.stringify({ input: input ?? null, context });
+        if (serialized.length > MAX_PAYLOAD_CHARS) {
+            return Promise.resolve({ ok: false, error: { name: 'PayloadSizeError', message: `Input exceeds the ${MAX_PAYLOAD_CHARS} character limit.` } });
+        }
+        payload = JSON.parse(serialized);
+    } catch (e: any) {
+        return Promise.resolve({ ok: false, error: { name: 'SerializationError', message: e?.message || 'Input could not be serialized.' } });
+    }
+
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    return new Promise<SandboxOutcome>((resolve) => {
+        const finish = (outcome: SandboxOutcome) => {
+            clearTimeout(timer);
+            worker.terminate();
+            URL.revokeObjectURL(url);
+            resolve(outcome);
+        };
+
+        const timer = setTimeout(() => {
+            finish({ ok: false, error: { name: 'TimeoutError', message: `Execution exceeded ${timeoutMs}ms and was terminated.` } });
+        }, timeoutMs);
+
+        worker.onmessage = (event: MessageEvent) => {
+            const data = event.data;
+            if (data.ok) {
+                finish({ ok: true, result: JSON.parse(data.result) });
+            } else {
+                finish({ ok: false, error: data.error });
+            }
+        };
+
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            finish({ ok: false, error: { name: 'WorkerError', message: event.message || 'Sandbox worker crashed.', line: event.lineno || undefined } });
+        };
+
+        worker.postMessage({ code, ...payload });
+    });
+};
+
+// Convenience wrapper for the workflow executor: resolves to the result or throws a SandboxExecutionError
+export const runTransformation = async (code: string, input: any, context: Record<string, any>, options?: SandboxOptions) => {
+    const outcome = await runSandboxed(code, input, context, options);
+    if ('error' in outcome) throw new SandboxExecutionError(outcome.error);
+    return outcome.result;
+};
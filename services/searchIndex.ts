@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt } from "../types";
+
+// In-memory inverted index over the prompt library. Storage builds it on the first
+// getAll and keeps it current on every save and delete.
+
+export type SearchField = 'title' | 'tags' | 'sfl' | 'content';
+export type FacetKey = 'tag' | 'domain' | 'process' | 'affect' | 'channel' | 'rhetoricalMode';
+export type UpdatedWithin = 'day' | 'week' | 'month';
+
+export interface SearchFilters {
+    tag?: string;
+    domain?: string;
+    process?: string;
+    affect?: string;
+    channel?: string;
+    rhetoricalMode?: string;
+    minScore?: number; // Analysis score range; unanalysed prompts drop out once either bound is set
+    maxScore?: number;
+    updatedWithin?: UpdatedWithin;
+}
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface SearchHit {
+    id: string;
+    score: number;
+    matchedFields: SearchField[];
+}
+
+export interface SearchResults {
+    hits: SearchHit[];
+    terms: string[];
+    facets: Record<FacetKey, FacetCount[]>;
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+interface IndexedDoc {
+    id: string;
+    updatedAt: number;
+    analysisScore?: number;
+    facets: Record<FacetKey, string[]>; // Single-valued except tags
+    fieldsByToken: Map<string, Set<SearchField>>;
+}
+
+export const FACET_KEYS: FacetKey[] = ['tag', 'domain', 'process', 'affect', 'channel', 'rhetoricalMode'];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 5, tags: 4, sfl: 2, content: 1 };
+
+const UPDATED_WITHIN_MS: Record<UpdatedWithin, number> = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+};
+
+const docs = new Map<string, IndexedDoc>();
+const postings = new Map<string, Set<string>>();
+let ready = false;
+
+// --- Tokenizing ---
+
+export const tokenize = (text: string): string[] => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
+type IndexablePrompt = Omit<Prompt, 'history'>;
+
+const facetValues = (prompt: IndexablePrompt): Record<FacetKey, string[]> => {
+    const single = (value?: string) => value ? [value] : [];
+    return {
+        tag: prompt.tags,
+        domain: single(prompt.sfl.field.domain),
+        process: single(prompt.sfl.field.process),
+        affect: single(prompt.sfl.tenor.affect),
+        channel: single(prompt.sfl.mode.channel),
+        rhetoricalMode: single(prompt.sfl.mode.rhetoricalMode)
+    };
+};
+
+const fieldTexts = (prompt: IndexablePrompt): Record<SearchField, string> => ({
+    title: prompt.title,
+    tags: prompt.tags.join(' '),
+    sfl: [prompt.sfl.field, prompt.sfl.tenor, prompt.sfl.mode].flatMap(section => Object.values(section)).join(' '),
+    content: prompt.content
+});
+
+// --- Index Maintenance ---
+
+export const removeFromIndex = (id: string) => {
+    const doc = docs.get(id);
+    if (!doc) return;
+    doc.fieldsByToken.forEach((_, token) => {
+        const ids = postings.get(token);
+        ids?.delete(id);
+        if (ids && ids.size === 0) postings.delete(token);
+    });
+    docs.delete(id);
+};
+
+export const indexPrompt = (prompt: IndexablePrompt) => {
+    removeFromIndex(prompt.id);
+    const fieldsByToken = new Map<string, Set<SearchField>>();
+    (Object.entries(fieldTexts(prompt)) as [SearchField, string][]).forEach(([field, text]) => {
+        tokenize(text).forEach(token => {
+            if (!fieldsByToken.has(token)) fieldsByToken.set(token, new Set());
+            fieldsByToken.get(token)!.add(field);
+        });
+    });
+    fieldsByToken.forEach((_, token) => {
+        if (!postings.has(token)) postings.set(token, new Set());
+        postings.get(token)!.add(prompt.id);
+    });
+    docs.set(prompt.id, {
+        id: prompt.id,
+        updatedAt: prompt.updatedAt,
+        analysisScore: prompt.lastAnalysis?.score,
+        facets: facetValues(prompt),
+        fieldsByToken
+    });
+};
+
+export const buildSearchIndex = (prompts: Prompt[]) => {
+    resetSearchIndex();
+    prompts.forEach(indexPrompt);
+    ready = true;
+};
+
+export const resetSearchIndex = () => {
+    docs.clear();
+    postings.clear();
+    ready = false;
+};
+
+export const isSearchIndexReady = () => ready;
+
+// --- Querying ---
+
+// Query terms match as word prefixes, so "doc" finds "documentation"
+const matchingTokens = (term: string) => Array.from(postings.keys()).filter(token => token.startsWith(term));
+
+const passesFilters = (doc: IndexedDoc, filters: SearchFilters, skip?: FacetKey) => {
+    if (FACET_KEYS.some(key => key !== skip && filters[key] && !doc.facets[key].includes(filters[key]!))) return false;
+    if (filters.minScore !== undefined || filters.maxScore !== undefined) {
+        if (doc.analysisScore === undefined) return false;
+        if (filters.minScore !== undefined && doc.analysisScore < filters.minScore) return false;
+        if (filters.maxScore !== undefined && doc.analysisScore > filters.maxScore) return false;
+    }
+    if (filters.updatedWithin && doc.updatedAt < Date.now() - UPDATED_WITHIN_MS[filters.updatedWithin]) return false;
+    return true;
+};
+
+const scoreDoc = (doc: IndexedDoc, termTokens: Map<string, string[]>): SearchHit | null => {
+    let score = 0;
+    const matchedFields = new Set<SearchField>();
+    for (const [term, tokens] of termTokens) {
+        let best = 0;
+        tokens.forEach(token => {
+            const fields = doc.fieldsByToken.get(token);
+            if (!fields) return;
+            fields.forEach(field => {
+                matchedFields.add(field);
+                // Whole-word matches outrank prefix matches
+                best = Math.max(best, FIELD_WEIGHTS[field] * (token === term ? 2 : 1));
+            });
+        });
+        if (best === 0) return null; // Every term has to match somewhere
+        score += best;
+    }
+    return { id: doc.id, score, matchedFields: Array.from(matchedFields) };
+};
+
+// Ranked hits for the query plus facet counts. Each facet is counted with every other filter applied,
+// so choosing a value never hides the alternatives for that same facet.
+export const searchPrompts = (query: string, filters: SearchFilters = {}): SearchResults => {
+    const terms = Array.from(new Set(tokenize(query)));
+    const termTokens = new Map(terms.map(term => [term, matchingTokens(term)]));
+
+    const matched: { doc: IndexedDoc; hit: SearchHit }[] = [];
+    docs.forEach(doc => {
+        const hit = terms.length > 0 ? scoreDoc(doc, termTokens) : { id: doc.id, score: 0, matchedFields: [] };
+        if (hit) matched.push({ doc, hit });
+    });
+
+    const facets = {} as Record<FacetKey, FacetCount[]>;
+    FACET_KEYS.forEach(key => {
+        const counts = new Map<string, number>();
+        matched.forEach(({ doc }) => {
+            if (!passesFilters(doc, filters, key)) return;
+            doc.facets[key].forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+        });
+        facets[key] = Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    });
+
+    const hits = matched
+        .filter(({ doc }) => passesFilters(doc, filters))
+        .sort((a, b) => b.hit.score - a.hit.score || b.doc.updatedAt - a.doc.updatedAt)
+        .map(({ hit }) => hit);
+
+    return { hits, terms, facets };
+};
+
+// --- Highlighting ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into plain and matched runs; terms match at the start of words, like the index
+export const highlightSegments = (text: string, terms: string[]): HighlightSegment[] => {
+    if (!text || terms.length === 0) return [{ text, match: false }];
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu');
+    const segments: HighlightSegment[] = [];
+    let last = 0;
+    for (const m of text.matchAll(pattern)) {
+        if (m.index! > last) segments.push({ text: text.slice(last, m.index), match: false });
+        segments.push({ text: m[0], match: true });
+        last = m.index! + m[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last), match: false });
+    return segments;
+};
+
+// A window of text around the first match, for showing where content matched
+export const excerptAround = (text: string, terms: string[], radius = 80): string => {
+    const lower = text.toLowerCase();
+    const positions = terms.map(term => lower.search(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`, 'u'))).filter(i => i >= 0);
+    if (positions.length === 0) return text.slice(0, radius * 2);
+    const start = Math.max(0, Math.min(...positions) - radius);
+    const end = Math.min(text.length, start + radius * 2);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect } from "vitest";
+import { Prompt } from "../types";
+import { diffSFL, summarizeSFLChanges } from "./sflDiff";
+
+const profile: Prompt['sfl'] = {
+    field: { domain: 'Software', process: 'Explaining' },
+    tenor: { senderRole: 'Engineer', receiverRole: 'Manager', powerStatus: 'Equal', affect: 'Neutral' },
+    mode: { channel: 'Written', medium: 'Email', rhetoricalMode: 'Didactic' }
+};
+
+describe("diffSFL", () => {
+    it("lists changed fields in field, tenor, mode order", () => {
+        const after = { ...profile, mode: { ...profile.mode, medium: 'Slack' }, field: { ...profile.field, domain: 'Finance' } };
+        expect(diffSFL(profile, after)).toEqual([
+            { section: 'field', key: 'domain', from: 'Software', to: 'Finance' },
+            { section: 'mode', key: 'medium', from: 'Email', to: 'Slack' }
+        ]);
+    });
+
+    it("is empty when either side is missing", () => {
+        expect(diffSFL(undefined, profile)).toEqual([]);
+    });
+});
+
+describe("summarizeSFLChanges", () => {
+    it("describes every change on one line", () => {
+        const after = { ...profile, tenor: { ...profile.tenor, affect: 'Critical' as const, senderRole: '' } };
+        expect(summarizeSFLChanges(profile, after)).toBe('Tenor sender role changed from Engineer to (empty); Tenor affect changed from Neutral to Critical');
+    });
+
+    it("is undefined when nothing changed", () => {
+        expect(summarizeSFLChanges(profile, { ...profile })).toBeUndefined();
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt } from "../types";
+
+type SFLProfile = Prompt['sfl'];
+
+export interface SFLChange {
+    section: keyof SFLProfile;
+    key: string;
+    from: string;
+    to: string;
+}
+
+const SECTIONS: (keyof SFLProfile)[] = ['field', 'tenor', 'mode'];
+
+// "senderRole" -> "sender role"
+export const humanizeKey = (key: string) => key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+// Field-by-field differences between two SFL profiles, in field/tenor/mode order
+export const diffSFL = (before?: SFLProfile, after?: SFLProfile): SFLChange[] => {
+    if (!before || !after) return [];
+    const changes: SFLChange[] = [];
+    SECTIONS.forEach(section => {
+        const from = (before[section] || {}) as Record<string, any>;
+        const to = (after[section] || {}) as Record<string, any>;
+        Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).forEach(key => {
+            if (from[key] !== to[key]) changes.push({ section, key, from: String(from[key] ?? ''), to: String(to[key] ?? '') });
+        });
+    });
+    return changes;
+};
+
+// e.g. "Tenor affect changed from Neutral to Critical"
+export const describeSFLChange = ({ section, key, from, to }: SFLChange) =>
+    `${section.charAt(0).toUpperCase()}${section.slice(1)} ${humanizeKey(key)} changed from ${from || '(empty)'} to ${to || '(empty)'}`;
+
+// One-line summary of every SFL change, used as the description of SFL-only versions
+export const summarizeSFLChanges = (before?: SFLProfile, after?: SFLProfile): string | undefined =>
+    diffSFL(before, after).map(describeSFLChange).join('; ') || undefined;
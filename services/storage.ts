@@ -2,17 +2,33 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Prompt, Workflow, UserSettings, AIProvider } from '../types';
+import { Prompt, PromptDraft, PromptVersion, Workflow, WorkflowRun, StoredBlob, Evaluation, TestRun, Collection, UsageRecord, UserSettings, ApiKeys, AIProvider } from '../types';
+import { diffSFL, summarizeSFLChanges } from './sflDiff';
+import { buildSearchIndex, indexPrompt, removeFromIndex, isSearchIndexReady } from './searchIndex';
 
 const STORAGE_KEYS = {
-  PROMPTS: 'sfl_prompts_v2',
-  WORKFLOWS: 'sfl_workflows_v2',
+  PROMPTS: 'sfl_prompts_v2', // Legacy: migrated into IndexedDB on first open
+  WORKFLOWS: 'sfl_workflows_v2', // Legacy: migrated into IndexedDB on first open
   SETTINGS: 'sfl_settings_v3.1' // Bumped for hybrid support
 };
 
+const DB_NAME = 'sfl_studio';
+const DB_VERSION = 5;
+
+const STORES = {
+  PROMPTS: 'prompts',
+  PROMPT_VERSIONS: 'promptVersions',
+  WORKFLOWS: 'workflows',
+  RUNS: 'runs',
+  BLOBS: 'blobs',
+  EVALUATIONS: 'evaluations',
+  TEST_RUNS: 'testRuns',
+  COLLECTIONS: 'collections',
+  USAGE: 'usage'
+};
+
 const DEFAULT_SETTINGS: UserSettings = {
-    apiKeys: {},
-    ollamaBaseUrl: 'http://localhost:11434/v1',
+    baseUrls: {},
     useSearchGrounding: false,
     live: {
         voice: 'Zephyr',
@@ -21,153 +37,521 @@ const DEFAULT_SETTINGS: UserSettings = {
     },
     generation: {
         provider: AIProvider.GOOGLE,
-        model: 'gemini-2.5-flash'
+        model: 'gemini-2.5-flash',
+        fallbacks: []
     },
     analysis: {
         provider: AIProvider.GOOGLE,
-        model: 'gemini-3-pro-preview'
+        model: 'gemini-3-pro-preview',
+        fallbacks: []
+    },
+    network: {
+        maxRetries: 2,
+        timeoutsMs: {}
+    },
+    budget: {
+        alertAt: 0.8
+    },
+    pricing: {}
+};
+
+const SEED_PROMPT: Prompt = {
+    id: 'demo-1',
+    title: 'API Documentation Generator',
+    tags: ['Engineering', 'Docs'],
+    updatedAt: Date.now(),
+    version: 1,
+    history: [],
+    content: 'Write a technical documentation overview for a REST API that handles user authentication. The tone should be strictly professional and concise.',
+    sfl: {
+        field: { domain: 'Software Engineering', process: 'Documentation' },
+        tenor: { senderRole: 'Technical Writer', receiverRole: 'Developer', powerStatus: 'Equal', affect: 'Professional' },
+        mode: { channel: 'Written', medium: 'Markdown', rhetoricalMode: 'Didactic' }
+    }
+};
+
+// Prompts are stored without their history; versions live in their own store
+type StoredPrompt = Omit<Prompt, 'history'>;
+type StoredPromptVersion = PromptVersion & { promptId: string };
+
+// --- IndexedDB Plumbing ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(STORES.PROMPTS)) {
+            const prompts = database.createObjectStore(STORES.PROMPTS, { keyPath: 'id' });
+            prompts.createIndex('updatedAt', 'updatedAt');
+            prompts.createIndex('tags', 'tags', { multiEntry: true });
+        }
+        if (!database.objectStoreNames.contains(STORES.PROMPT_VERSIONS)) {
+            const versions = database.createObjectStore(STORES.PROMPT_VERSIONS, { keyPath: ['promptId', 'version'] });
+            versions.createIndex('promptId', 'promptId');
+        }
+        if (!database.objectStoreNames.contains(STORES.WORKFLOWS)) {
+            const workflows = database.createObjectStore(STORES.WORKFLOWS, { keyPath: 'id' });
+            workflows.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!database.objectStoreNames.contains(STORES.RUNS)) {
+            const runs = database.createObjectStore(STORES.RUNS, { keyPath: 'id' });
+            runs.createIndex('workflowId', 'workflowId');
+            runs.createIndex('startedAt', 'startedAt');
+        }
+        if (!database.objectStoreNames.contains(STORES.BLOBS)) {
+            database.createObjectStore(STORES.BLOBS, { keyPath: 'id' });
+        }
+        // v2
+        if (!database.objectStoreNames.contains(STORES.EVALUATIONS)) {
+            const evaluations = database.createObjectStore(STORES.EVALUATIONS, { keyPath: 'id' });
+            evaluations.createIndex('promptId', 'promptId');
+        }
+        // v3
+        if (!database.objectStoreNames.contains(STORES.TEST_RUNS)) {
+            const testRuns = database.createObjectStore(STORES.TEST_RUNS, { keyPath: 'id' });
+            testRuns.createIndex('promptId', 'promptId');
+        }
+        // v4
+        if (!database.objectStoreNames.contains(STORES.COLLECTIONS)) {
+            const collections = database.createObjectStore(STORES.COLLECTIONS, { keyPath: 'id' });
+            collections.createIndex('promptIds', 'promptIds', { multiEntry: true });
+            collections.createIndex('workflowIds', 'workflowIds', { multiEntry: true });
+        }
+        // v5
+        if (!database.objectStoreNames.contains(STORES.USAGE)) {
+            const usage = database.createObjectStore(STORES.USAGE, { keyPath: 'id' });
+            usage.createIndex('timestamp', 'timestamp');
+            usage.createIndex('promptId', 'promptId');
+            usage.createIndex('runId', 'runId');
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs `fn` inside one transaction. Only IDB requests may be awaited in `fn`, or the transaction auto-commits.
+const runTransaction = async <T>(database: IDBDatabase, storeNames: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => Promise<T>): Promise<T> => {
+    const tx = database.transaction(storeNames, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx);
+    await completed;
+    return result;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = openDatabase().then(async database => {
+            await migrateLegacyStorage(database);
+            await seedIfEmpty(database);
+            return database;
+        });
+    }
+    return databasePromise;
+};
+
+const transaction = async <T>(storeNames: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => Promise<T>): Promise<T> => {
+    return runTransaction(await getDatabase(), storeNames, mode, fn);
+};
+
+// --- Record Helpers ---
+
+const loadHistory = async (versions: IDBObjectStore, promptId: string): Promise<PromptVersion[]> => {
+    const records = await requestToPromise<StoredPromptVersion[]>(versions.index('promptId').getAll(promptId));
+    return records
+        .sort((a, b) => b.version - a.version)
+        .map(({ promptId: _promptId, ...version }) => version);
+};
+
+const putPromptWithHistory = (tx: IDBTransaction, prompt: Prompt) => {
+    const { history, ...record } = prompt;
+    tx.objectStore(STORES.PROMPTS).put(record);
+    const versions = tx.objectStore(STORES.PROMPT_VERSIONS);
+    (history || []).forEach(version => versions.put({ ...version, promptId: prompt.id }));
+};
+
+// The head's content and version metadata as a history record
+const snapshotHead = (head: StoredPrompt): StoredPromptVersion => ({
+    promptId: head.id,
+    version: head.version,
+    content: head.content,
+    sfl: head.sfl,
+    timestamp: head.updatedAt,
+    changeDescription: head.changeDescription || 'Auto-save update',
+    branch: head.branch,
+    parentVersion: head.parentVersion,
+    versionTags: head.versionTags
+});
+
+// Keeps the search index in step once a write has committed
+const indexed = (prompt: Prompt) => {
+    indexPrompt(prompt);
+    return prompt;
+};
+
+const normalizeTags = (tags: string[]) => Array.from(new Set(tags.map(t => t.trim()).filter(Boolean)));
+
+// Rewrites the tags of every prompt in one transaction, then reindexes the ones that changed
+const rewriteTags = (rewrite: (tags: string[]) => string[]): Promise<void> => transaction([STORES.PROMPTS], 'readwrite', async tx => {
+    const prompts = tx.objectStore(STORES.PROMPTS);
+    const records = await requestToPromise<StoredPrompt[]>(prompts.getAll());
+    const changed: StoredPrompt[] = [];
+    records.forEach(record => {
+        const tags = normalizeTags(rewrite(record.tags || []));
+        if (tags.join('\u0000') === (record.tags || []).join('\u0000')) return;
+        const updated = { ...record, tags };
+        prompts.put(updated);
+        changed.push(updated);
+    });
+    return changed;
+}).then(changed => changed.forEach(indexPrompt));
+
+// Drops an item id from every collection that lists it
+const removeFromCollections = async (tx: IDBTransaction, indexName: 'promptIds' | 'workflowIds', id: string) => {
+    const collections = tx.objectStore(STORES.COLLECTIONS);
+    const records = await requestToPromise<Collection[]>(collections.index(indexName).getAll(id));
+    records.forEach(c => collections.put({ ...c, [indexName]: c[indexName].filter(itemId => itemId !== id) }));
+};
+
+// --- Migration & Seed ---
+
+const migrateLegacyStorage = async (database: IDBDatabase) => {
+    const legacyPrompts = localStorage.getItem(STORAGE_KEYS.PROMPTS);
+    const legacyWorkflows = localStorage.getItem(STORAGE_KEYS.WORKFLOWS);
+    if (!legacyPrompts && !legacyWorkflows) return;
+
+    try {
+        const prompts: Prompt[] = legacyPrompts ? JSON.parse(legacyPrompts) : [];
+        const workflows: Workflow[] = legacyWorkflows ? JSON.parse(legacyWorkflows) : [];
+        await runTransaction(database, [STORES.PROMPTS, STORES.PROMPT_VERSIONS, STORES.WORKFLOWS], 'readwrite', async tx => {
+            prompts.forEach(p => putPromptWithHistory(tx, p));
+            workflows.forEach(w => tx.objectStore(STORES.WORKFLOWS).put(w));
+        });
+        // Only drop the legacy keys once everything is safely committed
+        localStorage.removeItem(STORAGE_KEYS.PROMPTS);
+        localStorage.removeItem(STORAGE_KEYS.WORKFLOWS);
+    } catch (e) {
+        console.error("Legacy storage migration failed; localStorage data left in place", e);
     }
 };
 
-// --- Mock Database Implementation ---
+const seedIfEmpty = async (database: IDBDatabase) => {
+    await runTransaction(database, [STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readwrite', async tx => {
+        const count = await requestToPromise(tx.objectStore(STORES.PROMPTS).count());
+        if (count === 0) putPromptWithHistory(tx, { ...SEED_PROMPT, updatedAt: Date.now() });
+    });
+};
+
+// --- Database API ---
 
 export const db = {
   prompts: {
-    getAll: (): Prompt[] => {
-      const data = localStorage.getItem(STORAGE_KEYS.PROMPTS);
-      const prompts = data ? JSON.parse(data) : [];
+    getAll: (): Promise<Prompt[]> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readonly', async tx => {
+      const records = await requestToPromise<StoredPrompt[]>(tx.objectStore(STORES.PROMPTS).getAll());
+      const versions = await requestToPromise<StoredPromptVersion[]>(tx.objectStore(STORES.PROMPT_VERSIONS).getAll());
+
+      const historyById = new Map<string, PromptVersion[]>();
+      versions.forEach(({ promptId, ...version }) => historyById.set(promptId, [...(historyById.get(promptId) || []), version]));
+
       // Sort by updated recently
-      return prompts.sort((a: Prompt, b: Prompt) => b.updatedAt - a.updatedAt);
-    },
-    getById: (id: string): Prompt | undefined => {
-      const prompts = db.prompts.getAll();
-      return prompts.find(p => p.id === id);
-    },
-    save: (prompt: Prompt): void => {
-      const prompts = db.prompts.getAll();
-      const index = prompts.findIndex(p => p.id === prompt.id);
-      
+      return records
+        .map(p => ({ ...p, history: (historyById.get(p.id) || []).sort((a, b) => b.version - a.version) }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    }).then(prompts => {
+      if (!isSearchIndexReady()) buildSearchIndex(prompts);
+      return prompts;
+    }),
+    getById: (id: string): Promise<Prompt | undefined> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readonly', async tx => {
+      const record = await requestToPromise<StoredPrompt | undefined>(tx.objectStore(STORES.PROMPTS).get(id));
+      if (!record) return undefined;
+      return { ...record, history: await loadHistory(tx.objectStore(STORES.PROMPT_VERSIONS), id) };
+    }),
+    getByTag: (tag: string): Promise<StoredPrompt[]> => transaction([STORES.PROMPTS], 'readonly', async tx => {
+      return requestToPromise<StoredPrompt[]>(tx.objectStore(STORES.PROMPTS).index('tags').getAll(tag));
+    }),
+    // Resolves to the prompt as stored, with its version and history brought up to date.
+    // A content or SFL change snapshots the previous head into history and starts a new version on the same branch;
+    // without a description, SFL changes are summarized field by field.
+    save: (prompt: Prompt, options: { changeDescription?: string } = {}): Promise<Prompt> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readwrite', async tx => {
+      const prompts = tx.objectStore(STORES.PROMPTS);
+      const versions = tx.objectStore(STORES.PROMPT_VERSIONS);
+      const existing = await requestToPromise<StoredPrompt | undefined>(prompts.get(prompt.id));
+
+      if (!existing) {
+        putPromptWithHistory(tx, prompt);
+        return prompt;
+      }
+
       // Versioning Logic
-      if (index >= 0) {
-        const existing = prompts[index];
-        // Only version if content or SFL changed substantially
-        if (existing.content !== prompt.content) {
-            prompt.version = existing.version + 1;
-            prompt.history = [
-                {
-                    version: existing.version,
-                    content: existing.content,
-                    sfl: existing.sfl,
-                    timestamp: existing.updatedAt,
-                    changeDescription: 'Auto-save update'
-                },
-                ...existing.history
-            ];
-        } else {
-             // Preserve history if just metadata update
-            prompt.history = existing.history;
-            prompt.version = existing.version;
-        }
-        prompts[index] = prompt;
+      let saved: Prompt;
+      // Only version if content or SFL changed
+      if (existing.content !== prompt.content || diffSFL(existing.sfl, prompt.sfl).length > 0) {
+          versions.put(snapshotHead(existing));
+          saved = {
+              ...prompt,
+              version: existing.version + 1,
+              branch: existing.branch,
+              parentVersion: existing.version,
+              versionTags: [],
+              changeDescription: options.changeDescription || summarizeSFLChanges(existing.sfl, prompt.sfl)
+          };
       } else {
-        prompts.push(prompt);
+          // Preserve history if just metadata update
+          saved = { ...prompt, version: existing.version };
       }
-      
-      localStorage.setItem(STORAGE_KEYS.PROMPTS, JSON.stringify(prompts));
-    },
-    delete: (id: string): void => {
-      const prompts = db.prompts.getAll().filter(p => p.id !== id);
-      localStorage.setItem(STORAGE_KEYS.PROMPTS, JSON.stringify(prompts));
-    }
+
+      const { history: _history, ...record } = saved;
+      prompts.put(record);
+      return { ...saved, history: await loadHistory(versions, prompt.id) };
+    }).then(indexed),
+    // Stores uncommitted editor state on the prompt without creating a version
+    saveDraft: (promptId: string, draft: PromptDraft): Promise<void> => transaction([STORES.PROMPTS], 'readwrite', async tx => {
+      const prompts = tx.objectStore(STORES.PROMPTS);
+      const existing = await requestToPromise<StoredPrompt | undefined>(prompts.get(promptId));
+      if (existing) prompts.put({ ...existing, draft });
+    }),
+    // Makes `version` the content of a new head; the current head stays in history, so nothing is lost.
+    // With `branch` set this forks onto that branch, otherwise it restores onto the current one.
+    checkout: (promptId: string, version: number, options: { branch?: string } = {}): Promise<Prompt> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readwrite', async tx => {
+      const prompts = tx.objectStore(STORES.PROMPTS);
+      const versions = tx.objectStore(STORES.PROMPT_VERSIONS);
+      const existing = await requestToPromise<StoredPrompt | undefined>(prompts.get(promptId));
+      if (!existing) throw new Error(`Prompt ${promptId} not found.`);
+
+      const target = version === existing.version
+          ? existing
+          : await requestToPromise<StoredPromptVersion | undefined>(versions.get([promptId, version]));
+      if (!target) throw new Error(`Version ${version} not found.`);
+
+      const branch = options.branch?.trim();
+      versions.put(snapshotHead(existing));
+      const head: StoredPrompt = {
+          ...existing,
+          content: target.content,
+          sfl: target.sfl,
+          version: existing.version + 1,
+          branch: branch || existing.branch,
+          parentVersion: version,
+          versionTags: [],
+          changeDescription: branch ? `Forked v${version} into ${branch}` : `Restored v${version}`,
+          draft: undefined,
+          updatedAt: Date.now()
+      };
+      prompts.put(head);
+      return { ...head, history: await loadHistory(versions, promptId) };
+    }).then(indexed),
+    // Sets a version's tags and description. Tags are unique per prompt, so they move off any other version.
+    tagVersion: (promptId: string, version: number, tags: string[], changeDescription?: string): Promise<Prompt> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS], 'readwrite', async tx => {
+      const prompts = tx.objectStore(STORES.PROMPTS);
+      const versions = tx.objectStore(STORES.PROMPT_VERSIONS);
+      const head = await requestToPromise<StoredPrompt | undefined>(prompts.get(promptId));
+      if (!head) throw new Error(`Prompt ${promptId} not found.`);
+      const records = await requestToPromise<StoredPromptVersion[]>(versions.index('promptId').getAll(promptId));
+
+      const nextTags = normalizeTags(tags);
+      const strip = (existing?: string[]) => (existing || []).filter(t => !nextTags.includes(t));
+
+      records.forEach(record => {
+          if (record.version === version) {
+              versions.put({ ...record, versionTags: nextTags, changeDescription: changeDescription ?? record.changeDescription });
+          } else if (record.versionTags?.some(t => nextTags.includes(t))) {
+              versions.put({ ...record, versionTags: strip(record.versionTags) });
+          }
+      });
+
+      const updatedHead: StoredPrompt = head.version === version
+          ? { ...head, versionTags: nextTags, changeDescription: changeDescription ?? head.changeDescription }
+          : { ...head, versionTags: strip(head.versionTags) };
+      prompts.put(updatedHead);
+      return { ...updatedHead, history: await loadHistory(versions, promptId) };
+    }),
+    delete: (id: string): Promise<void> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS, STORES.EVALUATIONS, STORES.TEST_RUNS, STORES.COLLECTIONS], 'readwrite', async tx => {
+      tx.objectStore(STORES.PROMPTS).delete(id);
+      // Everything recorded against the prompt goes with it
+      for (const storeName of [STORES.PROMPT_VERSIONS, STORES.EVALUATIONS, STORES.TEST_RUNS]) {
+        const store = tx.objectStore(storeName);
+        const keys = await requestToPromise(store.index('promptId').getAllKeys(id));
+        keys.forEach(key => store.delete(key));
+      }
+      await removeFromCollections(tx, 'promptIds', id);
+    }).then(() => removeFromIndex(id))
   },
   workflows: {
-    getAll: (): Workflow[] => {
-        const data = localStorage.getItem(STORAGE_KEYS.WORKFLOWS);
-        return data ? JSON.parse(data) : [];
-    },
-    save: (workflow: Workflow): void => {
-        const flows = db.workflows.getAll();
-        const index = flows.findIndex(w => w.id === workflow.id);
-        if (index >= 0) {
-            flows[index] = workflow;
-        } else {
-            flows.push(workflow);
-        }
-        localStorage.setItem(STORAGE_KEYS.WORKFLOWS, JSON.stringify(flows));
+    getAll: (): Promise<Workflow[]> => transaction([STORES.WORKFLOWS], 'readonly', async tx => {
+        return requestToPromise<Workflow[]>(tx.objectStore(STORES.WORKFLOWS).getAll());
+    }),
+    getById: (id: string): Promise<Workflow | undefined> => transaction([STORES.WORKFLOWS], 'readonly', async tx => {
+        return requestToPromise<Workflow | undefined>(tx.objectStore(STORES.WORKFLOWS).get(id));
+    }),
+    save: (workflow: Workflow): Promise<void> => transaction([STORES.WORKFLOWS], 'readwrite', async tx => {
+        tx.objectStore(STORES.WORKFLOWS).put({ ...workflow, updatedAt: Date.now() });
+    }),
+    delete: (id: string): Promise<void> => transaction([STORES.WORKFLOWS, STORES.RUNS, STORES.COLLECTIONS], 'readwrite', async tx => {
+        tx.objectStore(STORES.WORKFLOWS).delete(id);
+        const runs = tx.objectStore(STORES.RUNS);
+        const keys = await requestToPromise(runs.index('workflowId').getAllKeys(id));
+        keys.forEach(key => runs.delete(key));
+        await removeFromCollections(tx, 'workflowIds', id);
+    })
+  },
+  tags: {
+    // Replaces every `from` tag with `to` across the library; renaming is merging a single tag
+    merge: (from: string[], to: string): Promise<void> => {
+        const target = to.trim();
+        if (!target) return Promise.reject(new Error("Tag name cannot be empty."));
+        return rewriteTags(tags => tags.map(t => from.includes(t) ? target : t));
     },
-    delete: (id: string): void => {
-        const flows = db.workflows.getAll().filter(w => w.id !== id);
-        localStorage.setItem(STORAGE_KEYS.WORKFLOWS, JSON.stringify(flows));
-    }
+    rename: (from: string, to: string): Promise<void> => db.tags.merge([from], to),
+    delete: (tag: string): Promise<void> => rewriteTags(tags => tags.filter(t => t !== tag))
+  },
+  collections: {
+    getAll: (): Promise<Collection[]> => transaction([STORES.COLLECTIONS], 'readonly', async tx => {
+        const records = await requestToPromise<Collection[]>(tx.objectStore(STORES.COLLECTIONS).getAll());
+        return records.sort((a, b) => a.name.localeCompare(b.name));
+    }),
+    save: (collection: Collection): Promise<Collection> => transaction([STORES.COLLECTIONS], 'readwrite', async tx => {
+        const record = { ...collection, name: collection.name.trim() || 'Untitled Collection', updatedAt: Date.now() };
+        tx.objectStore(STORES.COLLECTIONS).put(record);
+        return record;
+    }),
+    delete: (id: string): Promise<void> => transaction([STORES.COLLECTIONS], 'readwrite', async tx => {
+        tx.objectStore(STORES.COLLECTIONS).delete(id);
+    })
+  },
+  runs: {
+    // Newest first
+    getByWorkflow: (workflowId: string): Promise<WorkflowRun[]> => transaction([STORES.RUNS], 'readonly', async tx => {
+        const runs = await requestToPromise<WorkflowRun[]>(tx.objectStore(STORES.RUNS).index('workflowId').getAll(workflowId));
+        return runs.sort((a, b) => b.startedAt - a.startedAt);
+    }),
+    getById: (id: string): Promise<WorkflowRun | undefined> => transaction([STORES.RUNS], 'readonly', async tx => {
+        return requestToPromise<WorkflowRun | undefined>(tx.objectStore(STORES.RUNS).get(id));
+    }),
+    save: (run: WorkflowRun): Promise<void> => transaction([STORES.RUNS], 'readwrite', async tx => {
+        tx.objectStore(STORES.RUNS).put(run);
+    })
+  },
+  evaluations: {
+    // Newest first
+    getByPrompt: (promptId: string): Promise<Evaluation[]> => transaction([STORES.EVALUATIONS], 'readonly', async tx => {
+        const evaluations = await requestToPromise<Evaluation[]>(tx.objectStore(STORES.EVALUATIONS).index('promptId').getAll(promptId));
+        return evaluations.sort((a, b) => b.createdAt - a.createdAt);
+    }),
+    save: (evaluation: Evaluation): Promise<void> => transaction([STORES.EVALUATIONS], 'readwrite', async tx => {
+        tx.objectStore(STORES.EVALUATIONS).put(evaluation);
+    }),
+    delete: (id: string): Promise<void> => transaction([STORES.EVALUATIONS], 'readwrite', async tx => {
+        tx.objectStore(STORES.EVALUATIONS).delete(id);
+    })
+  },
+  testRuns: {
+    // Newest first
+    getByPrompt: (promptId: string): Promise<TestRun[]> => transaction([STORES.TEST_RUNS], 'readonly', async tx => {
+        const runs = await requestToPromise<TestRun[]>(tx.objectStore(STORES.TEST_RUNS).index('promptId').getAll(promptId));
+        return runs.sort((a, b) => b.startedAt - a.startedAt);
+    }),
+    save: (run: TestRun): Promise<void> => transaction([STORES.TEST_RUNS], 'readwrite', async tx => {
+        tx.objectStore(STORES.TEST_RUNS).put(run);
+    })
+  },
+  usage: {
+    record: (record: UsageRecord): Promise<void> => transaction([STORES.USAGE], 'readwrite', async tx => {
+        tx.objectStore(STORES.USAGE).put(record);
+    }),
+    // Oldest first
+    getSince: (timestamp: number): Promise<UsageRecord[]> => transaction([STORES.USAGE], 'readonly', async tx => {
+        return requestToPromise<UsageRecord[]>(tx.objectStore(STORES.USAGE).index('timestamp').getAll(IDBKeyRange.lowerBound(timestamp)));
+    }),
+    getByPrompt: (promptId: string): Promise<UsageRecord[]> => transaction([STORES.USAGE], 'readonly', async tx => {
+        return requestToPromise<UsageRecord[]>(tx.objectStore(STORES.USAGE).index('promptId').getAll(promptId));
+    }),
+    getByRun: (runId: string): Promise<UsageRecord[]> => transaction([STORES.USAGE], 'readonly', async tx => {
+        return requestToPromise<UsageRecord[]>(tx.objectStore(STORES.USAGE).index('runId').getAll(runId));
+    }),
+    clear: (): Promise<void> => transaction([STORES.USAGE], 'readwrite', async tx => {
+        tx.objectStore(STORES.USAGE).clear();
+    })
+  },
+  blobs: {
+    put: (file: Blob & { name?: string }): Promise<string> => transaction([STORES.BLOBS], 'readwrite', async tx => {
+        const record: StoredBlob = {
+            id: `blob-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            name: file.name || 'blob',
+            type: file.type,
+            data: file,
+            createdAt: Date.now()
+        };
+        tx.objectStore(STORES.BLOBS).put(record);
+        return record.id;
+    }),
+    get: (id: string): Promise<StoredBlob | undefined> => transaction([STORES.BLOBS], 'readonly', async tx => {
+        return requestToPromise<StoredBlob | undefined>(tx.objectStore(STORES.BLOBS).get(id));
+    }),
+    delete: (id: string): Promise<void> => transaction([STORES.BLOBS], 'readwrite', async tx => {
+        tx.objectStore(STORES.BLOBS).delete(id);
+    })
   },
   settings: {
       get: (): UserSettings => {
           const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
           if (data) {
-              const parsed = JSON.parse(data);
+              // API keys are only read through the vault (see getLegacyApiKeys)
+              const { ollamaBaseUrl, apiKeys, ...parsed } = JSON.parse(data);
               // Deep merge default settings to ensure new keys exist
-              return { 
-                  ...DEFAULT_SETTINGS, 
-                  ...parsed, 
-                  apiKeys: { ...DEFAULT_SETTINGS.apiKeys, ...parsed.apiKeys },
+              return {
+                  ...DEFAULT_SETTINGS,
+                  ...parsed,
+                  // Pre-registry settings kept the Ollama endpoint in its own field
+                  baseUrls: { ...DEFAULT_SETTINGS.baseUrls, ...(ollamaBaseUrl ? { ollama: ollamaBaseUrl } : {}), ...parsed.baseUrls },
                   generation: { ...DEFAULT_SETTINGS.generation, ...parsed.generation },
                   analysis: { ...DEFAULT_SETTINGS.analysis, ...parsed.analysis },
+                  network: { ...DEFAULT_SETTINGS.network, ...parsed.network, timeoutsMs: { ...parsed.network?.timeoutsMs } },
+                  budget: { ...DEFAULT_SETTINGS.budget, ...parsed.budget },
+                  pricing: { ...parsed.pricing },
                   live: { ...DEFAULT_SETTINGS.live, ...parsed.live }
               };
           }
           return DEFAULT_SETTINGS;
       },
       save: (settings: UserSettings) => {
-          localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+          // Plaintext keys from before the vault stay put until the vault takes them over
+          const apiKeys = db.settings.getLegacyApiKeys();
+          const stored = Object.keys(apiKeys).length > 0 ? { ...settings, apiKeys } : settings;
+          localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(stored));
+      },
+      // Keys saved in plaintext before the encrypted vault existed
+      getLegacyApiKeys: (): ApiKeys => {
+          const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+          return (data && JSON.parse(data).apiKeys) || {};
+      },
+      clearLegacyApiKeys: () => {
+          const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+          if (!data) return;
+          const { apiKeys, ...rest } = JSON.parse(data);
+          localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(rest));
       }
   },
   system: {
-    exportData: () => {
-        const data = {
-            prompts: db.prompts.getAll(),
-            workflows: db.workflows.getAll(),
-            settings: db.settings.get(),
-            timestamp: Date.now(),
-            version: '2.0'
-        };
-        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `sfl-studio-backup-${new Date().toISOString().slice(0, 10)}.json`;
-        a.click();
-        URL.revokeObjectURL(url);
-    },
-    importData: async (file: File) => {
-        const text = await file.text();
-        try {
-            const data = JSON.parse(text);
-            if (data.prompts) localStorage.setItem(STORAGE_KEYS.PROMPTS, JSON.stringify(data.prompts));
-            if (data.workflows) localStorage.setItem(STORAGE_KEYS.WORKFLOWS, JSON.stringify(data.workflows));
-            if (data.settings) localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(data.settings));
-            return true;
-        } catch (e) {
-            console.error("Import failed", e);
-            return false;
+    // Writes imported records in one transaction. A prompt replaces any stored prompt with the same id, history included.
+    importRecords: (records: { prompts: Prompt[]; workflows: Workflow[]; collections: Collection[] }): Promise<void> => transaction([STORES.PROMPTS, STORES.PROMPT_VERSIONS, STORES.WORKFLOWS, STORES.COLLECTIONS], 'readwrite', async tx => {
+        const versions = tx.objectStore(STORES.PROMPT_VERSIONS);
+        for (const prompt of records.prompts) {
+            const keys = await requestToPromise(versions.index('promptId').getAllKeys(prompt.id));
+            keys.forEach(key => versions.delete(key));
+            putPromptWithHistory(tx, prompt);
         }
-    }
+        records.workflows.forEach(w => tx.objectStore(STORES.WORKFLOWS).put(w));
+        records.collections.forEach(c => tx.objectStore(STORES.COLLECTIONS).put(c));
+    }).then(() => records.prompts.forEach(p => indexPrompt(p)))
   }
 };
-
-// Initial Seed
-if (db.prompts.getAll().length === 0) {
-    db.prompts.save({
-        id: 'demo-1',
-        title: 'API Documentation Generator',
-        tags: ['Engineering', 'Docs'],
-        updatedAt: Date.now(),
-        version: 1,
-        history: [],
-        content: 'Write a technical documentation overview for a REST API that handles user authentication. The tone should be strictly professional and concise.',
-        sfl: {
-            field: { domain: 'Software Engineering', process: 'Documentation' },
-            tenor: { senderRole: 'Technical Writer', receiverRole: 'Developer', powerStatus: 'Equal', affect: 'Professional' },
-            mode: { channel: 'Written', medium: 'Markdown', rhetoricalMode: 'Didactic' }
-        }
-    });
-}
\ No newline at end of file
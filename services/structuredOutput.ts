@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { z } from "zod";
+import { ProviderId, UsageScope } from "../types";
+import { generateTextStandard } from "./aiFactory";
+import { StructuredOutputError } from "./errors";
+import { Validated } from "../schemas";
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export interface StructuredRequest<S extends z.ZodTypeAny> {
+    provider: ProviderId;
+    model: string;
+    systemInstruction: string; // Should describe the expected JSON shape
+    prompt: string;
+    schema: S;
+    responseSchema?: Record<string, unknown>; // JSON Schema for providers that can enforce one; `schema` still validates
+    maxRepairs?: number;
+    scope?: UsageScope; // Every repair round-trip is recorded against it
+}
+
+// --- Parsing ---
+
+type ParseResult<S extends z.ZodTypeAny> = { data: Validated<z.infer<S>> } | { issues: string[] };
+
+// Accepts bare JSON, fenced code blocks, or JSON surrounded by prose
+const extractJson = (text: string): unknown => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1].trim() : trimmed;
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        const start = candidate.indexOf('{');
+        const end = candidate.lastIndexOf('}');
+        if (start === -1 || end <= start) throw new Error('No JSON object found in the response.');
+        return JSON.parse(candidate.slice(start, end + 1));
+    }
+};
+
+const parseWithSchema = <S extends z.ZodTypeAny>(text: string, schema: S): ParseResult<S> => {
+    let json: unknown;
+    try {
+        json = extractJson(text);
+    } catch (e: any) {
+        return { issues: [`Invalid JSON: ${e?.message || 'could not parse response'}`] };
+    }
+    const result = schema.safeParse(json);
+    if ('error' in result) return { issues: result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`) };
+    return { data: result.data as Validated<z.infer<S>> };
+};
+
+const buildRepairPrompt = (originalPrompt: string, previousOutput: string, issues: string[]) => `
+${originalPrompt}
+
+Your previous response could not be used:
+${previousOutput}
+
+It failed validation with these errors:
+${issues.map(i => `- ${i}`).join('\n')}
+
+Return ONLY the corrected JSON object, with no commentary or code fences.
+`;
+
+// --- Generation ---
+
+// Requests JSON (native JSON mode where the provider has one), validates it, and sends validation errors
+// back to the model up to `maxRepairs` times. Throws StructuredOutputError if it never validates.
+export const generateStructured = async <S extends z.ZodTypeAny>({ provider, model, systemInstruction, prompt, schema, responseSchema, maxRepairs = DEFAULT_MAX_REPAIRS, scope }: StructuredRequest<S>): Promise<Validated<z.infer<S>>> => {
+    let currentPrompt = prompt;
+    let lastOutput = '';
+    let lastIssues: string[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        lastOutput = await generateTextStandard(provider, model, systemInstruction, currentPrompt, { jsonMode: true, responseSchema, scope });
+        const parsed = parseWithSchema(lastOutput, schema);
+        if ('data' in parsed) return parsed.data;
+
+        lastIssues = parsed.issues;
+        console.warn(`Structured output attempt ${attempt} failed`, lastIssues);
+        currentPrompt = buildRepairPrompt(prompt, lastOutput, lastIssues);
+    }
+
+    throw new StructuredOutputError(
+        `Model output did not match the expected format after ${maxRepairs + 1} attempts.`,
+        lastIssues,
+        lastOutput,
+        maxRepairs + 1
+    );
+};
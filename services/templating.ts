@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PromptVariable, VariableBinding } from "../types";
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+export class TemplateError extends Error {
+    missing: string[];
+
+    constructor(message: string, missing: string[] = []) {
+        super(message);
+        this.name = 'TemplateError';
+        this.missing = missing;
+    }
+}
+
+// --- Discovery ---
+
+export const extractVariableNames = (content: string): string[] => {
+    const names = Array.from(content.matchAll(VARIABLE_PATTERN), m => m[1]);
+    return Array.from(new Set(names));
+};
+
+// Aligns declarations with the variables actually referenced in content, keeping existing settings
+export const syncVariables = (content: string, declared: PromptVariable[] = []): PromptVariable[] => {
+    return extractVariableNames(content).map(name =>
+        declared.find(v => v.name === name) || { name, type: 'string', required: true }
+    );
+};
+
+// --- Values ---
+
+export const getPath = (obj: any, path: string) =>
+    path.split('.').reduce((acc, key) => (acc === undefined || acc === null ? undefined : acc[key]), obj);
+
+const coerce = (variable: PromptVariable, raw: any): any => {
+    if (typeof raw !== 'string') return raw;
+    switch (variable.type) {
+        case 'number': {
+            const n = Number(raw);
+            if (raw.trim() === '' || Number.isNaN(n)) throw new TemplateError(`Variable "${variable.name}" expects a number, got "${raw}".`);
+            return n;
+        }
+        case 'boolean':
+            if (raw !== 'true' && raw !== 'false') throw new TemplateError(`Variable "${variable.name}" expects true or false, got "${raw}".`);
+            return raw === 'true';
+        case 'json':
+            try {
+                return JSON.parse(raw);
+            } catch {
+                throw new TemplateError(`Variable "${variable.name}" expects valid JSON.`);
+            }
+        default:
+            return raw;
+    }
+};
+
+const stringify = (value: any) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Resolves workflow bindings against the run context; unbound variables are simply absent
+export const resolveBindings = (bindings: Record<string, VariableBinding> = {}, context: Record<string, any>): Record<string, any> => {
+    const values: Record<string, any> = {};
+    Object.entries(bindings).forEach(([name, binding]) => {
+        const value = binding.source === 'literal' ? binding.value : getPath(context, binding.key);
+        if (value !== undefined) values[name] = value;
+    });
+    return values;
+};
+
+// --- Rendering ---
+
+export const renderTemplate = (content: string, variables: PromptVariable[] = [], values: Record<string, any> = {}): string => {
+    const declarations = syncVariables(content, variables);
+    const resolved: Record<string, string> = {};
+    const missing: string[] = [];
+
+    declarations.forEach(variable => {
+        const raw = values[variable.name] !== undefined ? values[variable.name] : variable.defaultValue;
+        if (raw === undefined || raw === '') {
+            if (variable.required) missing.push(variable.name);
+            resolved[variable.name] = '';
+            return;
+        }
+        resolved[variable.name] = stringify(coerce(variable, raw));
+    });
+
+    if (missing.length > 0) {
+        throw new TemplateError(`Missing required variable${missing.length > 1 ? 's' : ''}: ${missing.map(n => `{{${n}}}`).join(', ')}`, missing);
+    }
+
+    return content.replace(VARIABLE_PATTERN, (_, name: string) => resolved[name] ?? '');
+};
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect, vi } from "vitest";
+import { TestRun } from "../types";
+import { compareRuns } from "./testRunner";
+
+vi.mock("./storage", () => ({ db: {} }));
+vi.mock("./aiFactory", () => ({ generateTextStandard: vi.fn() }));
+vi.mock("./orchestrator", () => ({ analyzePromptWithSFL: vi.fn() }));
+
+const testRun = (results: Record<string, boolean>): TestRun => ({
+    id: 'run',
+    promptId: 'p',
+    promptVersion: 1,
+    provider: 'google',
+    model: 'm',
+    startedAt: 0,
+    results: Object.entries(results).map(([caseId, passed]) => ({ caseId, caseName: caseId, passed, output: '', assertions: [] }))
+});
+
+describe("compareRuns", () => {
+    it("classifies each case against the earlier run", () => {
+        const previous = testRun({ kept: true, broke: true, repaired: false, stillFailing: false, removed: true });
+        const current = testRun({ kept: true, broke: false, repaired: true, stillFailing: false, added: true });
+        expect(compareRuns(current, previous)).toEqual({
+            kept: 'unchanged',
+            broke: 'regressed',
+            repaired: 'fixed',
+            stillFailing: 'unchanged',
+            added: 'new'
+        });
+    });
+
+    it("marks every case new without an earlier run", () => {
+        expect(compareRuns(testRun({ a: true, b: false }))).toEqual({ a: 'new', b: 'new' });
+    });
+});
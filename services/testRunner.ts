@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Prompt, TestCase, TestAssertion, AssertionResult, TestCaseResult, TestRun } from "../types";
+import { db } from "./storage";
+import { generateTextStandard } from "./aiFactory";
+import { analyzePromptWithSFL } from "./orchestrator";
+import { renderTemplate } from "./templating";
+import { validateJsonSchema } from "./jsonSchema";
+
+type SFLProfile = Prompt['sfl'];
+
+export interface TestRunOptions {
+    onCaseComplete?: (result: TestCaseResult) => void;
+}
+
+export type CaseChange = 'new' | 'fixed' | 'regressed' | 'unchanged';
+
+// --- Version Lookup ---
+
+// The current prompt counts as its own latest version
+export const getVersionSnapshot = (prompt: Prompt, version: number): { content: string; sfl: SFLProfile } | undefined => {
+    if (version === prompt.version) return { content: prompt.content, sfl: prompt.sfl };
+    const entry = prompt.history.find(h => h.version === version);
+    return entry ? { content: entry.content, sfl: entry.sfl } : undefined;
+};
+
+// --- Assertions ---
+
+const parseJson = (output: string) => {
+    const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+    return JSON.parse(fenced ? fenced[1] : output);
+};
+
+const checkAssertion = async (assertion: TestAssertion, output: string, sfl: SFLProfile, promptId: string): Promise<AssertionResult> => {
+    const result = (passed: boolean, message: string): AssertionResult => ({ assertionId: assertion.id, passed, message });
+
+    switch (assertion.type) {
+        case 'contains': {
+            const haystack = assertion.caseSensitive ? output : output.toLowerCase();
+            const needle = assertion.caseSensitive ? assertion.value : assertion.value.toLowerCase();
+            return haystack.includes(needle)
+                ? result(true, `Contains "${assertion.value}"`)
+                : result(false, `Does not contain "${assertion.value}"`);
+        }
+        case 'regex': {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(assertion.pattern, assertion.flags);
+            } catch (e: any) {
+                return result(false, `Invalid pattern: ${e?.message}`);
+            }
+            return regex.test(output)
+                ? result(true, `Matches /${assertion.pattern}/${assertion.flags || ''}`)
+                : result(false, `Does not match /${assertion.pattern}/${assertion.flags || ''}`);
+        }
+        case 'jsonSchema': {
+            let schema: any;
+            try {
+                schema = JSON.parse(assertion.schema);
+            } catch {
+                return result(false, 'Assertion schema is not valid JSON');
+            }
+            let value: unknown;
+            try {
+                value = parseJson(output);
+            } catch {
+                return result(false, 'Output is not valid JSON');
+            }
+            const errors = validateJsonSchema(value, schema);
+            return errors.length === 0 ? result(true, 'Output matches schema') : result(false, errors.slice(0, 3).join('; '));
+        }
+        case 'maxLength':
+            return output.length <= assertion.value
+                ? result(true, `${output.length} ≤ ${assertion.value} characters`)
+                : result(false, `${output.length} > ${assertion.value} characters`);
+        case 'sflAlignment': {
+            // LLM-judged: scores the output against the version's SFL profile
+            const analysis = await analyzePromptWithSFL(output, sfl, { source: 'test', promptId });
+            return analysis.score >= assertion.threshold
+                ? result(true, `SFL score ${analysis.score} ≥ ${assertion.threshold}`)
+                : result(false, `SFL score ${analysis.score} < ${assertion.threshold}`);
+        }
+    }
+};
+
+// --- Runner ---
+
+const runCase = async (testCase: TestCase, prompt: Prompt, snapshot: { content: string; sfl: SFLProfile }): Promise<TestCaseResult> => {
+    const { provider, model } = db.settings.get().generation;
+    const base = { caseId: testCase.id, caseName: testCase.name };
+
+    let output: string;
+    try {
+        const systemInstruction = renderTemplate(snapshot.content, prompt.variables, testCase.inputs);
+        output = await generateTextStandard(provider, model, systemInstruction, testCase.userInput?.trim() || "Begin.", { scope: { source: 'test', promptId: prompt.id } });
+    } catch (e: any) {
+        return { ...base, passed: false, output: '', assertions: [], error: e?.message || 'Generation failed.' };
+    }
+
+    const assertions: AssertionResult[] = [];
+    for (const assertion of testCase.assertions) {
+        try {
+            assertions.push(await checkAssertion(assertion, output, snapshot.sfl, prompt.id));
+        } catch (e: any) {
+            assertions.push({ assertionId: assertion.id, passed: false, message: `Check failed: ${e?.message || 'unknown error'}` });
+        }
+    }
+    return { ...base, passed: assertions.every(a => a.passed), output, assertions };
+};
+
+// Runs every case of the prompt's suite against one version, sequentially, and records the run
+export const runTestSuite = async (prompt: Prompt, version: number, options: TestRunOptions = {}): Promise<TestRun> => {
+    const snapshot = getVersionSnapshot(prompt, version);
+    if (!snapshot) throw new Error(`Version ${version} not found in history.`);
+    const { provider, model } = db.settings.get().generation;
+
+    const run: TestRun = {
+        id: `test-${Date.now()}`,
+        promptId: prompt.id,
+        promptVersion: version,
+        provider,
+        model,
+        startedAt: Date.now(),
+        results: []
+    };
+
+    for (const testCase of prompt.testSuite || []) {
+        const result = await runCase(testCase, prompt, snapshot);
+        run.results.push(result);
+        options.onCaseComplete?.(result);
+    }
+
+    await db.testRuns.save(run);
+    return run;
+};
+
+// --- Comparison ---
+
+// Per-case status change relative to an earlier run (matched by case id)
+export const compareRuns = (current: TestRun, previous?: TestRun): Record<string, CaseChange> => {
+    const changes: Record<string, CaseChange> = {};
+    current.results.forEach(result => {
+        const before = previous?.results.find(r => r.caseId === result.caseId);
+        if (!before) changes[result.caseId] = 'new';
+        else if (before.passed === result.passed) changes[result.caseId] = 'unchanged';
+        else changes[result.caseId] = result.passed ? 'fixed' : 'regressed';
+    });
+    return changes;
+};
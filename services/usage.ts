@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelPricing, ModelTarget, TokenUsage, UsageRecord, UsageScope } from "../types";
+import { db } from "./storage";
+import { getProvider, resolveConnection } from "./providers";
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+    period: BudgetPeriod;
+    limitUsd: number;
+    spentUsd: number;
+    level: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    unpricedCalls: number; // Calls whose model has no known price, so costUsd undercounts
+    estimatedCalls: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+    key: string;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    byDay: UsageGroup[]; // Oldest first
+    byPrompt: UsageGroup[]; // Most expensive first
+    byRun: UsageGroup[];
+    byModel: UsageGroup[];
+}
+
+const listeners = new Set<(record: UsageRecord, alerts: BudgetStatus[]) => void>();
+
+// --- Pricing ---
+
+export const pricingKey = ({ provider, model }: ModelTarget) => `${provider}/${model}`;
+
+// A price override from settings wins; otherwise the model's own pricing from the adapter or discovery
+export const resolvePricing = async (target: ModelTarget): Promise<ModelPricing | undefined> => {
+    const settings = db.settings.get();
+    const override = settings.pricing[pricingKey(target)];
+    if (override) return override;
+    try {
+        const adapter = getProvider(target.provider);
+        const models = await adapter.listModels(resolveConnection(adapter, settings));
+        return models.find(m => m.name === target.model)?.pricing;
+    } catch {
+        return undefined;
+    }
+};
+
+export const costOf = (usage: TokenUsage, pricing: ModelPricing) =>
+    (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+
+// --- Periods ---
+
+export const dayKey = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDay = (timestamp = Date.now()) => new Date(new Date(timestamp).setHours(0, 0, 0, 0)).getTime();
+
+const startOfMonth = (timestamp = Date.now()) => {
+    const d = new Date(timestamp);
+    return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+// --- Aggregation ---
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0, estimatedCalls: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.costUsd += record.costUsd || 0;
+    if (record.costUsd === undefined) totals.unpricedCalls++;
+    if (record.estimated) totals.estimatedCalls++;
+};
+
+const groupBy = (records: UsageRecord[], keyOf: (record: UsageRecord) => string | undefined): UsageGroup[] => {
+    const groups = new Map<string, UsageGroup>();
+    records.forEach(record => {
+        const key = keyOf(record);
+        if (!key) return;
+        if (!groups.has(key)) groups.set(key, { key, ...emptyTotals() });
+        addRecord(groups.get(key)!, record);
+    });
+    return Array.from(groups.values());
+};
+
+const byCost = (a: UsageGroup, b: UsageGroup) => b.costUsd - a.costUsd || b.calls - a.calls;
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+    const totals = emptyTotals();
+    records.forEach(record => addRecord(totals, record));
+    return {
+        totals,
+        byDay: groupBy(records, r => r.day).sort((a, b) => a.key.localeCompare(b.key)),
+        byPrompt: groupBy(records, r => r.promptId).sort(byCost),
+        byRun: groupBy(records, r => r.runId).sort(byCost),
+        byModel: groupBy(records, r => pricingKey(r)).sort(byCost)
+    };
+};
+
+// --- Budgets ---
+
+const levelFor = (spentUsd: number, limitUsd: number, alertAt: number): BudgetStatus['level'] =>
+    spentUsd >= limitUsd ? 'exceeded' : spentUsd >= limitUsd * alertAt ? 'warning' : 'ok';
+
+export const getBudgetStatus = async (): Promise<BudgetStatus[]> => {
+    const { budget } = db.settings.get();
+    const limits: [BudgetPeriod, number | undefined, number][] = [
+        ['daily', budget.dailyUsd, startOfDay()],
+        ['monthly', budget.monthlyUsd, startOfMonth()]
+    ];
+    const active = limits.filter(([, limit]) => !!limit);
+    if (active.length === 0) return [];
+
+    const records = await db.usage.getSince(Math.min(...active.map(([, , since]) => since)));
+    return active.map(([period, limitUsd, since]) => {
+        const spentUsd = records.filter(r => r.timestamp >= since).reduce((sum, r) => sum + (r.costUsd || 0), 0);
+        return { period, limitUsd, spentUsd, level: levelFor(spentUsd, limitUsd, budget.alertAt) };
+    });
+};
+
+// --- Recording ---
+
+// Listeners hear about every recorded call, plus any budgets that call pushed into a new level
+export const subscribeUsage = (listener: (record: UsageRecord, alerts: BudgetStatus[]) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Persists one provider call. Never throws: losing a usage record must not fail the call it describes.
+export const recordUsage = async (target: ModelTarget, usage: TokenUsage, scope?: UsageScope): Promise<void> => {
+    try {
+        const before = await getBudgetStatus();
+        const pricing = await resolvePricing(target);
+        const timestamp = Date.now();
+        const record: UsageRecord = {
+            id: `usage-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp,
+            day: dayKey(timestamp),
+            provider: target.provider,
+            model: target.model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            estimated: usage.estimated,
+            costUsd: pricing ? costOf(usage, pricing) : undefined,
+            source: scope?.source || 'generation',
+            promptId: scope?.promptId,
+            workflowId: scope?.workflowId,
+            runId: scope?.runId
+        };
+        await db.usage.record(record);
+
+        const after = await getBudgetStatus();
+        const alerts = after.filter(status => status.level !== 'ok' && before.find(b => b.period === status.period)?.level !== status.level);
+        listeners.forEach(listener => listener(record, alerts));
+    } catch (e) {
+        console.warn("Usage could not be recorded", e);
+    }
+};
+
+// --- Queries ---
+
+export const getPromptUsage = async (promptId: string) => summarizeUsage(await db.usage.getByPrompt(promptId)).totals;
+
+export const getRunUsage = async (runId: string) => summarizeUsage(await db.usage.getByRun(runId)).totals;
+
+export const formatUsd = (value: number) => value === 0 ? '$0.00' : value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createVault, lockVault, resetVault, redactSecrets, redactError } from "./vault";
+
+vi.mock("./storage", () => ({
+    db: { settings: { getLegacyApiKeys: () => ({ custom: 'my-own-server-token' }), clearLegacyApiKeys: () => {} } }
+}));
+
+// The vault persists to localStorage, which Node doesn't have
+const store = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+});
+
+afterEach(() => {
+    resetVault();
+});
+
+describe("redactSecrets", () => {
+    it("masks keys shaped like provider keys even while locked", () => {
+        const text = 'key=sk-ant-api03-abcdefgh and AIzaSyA1234567890abcdefghijkl and sk-proj-abcdefghijklmnop1234';
+        expect(redactSecrets(text)).toBe('key=sk-a…[redacted] and AIza…[redacted] and sk-p…[redacted]');
+    });
+
+    it("masks the stored keys while the vault is unlocked", async () => {
+        await createVault('correct horse battery');
+        expect(redactSecrets('Bearer my-own-server-token rejected')).toBe('Bearer my-o…[redacted] rejected');
+        lockVault();
+        expect(redactSecrets('Bearer my-own-server-token rejected')).toBe('Bearer my-own-server-token rejected');
+    });
+
+    it("leaves ordinary text alone", () => {
+        expect(redactSecrets('sk-short and ask-me-anything')).toBe('sk-short and ask-me-anything');
+    });
+});
+
+describe("redactError", () => {
+    it("scrubs the message in place", () => {
+        const error = new Error('401 for https://example.com/?key=AIzaSyA1234567890abcdefghijkl');
+        expect(redactError(error)).toBe(error);
+        expect(error.message).toBe('401 for https://example.com/?key=AIza…[redacted]');
+    });
+});
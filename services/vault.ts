@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiKeys, ProviderId } from "../types";
+import { VaultError } from "./errors";
+import { db } from "./storage";
+
+// API keys are encrypted at rest with AES-GCM under a key derived from the user's passphrase (PBKDF2-SHA256).
+// The derived key and decrypted keys live only in memory, and are dropped on lock, reload or idle timeout.
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+interface StoredVault {
+    version: 1;
+    iterations: number;
+    salt: string; // base64
+    iv: string; // base64, fresh for every write
+    ciphertext: string; // base64 JSON of ApiKeys
+}
+
+const VAULT_STORAGE_KEY = 'sfl_vault_v1';
+const PBKDF2_ITERATIONS = 310_000;
+export const IDLE_LOCK_MS = 15 * 60 * 1000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+let sessionKey: CryptoKey | null = null;
+let unlockedKeys: ApiKeys = {};
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<(status: VaultStatus) => void>();
+
+// --- Encoding ---
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Drops blank entries so cleared inputs don't linger as empty strings
+const compact = (keys: ApiKeys): ApiKeys =>
+    Object.fromEntries(Object.entries(keys).filter(([, value]) => !!value?.trim()).map(([id, value]) => [id, value.trim()]));
+
+// --- Crypto ---
+
+const readVault = (): StoredVault | null => {
+    const data = localStorage.getItem(VAULT_STORAGE_KEY);
+    return data ? JSON.parse(data) : null;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const writeVault = async (key: CryptoKey, salt: Uint8Array, iterations: number, keys: ApiKeys) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(keys)));
+    const stored: StoredVault = { version: 1, iterations, salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(stored));
+};
+
+// --- Session ---
+
+const notify = () => {
+    const status = getVaultStatus();
+    listeners.forEach(listener => listener(status));
+};
+
+// Any use of the keys pushes the automatic lock back
+const touch = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(lockVault, IDLE_LOCK_MS);
+};
+
+export const getVaultStatus = (): VaultStatus => sessionKey ? 'unlocked' : readVault() ? 'locked' : 'none';
+
+export const subscribeVault = (listener: (status: VaultStatus) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Sets up the vault and moves any plaintext keys from settings into it. Leaves the vault unlocked.
+export const createVault = async (passphrase: string) => {
+    if (readVault()) throw new VaultError("A key vault already exists.");
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new VaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const keys = compact(db.settings.getLegacyApiKeys());
+    await writeVault(key, salt, PBKDF2_ITERATIONS, keys);
+    db.settings.clearLegacyApiKeys();
+
+    sessionKey = key;
+    unlockedKeys = keys;
+    touch();
+    notify();
+};
+
+export const unlockVault = async (passphrase: string) => {
+    const stored = readVault();
+    if (!stored) throw new VaultError("No key vault has been set up.");
+
+    const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+    } catch {
+        // AES-GCM authentication fails when the derived key is wrong
+        throw new VaultError("Incorrect passphrase.");
+    }
+
+    sessionKey = key;
+    unlockedKeys = JSON.parse(decoder.decode(plaintext));
+    touch();
+    notify();
+};
+
+export const lockVault = () => {
+    clearTimeout(idleTimer);
+    sessionKey = null;
+    unlockedKeys = {};
+    notify();
+};
+
+// For a forgotten passphrase: the encrypted keys can't be recovered, so they're deleted
+export const resetVault = () => {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    lockVault();
+};
+
+// --- Keys ---
+
+// The key for one provider, or undefined while locked. Before a vault exists, the legacy plaintext keys are used.
+export const getApiKey = (providerId: ProviderId): string | undefined => {
+    if (sessionKey) {
+        touch();
+        return unlockedKeys[providerId] || undefined;
+    }
+    return readVault() ? undefined : db.settings.getLegacyApiKeys()[providerId] || undefined;
+};
+
+export const getApiKeys = (): ApiKeys => {
+    if (sessionKey) {
+        touch();
+        return { ...unlockedKeys };
+    }
+    if (readVault()) throw new VaultError("Unlock the key vault first.");
+    return compact(db.settings.getLegacyApiKeys());
+};
+
+// Merges updates into the stored keys; an empty value removes that provider's key
+export const setApiKeys = async (updates: ApiKeys) => {
+    const stored = readVault();
+    if (!sessionKey || !stored) throw new VaultError("Unlock the key vault before changing API keys.");
+
+    const keys = compact({ ...unlockedKeys, ...updates });
+    await writeVault(sessionKey, fromBase64(stored.salt), stored.iterations, keys);
+    unlockedKeys = keys;
+    touch();
+    notify();
+};
+
+// --- Redaction ---
+
+// Shapes of common provider keys, caught even when the vault is locked
+const KEY_PATTERNS = [
+    /sk-ant-[A-Za-z0-9_-]{8,}/g,
+    /sk-(?:or-|proj-)?[A-Za-z0-9_-]{16,}/g,
+    /AIza[0-9A-Za-z_-]{20,}/g
+];
+
+const mask = (key: string) => `${key.slice(0, 4)}…[redacted]`;
+
+export const redactSecrets = (text: string): string => {
+    let redacted = text;
+    Object.values(unlockedKeys).forEach(key => {
+        if (key && key.length >= 8) redacted = redacted.split(key).join(mask(key));
+    });
+    return KEY_PATTERNS.reduce((acc, pattern) => acc.replace(pattern, mask), redacted);
+};
+
+// Provider errors can quote request URLs or headers; scrub the message before it's logged or shown
+export const redactError = <T>(error: T): T => {
+    if (error instanceof Error) error.message = redactSecrets(error.message);
+    return error;
+};
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Workflow, WorkflowTask, TaskType } from "../types";
+import { topologicalSort, executeWorkflow } from "./workflowExecutor";
+
+vi.mock("./storage", () => ({
+    db: {
+        prompts: { getAll: async () => [], getById: async () => undefined },
+        runs: { save: async () => {}, getById: async () => undefined }
+    }
+}));
+
+// Transformation code runs inline here; the real sandbox needs a browser Worker
+vi.mock("./sandbox", async importOriginal => ({
+    ...await importOriginal<typeof import("./sandbox")>(),
+    runTransformation: async (code: string, input: any, context: Record<string, any>) => new Function('input', 'context', code)(input, context)
+}));
+
+vi.mock("./orchestrator", () => ({ streamFromPrompt: vi.fn(), analyzePromptWithSFL: vi.fn() }));
+
+// Failing tasks are logged to the console as well as to the run
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+// --- Helpers ---
+
+const task = (id: string, type: TaskType, dependencies: string[] = [], config: WorkflowTask['config'] = {}): WorkflowTask =>
+    ({ id, type, name: id, config, position: { x: 0, y: 0 }, dependencies });
+
+const workflow = (tasks: WorkflowTask[]): Workflow => ({ id: 'wf', name: 'Test', tasks, status: 'IDLE', logs: [] });
+
+const statusOf = (result: Workflow, taskId: string) => result.logs.filter(l => l.taskId === taskId).pop()?.status;
+const outputOf = (result: Workflow, taskId: string) => result.logs.filter(l => l.taskId === taskId).pop()?.output;
+
+// --- Ordering ---
+
+describe("topologicalSort", () => {
+    it("puts every task after its dependencies", () => {
+        const tasks = [task('c', TaskType.OUTPUT, ['a', 'b']), task('b', TaskType.TRANSFORMATION, ['a']), task('a', TaskType.INPUT)];
+        expect(topologicalSort(tasks).map(t => t.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it("ignores dependencies on deleted tasks", () => {
+        expect(topologicalSort([task('a', TaskType.OUTPUT, ['gone'])]).map(t => t.id)).toEqual(['a']);
+    });
+
+    it("rejects cycles", () => {
+        expect(() => topologicalSort([task('a', TaskType.TRANSFORMATION, ['b']), task('b', TaskType.TRANSFORMATION, ['a'])])).toThrow(/cycle/);
+    });
+});
+
+// --- Execution ---
+
+describe("executeWorkflow", () => {
+    it("passes each output downstream and into the context", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: 'hello', targetKey: 'greeting' }),
+            task('upper', TaskType.TRANSFORMATION, ['in'], { code: 'return input.toUpperCase() + " " + context.greeting;' }),
+            task('out', TaskType.OUTPUT, ['upper'])
+        ]));
+        expect(result.status).toBe('COMPLETED');
+        expect(outputOf(result, 'out')).toBe('HELLO hello');
+    });
+
+    it("stops at the first failing task and leaves the rest pending", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: 'not json' }),
+            task('out', TaskType.OUTPUT, ['in'], { outputFormat: 'json' }),
+            task('after', TaskType.OUTPUT, ['out'])
+        ]));
+        expect(result.status).toBe('FAILED');
+        expect(statusOf(result, 'out')).toBe('FAILED');
+        expect(statusOf(result, 'after')).toBe('PENDING');
+    });
+});
+
+// --- Branching ---
+
+describe("branching", () => {
+    it("follows the CONDITION branch that matches and skips the other", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: '42', targetKey: 'value' }),
+            task('check', TaskType.CONDITION, ['in'], { expression: 'value > 10', branches: { big: 'true', small: 'false' } }),
+            task('big', TaskType.OUTPUT, ['check']),
+            task('small', TaskType.OUTPUT, ['check']),
+            task('afterSmall', TaskType.OUTPUT, ['small'])
+        ]));
+        expect(result.status).toBe('COMPLETED');
+        expect(result.logs.find(l => l.taskId === 'check')?.branch).toBe('true');
+        expect(outputOf(result, 'big')).toBe('42');
+        expect(statusOf(result, 'small')).toBe('SKIPPED');
+        expect(statusOf(result, 'afterSmall')).toBe('SKIPPED');
+    });
+
+    it("routes to the first matching rule, or the default", async () => {
+        const router = (inputValue: string) => workflow([
+            task('in', TaskType.INPUT, [], { inputValue }),
+            task('route', TaskType.ROUTER, ['in'], {
+                routes: [{ id: 'q', label: 'Question', expression: 'contains(input, "?")' }, { id: 'x', label: 'Shout', expression: 'contains(input, "!")' }],
+                branches: { question: 'q', shout: 'x', other: 'default' }
+            }),
+            task('question', TaskType.OUTPUT, ['route']),
+            task('shout', TaskType.OUTPUT, ['route']),
+            task('other', TaskType.OUTPUT, ['route'])
+        ]);
+        const ran = (result: Workflow) => ['question', 'shout', 'other'].filter(id => statusOf(result, id) === 'COMPLETED');
+        expect(ran(await executeWorkflow(router('Why?!')))).toEqual(['question']);
+        expect(ran(await executeWorkflow(router('Stop!')))).toEqual(['shout']);
+        expect(ran(await executeWorkflow(router('Fine.')))).toEqual(['other']);
+    });
+
+    it("still runs a join with one live input", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: 'x' }),
+            task('check', TaskType.CONDITION, ['in'], { expression: 'false', branches: { yes: 'true', no: 'false' } }),
+            task('yes', TaskType.OUTPUT, ['check']),
+            task('no', TaskType.OUTPUT, ['check']),
+            task('join', TaskType.OUTPUT, ['yes', 'no'])
+        ]));
+        expect(statusOf(result, 'yes')).toBe('SKIPPED');
+        expect(statusOf(result, 'join')).toBe('COMPLETED');
+    });
+});
+
+// --- Loops ---
+
+describe("LOOP", () => {
+    const counter = (config: WorkflowTask['config']) => workflow([
+        task('in', TaskType.INPUT, [], { inputValue: '0' }),
+        task('loop', TaskType.LOOP, ['in'], { bodyTaskIds: ['inc'], carryTaskId: 'inc', targetKey: 'count', ...config }),
+        task('inc', TaskType.TRANSFORMATION, ['loop'], { code: 'return Number(input) + 1;' }),
+        task('out', TaskType.OUTPUT, ['loop'])
+    ]);
+
+    it("carries the body's output into the next pass until the condition holds", async () => {
+        const result = await executeWorkflow(counter({ untilExpression: 'input >= 3', maxIterations: 10 }));
+        expect(result.status).toBe('COMPLETED');
+        expect(outputOf(result, 'out')).toBe('3');
+        expect(result.logs.find(l => l.taskId === 'loop')).toMatchObject({ iteration: 3, loopExit: 'condition' });
+        expect(result.logs.filter(l => l.taskId === 'inc').map(l => [l.iteration, l.output])).toEqual([[1, 1], [2, 2], [3, 3]]);
+    });
+
+    it("stops at the pass cap", async () => {
+        const result = await executeWorkflow(counter({ untilExpression: 'false', maxIterations: 2 }));
+        expect(outputOf(result, 'out')).toBe('2');
+        expect(result.logs.find(l => l.taskId === 'loop')?.loopExit).toBe('maxIterations');
+    });
+
+    it("sees the pass number in the condition", async () => {
+        const result = await executeWorkflow(counter({ untilExpression: 'iteration == 4', maxIterations: 10 }));
+        expect(outputOf(result, 'out')).toBe('4');
+    });
+
+    it("clears a body node's output variable when a later pass skips it", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: '0' }),
+            task('loop', TaskType.LOOP, ['in'], { bodyTaskIds: ['inc', 'first', 'note', 'seen'], carryTaskId: 'inc', maxIterations: 2 }),
+            task('inc', TaskType.TRANSFORMATION, ['loop'], { code: 'return Number(input) + 1;' }),
+            task('first', TaskType.CONDITION, ['inc'], { expression: 'input == 1', branches: { note: 'true' } }),
+            task('note', TaskType.TRANSFORMATION, ['first'], { code: 'return "noted";', targetKey: 'note' }),
+            task('seen', TaskType.TRANSFORMATION, ['inc', 'note'], { code: 'return context.note ?? "none";' })
+        ]));
+        expect(result.status).toBe('COMPLETED');
+        expect(result.logs.filter(l => l.taskId === 'note').map(l => l.status)).toEqual(['COMPLETED', 'SKIPPED']);
+        expect(result.logs.filter(l => l.taskId === 'seen').map(l => l.output)).toEqual(['noted', 'none']);
+    });
+
+    it("names the pass and node that failed", async () => {
+        const failing = counter({ untilExpression: 'false' });
+        const tasks = failing.tasks.map(t => t.id === 'inc' ? { ...t, config: { code: 'if (input == 1) throw new Error("boom"); return Number(input) + 1;' } } : t);
+        const result = await executeWorkflow({ ...failing, tasks });
+        expect(result.status).toBe('FAILED');
+        expect(result.logs.find(l => l.taskId === 'loop')?.error).toBe('Pass 2, "inc": boom');
+    });
+});
+
+// --- Maps ---
+
+describe("MAP", () => {
+    const mapOver = (inputValue: string, config: WorkflowTask['config'], code: string) => workflow([
+        task('in', TaskType.INPUT, [], { inputValue, targetKey: 'rows' }),
+        task('map', TaskType.MAP, ['in'], { bodyTaskIds: ['each'], ...config }),
+        task('each', TaskType.TRANSFORMATION, ['map'], { code })
+    ]);
+
+    it("runs the body once per item of a JSON array", async () => {
+        const result = await executeWorkflow(mapOver('[1, 2, 3]', {}, 'return input * 10;'));
+        expect(result.status).toBe('COMPLETED');
+        expect(outputOf(result, 'map')).toEqual([
+            { index: 0, item: 1, output: 10 },
+            { index: 1, item: 2, output: 20 },
+            { index: 2, item: 3, output: 30 }
+        ]);
+        expect(result.logs.find(l => l.taskId === 'each')).toMatchObject({ status: 'COMPLETED', items: { total: 3, completed: 3, failed: 0 } });
+    });
+
+    it("reads CSV rows and exposes each under the item key", async () => {
+        const result = await executeWorkflow(mapOver('name,city\nAda,London\nAlan,Wilmslow', { itemKey: 'row' }, 'return context.row.name + " in " + input.city;'));
+        expect(outputOf(result, 'map').map((r: any) => r.output)).toEqual(['Ada in London', 'Alan in Wilmslow']);
+    });
+
+    it("takes items from an expression", async () => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: 'a b' }),
+            task('split', TaskType.TRANSFORMATION, ['in'], { code: 'return { list: input.split(" ") };', targetKey: 'parts' }),
+            task('map', TaskType.MAP, ['split'], { bodyTaskIds: ['each'], itemsExpression: 'parts.list' }),
+            task('each', TaskType.TRANSFORMATION, ['map'], { code: 'return input.toUpperCase();' })
+        ]));
+        expect(outputOf(result, 'map').map((r: any) => r.output)).toEqual(['A', 'B']);
+    });
+
+    it("records a failing item and carries on with the rest", async () => {
+        const result = await executeWorkflow(mapOver('[1, 0, 2]', {}, 'if (input === 0) throw new Error("zero"); return 1 / input;'));
+        expect(result.status).toBe('COMPLETED');
+        expect(outputOf(result, 'map')[1]).toEqual({ index: 1, item: 0, error: 'zero', failedTaskId: 'each' });
+        expect(result.logs.find(l => l.taskId === 'map')?.items).toEqual({ total: 3, completed: 2, failed: 1 });
+        expect(result.logs.find(l => l.taskId === 'each')?.error).toBe('Failed for 1 of 3 items.');
+    });
+
+    it("runs no more items at once than the concurrency allows", async () => {
+        const tracker = { active: 0, peak: 0 };
+        vi.stubGlobal('mapTracker', tracker);
+        const code = `
+            mapTracker.active++;
+            mapTracker.peak = Math.max(mapTracker.peak, mapTracker.active);
+            return new Promise(resolve => setTimeout(() => { mapTracker.active--; resolve(input); }, 5));
+        `;
+        const result = await executeWorkflow(mapOver('[1, 2, 3, 4, 5]', { concurrency: 2 }, code));
+        vi.unstubAllGlobals();
+        expect(outputOf(result, 'map')).toHaveLength(5);
+        expect(tracker.peak).toBe(2);
+    });
+
+    it("rejects input that isn't a list", async () => {
+        const result = await executeWorkflow(mapOver('[not json', {}, 'return input;'));
+        expect(result.status).toBe('FAILED');
+        expect(result.logs.find(l => l.taskId === 'map')?.error).toBe("Items look like JSON but aren't a valid JSON array.");
+    });
+});
+
+// --- Merging ---
+
+describe("merge strategies", () => {
+    const merged = async (config: WorkflowTask['config'], branches?: Record<string, string>) => {
+        const result = await executeWorkflow(workflow([
+            task('in', TaskType.INPUT, [], { inputValue: 'topic' }),
+            task('check', TaskType.CONDITION, ['in'], { expression: 'true', branches }),
+            task('a', TaskType.TRANSFORMATION, ['check'], { code: 'return "first";', targetKey: 'draft' }),
+            task('b', TaskType.TRANSFORMATION, ['check'], { code: 'return { n: 2 };', targetKey: 'stats' }),
+            task('merge', TaskType.TRANSFORMATION, ['a', 'b'], { code: 'return input;', ...config })
+        ]));
+        return outputOf(result, 'merge');
+    };
+
+    it("concatenates inputs with the separator, escapes expanded", async () => {
+        expect(await merged({ mergeStrategy: 'concat' })).toBe('first\n\n{\n  "n": 2\n}');
+        expect(await merged({ mergeStrategy: 'concat', mergeSeparator: ' |\\t' })).toBe('first |\t{\n  "n": 2\n}');
+    });
+
+    it("collects inputs into an object keyed by port name", async () => {
+        expect(await merged({ mergeStrategy: 'object' })).toEqual({ draft: 'first', stats: { n: 2 } });
+        expect(await merged({ mergeStrategy: 'object', inputPorts: { a: 'text' } })).toEqual({ text: 'first', stats: { n: 2 } });
+    });
+
+    it("fills a template from the ports", async () => {
+        expect(await merged({ mergeStrategy: 'template', mergeTemplate: '{{draft}} ({{stats}})' })).toBe('first ({"n":2})');
+    });
+
+    it("leaves out inputs on a branch not taken", async () => {
+        const branches = { a: 'true', b: 'false' };
+        expect(await merged({ mergeStrategy: 'object' }, branches)).toEqual({ draft: 'first' });
+        expect(await merged({ mergeStrategy: 'template', mergeTemplate: '{{draft}}/{{stats}}' }, branches)).toBe('first/');
+    });
+
+    it("reads only the configured source without a strategy", async () => {
+        expect(await merged({ dataSourceId: 'b' })).toEqual({ n: 2 });
+    });
+});
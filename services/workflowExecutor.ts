@@ -0,0 +1,502 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Workflow, WorkflowTask, WorkflowExecutionLog, TaskType, SFLAnalysis, UsageScope, ReviewDecision, MapItemResult, MapProgress } from "../types";
+import { db } from "./storage";
+import { streamFromPrompt, analyzePromptWithSFL } from "./orchestrator";
+import { runTransformation, SandboxExecutionError } from "./sandbox";
+import {
+    validateWorkflow, isBranchingTask, getBranchOptions, isContainerTask, isMergingTask, getInputPorts, DEFAULT_MERGE_SEPARATOR, getContainerBody, getContainerMembership, withContainerOrdering,
+    DEFAULT_LOOP_ITERATIONS, MAX_LOOP_ITERATIONS, DEFAULT_MAP_CONCURRENCY, MAX_MAP_CONCURRENCY
+} from "./workflowValidator";
+import { renderTemplate, resolveBindings } from "./templating";
+import { evaluateExpression } from "./expression";
+import { parseCsv } from "./csv";
+
+// --- Run State ---
+
+interface RunState {
+    workflow: Workflow;
+    context: Record<string, any>; // Shared results keyed by config.targetKey
+    outputs: Record<string, any>; // Results keyed by task id (used to resolve dataSourceId)
+    signal?: AbortSignal;
+    scope: UsageScope; // Provider calls are costed against the run
+    reviews: Record<string, ReviewDecision>; // Decisions made so far, keyed by HUMAN_REVIEW task id
+    branches: Record<string, string>; // Branch taken by each CONDITION/ROUTER that has run
+    reportProgress: (taskId: string, partialOutput: any) => void;
+    annotate: (taskId: string, patch: Partial<WorkflowExecutionLog>) => void; // Patches a task's latest log
+    runTask: (task: WorkflowTask, iteration: number) => Promise<void>; // Runs one pass of a loop body task
+}
+
+type TaskHandler = (task: WorkflowTask, input: any, run: RunState) => Promise<any>;
+
+export interface ExecutionCallbacks {
+    onUpdate?: (workflow: Workflow) => void;
+    signal?: AbortSignal; // Aborting cancels the running task and stops the run
+}
+
+// --- Helpers ---
+
+// WorkflowRun ids derive from the run timestamp, so usage recorded mid-run matches the run saved afterwards
+export const runIdFor = (startedAt: number) => `run-${startedAt}`;
+
+const toText = (value: any): string => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value, null, 2);
+};
+
+// Kahn's algorithm. Dependencies pointing at deleted tasks are ignored.
+export const topologicalSort = (tasks: WorkflowTask[]): WorkflowTask[] => {
+    const ids = new Set(tasks.map(t => t.id));
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    tasks.forEach(t => {
+        const deps = t.dependencies.filter(d => ids.has(d));
+        inDegree.set(t.id, deps.length);
+        deps.forEach(d => dependents.set(d, [...(dependents.get(d) || []), t.id]));
+    });
+
+    const queue = tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+    const order: WorkflowTask[] = [];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(tasks.find(t => t.id === id)!);
+        (dependents.get(id) || []).forEach(next => {
+            const remaining = inDegree.get(next)! - 1;
+            inDegree.set(next, remaining);
+            if (remaining === 0) queue.push(next);
+        });
+    }
+
+    if (order.length !== tasks.length) {
+        throw new Error("Workflow contains a cycle and cannot be executed.");
+    }
+    return order;
+};
+
+// An edge carries data once its source has completed and, out of a branching node, only if it's on the branch
+// taken. Edges without a (valid) branch are always followed.
+const hasOutput = (run: RunState, taskId: string) => Object.prototype.hasOwnProperty.call(run.outputs, taskId);
+
+const isEdgeActive = (source: WorkflowTask, targetId: string, run: RunState) => {
+    if (!hasOutput(run, source.id)) return false;
+    if (!isBranchingTask(source)) return true;
+    const branch = source.config.branches?.[targetId];
+    if (!branch || !getBranchOptions(source).some(o => o.key === branch)) return true;
+    return run.branches[source.id] === branch;
+};
+
+const activeSourceIds = (task: WorkflowTask, run: RunState) => task.dependencies.filter(id => {
+    const source = run.workflow.tasks.find(t => t.id === id);
+    return source && isEdgeActive(source, task.id, run);
+});
+
+const expandEscapes = (text: string) => text.replace(/\\([nt\\])/g, (_, ch: string) => ch === 'n' ? '\n' : ch === 't' ? '\t' : '\\');
+
+// Combines the live inputs by port name; inputs on a branch not taken are left out (empty in a template)
+const mergeInputs = (task: WorkflowTask, sourceIds: string[], run: RunState) => {
+    const ports = getInputPorts(task, run.workflow.tasks);
+    const live = ports.filter(p => sourceIds.includes(p.sourceId));
+    switch (task.config.mergeStrategy) {
+        case 'concat':
+            return live.map(p => toText(run.outputs[p.sourceId])).join(expandEscapes(task.config.mergeSeparator ?? DEFAULT_MERGE_SEPARATOR));
+        case 'object':
+            return Object.fromEntries(live.map(p => [p.name, run.outputs[p.sourceId]]));
+        default:
+            return renderTemplate(
+                task.config.mergeTemplate || '',
+                ports.map(p => ({ name: p.name, type: 'string' as const, required: false })),
+                Object.fromEntries(live.map(p => [p.name, run.outputs[p.sourceId]]))
+            );
+    }
+};
+
+// The configured data source, or the first live one when the configured source sits on a branch not taken.
+// Nodes set to merge get all their live inputs combined instead.
+const resolveInput = (task: WorkflowTask, run: RunState) => {
+    const sourceIds = activeSourceIds(task, run);
+    if (isMergingTask(task)) return mergeInputs(task, sourceIds, run);
+    const sourceId = task.config.dataSourceId && sourceIds.includes(task.config.dataSourceId) ? task.config.dataSourceId : sourceIds[0];
+    return sourceId ? run.outputs[sourceId] : undefined;
+};
+
+// Nodes whose every input lies on a branch not taken are cut off, and so in turn is everything they feed
+const isCutOff = (task: WorkflowTask, run: RunState) =>
+    task.dependencies.some(id => run.workflow.tasks.some(t => t.id === id)) && activeSourceIds(task, run).length === 0;
+
+// Expressions see the run context by output variable, plus the node's own input
+const expressionScope = (input: any, run: RunState) => ({ ...run.context, input });
+
+// MAP items: an array as is, or text holding a JSON array or CSV with a header row (as INPUT file uploads do)
+const toItems = (value: any): any[] => {
+    if (Array.isArray(value)) return value;
+    if (typeof value !== 'string' || !value.trim()) throw new Error("Items must be an array, a JSON array or CSV text.");
+    const text = value.trim();
+    if (!text.startsWith('[')) return parseCsv(text);
+    try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed)) return parsed;
+    } catch {
+        // Reported below
+    }
+    throw new Error("Items look like JSON but aren't a valid JSON array.");
+};
+
+// Walks upstream from a task to find the SFL profile of the nearest prompt in scope
+const resolveProfilePromptId = (task: WorkflowTask, run: RunState): string | undefined => {
+    if (task.config.promptId) return task.config.promptId;
+    const visited = new Set<string>();
+    const queue = [...task.dependencies];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        const upstream = run.workflow.tasks.find(t => t.id === id);
+        if (!upstream) continue;
+        if (upstream.config.promptId) return upstream.config.promptId;
+        queue.push(...upstream.dependencies);
+    }
+    return undefined;
+};
+
+// --- Task Handlers ---
+
+const taskHandlers: Record<TaskType, TaskHandler> = {
+    [TaskType.INPUT]: async (task) => {
+        return task.config.inputValue || '';
+    },
+
+    [TaskType.GENERATION]: async (task, input, run) => {
+        if (!task.config.promptId) throw new Error("No base prompt selected.");
+        const prompt = await db.prompts.getById(task.config.promptId);
+        if (!prompt) throw new Error(`Prompt ${task.config.promptId} no longer exists.`);
+        const values = resolveBindings(task.config.variableBindings, run.context);
+        const rendered = renderTemplate(prompt.content, prompt.variables, values);
+        let output = '';
+        for await (const chunk of streamFromPrompt(rendered, toText(input), task.config.useGrounding, run.signal, { ...run.scope, promptId: prompt.id })) {
+            output += chunk;
+            run.reportProgress(task.id, output);
+        }
+        return output;
+    },
+
+    [TaskType.TRANSFORMATION]: async (task, input, run) => {
+        if (!task.config.code?.trim()) return input;
+        return runTransformation(task.config.code, input, run.context);
+    },
+
+    [TaskType.ANALYSIS]: async (task, input, run): Promise<SFLAnalysis> => {
+        const promptId = resolveProfilePromptId(task, run);
+        const prompt = promptId ? await db.prompts.getById(promptId) : undefined;
+        if (!prompt) throw new Error("No SFL profile in scope. Select a profile or connect a Generator upstream.");
+        return analyzePromptWithSFL(toText(input), prompt.sfl, { ...run.scope, promptId: prompt.id });
+    },
+
+    // Only reached once a decision exists; the executor pauses the run before an undecided review
+    [TaskType.HUMAN_REVIEW]: async (task, input, run) => {
+        const review = run.reviews[task.id];
+        if (review.verdict === 'rejected') throw new Error(`Rejected in review${review.comment ? `: ${review.comment}` : '.'}`);
+        return review.editedOutput ?? input;
+    },
+
+    // Branching nodes pass their input through unchanged and record which branch to follow
+    [TaskType.CONDITION]: async (task, input, run) => {
+        run.branches[task.id] = evaluateExpression(task.config.expression || '', expressionScope(input, run)) ? 'true' : 'false';
+        return input;
+    },
+
+    [TaskType.ROUTER]: async (task, input, run) => {
+        const scope = expressionScope(input, run);
+        const match = (task.config.routes || []).find(r => evaluateExpression(r.expression, scope));
+        run.branches[task.id] = match?.id || 'default';
+        return input;
+    },
+
+    // Repeats the body until the condition holds or the pass cap is hit. The loop's value starts as its input and,
+    // when a carry task is set, becomes that task's output after each pass; it's also the loop's final output.
+    [TaskType.LOOP]: async (task, input, run) => {
+        const body = topologicalSort(getContainerBody(task, run.workflow.tasks));
+        const maxIterations = Math.min(MAX_LOOP_ITERATIONS, Math.max(1, Math.floor(task.config.maxIterations || DEFAULT_LOOP_ITERATIONS)));
+        const until = task.config.untilExpression?.trim();
+        let value = input;
+
+        for (let iteration = 1; iteration <= maxIterations; iteration++) {
+            // Each pass starts clean, so outputs, output variables and branch decisions from the previous one
+            // don't leak into it (a body node cut off by a branch would otherwise leave its old value in context)
+            body.forEach(t => {
+                delete run.outputs[t.id];
+                delete run.branches[t.id];
+                if (t.config.targetKey) delete run.context[t.config.targetKey];
+            });
+            run.outputs[task.id] = value; // Body nodes connected to the loop read the current value
+            if (task.config.targetKey) run.context[task.config.targetKey] = value;
+
+            for (const inner of body) {
+                try {
+                    await run.runTask(inner, iteration);
+                } catch (e: any) {
+                    throw new Error(`Pass ${iteration}, "${inner.name}": ${e?.message || String(e)}`);
+                }
+            }
+            if (task.config.carryTaskId && hasOutput(run, task.config.carryTaskId)) value = run.outputs[task.config.carryTaskId];
+            run.annotate(task.id, { iteration });
+
+            if (until && evaluateExpression(until, { ...expressionScope(value, run), iteration })) {
+                run.annotate(task.id, { loopExit: 'condition' });
+                return value;
+            }
+        }
+        run.annotate(task.id, { loopExit: 'maxIterations' });
+        return value;
+    },
+
+    // Runs the body once per item, a few items at a time. Each item gets its own copy of the context, outputs and
+    // branch decisions, with the item under config.itemKey and as this node's output for body nodes connected to
+    // it. A failing item is recorded in the results and the rest of the batch carries on.
+    [TaskType.MAP]: async (task, input, run): Promise<MapItemResult[]> => {
+        const body = topologicalSort(getContainerBody(task, run.workflow.tasks));
+        const items = toItems(task.config.itemsExpression?.trim() ? evaluateExpression(task.config.itemsExpression, expressionScope(input, run)) : input);
+        const concurrency = Math.min(MAX_MAP_CONCURRENCY, Math.max(1, Math.floor(task.config.concurrency || DEFAULT_MAP_CONCURRENCY)));
+        const itemKey = task.config.itemKey?.trim() || 'item';
+        const results: MapItemResult[] = [];
+        const progress: MapProgress = { total: items.length, completed: 0, failed: 0 };
+        const taskProgress = new Map<string, MapProgress>(body.map(t => [t.id, { total: items.length, completed: 0, failed: 0 }]));
+
+        run.annotate(task.id, { items: { ...progress } });
+        body.forEach(t => run.annotate(t.id, { status: 'RUNNING', items: { ...taskProgress.get(t.id)! } }));
+
+        const runItem = async (index: number) => {
+            const item = items[index];
+            const itemRun: RunState = {
+                ...run,
+                context: { ...run.context, [itemKey]: item },
+                outputs: { ...run.outputs, [task.id]: item },
+                branches: { ...run.branches },
+                reportProgress: () => {} // Concurrent items would overwrite each other's partial output
+            };
+            let current: WorkflowTask | undefined;
+            let output: any;
+            try {
+                for (const inner of body) {
+                    if (isCutOff(inner, itemRun)) continue;
+                    current = inner;
+                    const innerOutput = await runHandler(inner, itemRun);
+                    taskProgress.get(inner.id)!.completed++;
+                    if (!task.config.collectTaskId || task.config.collectTaskId === inner.id) output = innerOutput;
+                }
+                results[index] = { index, item, output };
+                progress.completed++;
+            } catch (e: any) {
+                if (run.signal?.aborted) throw e;
+                if (current) taskProgress.get(current.id)!.failed++;
+                results[index] = { index, item, error: e?.message || String(e), failedTaskId: current?.id };
+                progress.failed++;
+            }
+            run.annotate(task.id, { items: { ...progress } });
+        };
+
+        // Workers take the next unclaimed item until none are left
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) await runItem(next++);
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+        body.forEach(t => {
+            const tally = taskProgress.get(t.id)!;
+            run.annotate(t.id, {
+                status: tally.completed === 0 && tally.failed === 0 ? 'SKIPPED' : tally.completed === 0 ? 'FAILED' : 'COMPLETED',
+                error: tally.failed > 0 ? `Failed for ${tally.failed} of ${tally.total} items.` : undefined,
+                items: tally
+            });
+        });
+        return results;
+    },
+
+    [TaskType.OUTPUT]: async (task, input) => {
+        if (task.config.outputFormat === 'json') {
+            if (typeof input !== 'string') return JSON.stringify(input ?? null, null, 2);
+            try {
+                return JSON.stringify(JSON.parse(input), null, 2);
+            } catch {
+                throw new Error("Input is not valid JSON.");
+            }
+        }
+        return toText(input);
+    }
+};
+
+// --- Executor ---
+
+// Runs a task's handler on its resolved input and publishes the output to the run
+const runHandler = async (task: WorkflowTask, run: RunState) => {
+    const output = await taskHandlers[task.type](task, resolveInput(task, run), run);
+    run.outputs[task.id] = output;
+    if (task.config.targetKey) run.context[task.config.targetKey] = output;
+    return output;
+};
+
+const assertRunnable = async (workflow: Workflow) => {
+    const issues = validateWorkflow(workflow, await db.prompts.getAll()).filter(i => i.severity === 'error');
+    if (issues.length > 0) {
+        throw new Error(`Workflow has ${issues.length} blocking issue(s): ${issues.map(i => i.message).join(' ')}`);
+    }
+};
+
+// Context and outputs are only kept while paused; a finished run needs just its logs
+const saveRun = (current: Workflow, run: RunState) => {
+    const paused = current.status === 'AWAITING_REVIEW';
+    return db.runs.save({
+        id: run.scope.runId!,
+        workflowId: current.id,
+        startedAt: current.lastRun!,
+        finishedAt: paused ? undefined : Date.now(),
+        status: current.status,
+        logs: current.logs,
+        context: paused ? run.context : undefined,
+        outputs: paused ? run.outputs : undefined
+    });
+};
+
+// Runs every task that hasn't completed yet, in dependency order. An undecided HUMAN_REVIEW task pauses the run
+// with its upstream output on the log, and the run is persisted so it can resume later, even after a reload.
+const continueRun = async (
+    workflow: Workflow,
+    runAt: number,
+    previousLogs: WorkflowExecutionLog[],
+    state: Pick<RunState, 'context' | 'outputs'>,
+    callbacks: ExecutionCallbacks
+): Promise<Workflow> => {
+    const order = topologicalSort(withContainerOrdering(workflow.tasks));
+    const ownerOf = getContainerMembership(workflow.tasks);
+
+    // Every log of a run shares the run timestamp so the canvas can match them against lastRun. Loop body tasks
+    // get one log per pass; updates always go to a task's latest log.
+    const known = new Set(order.map(t => t.id));
+    let logs: WorkflowExecutionLog[] = [
+        ...previousLogs.filter(l => known.has(l.taskId)),
+        ...order.filter(t => !previousLogs.some(l => l.taskId === t.id)).map(t => ({ taskId: t.id, status: 'PENDING' as const, timestamp: runAt }))
+    ];
+    let current: Workflow = { ...workflow, status: 'RUNNING', lastRun: runAt, logs };
+
+    const latestLog = (taskId: string) => logs.filter(l => l.taskId === taskId).pop();
+
+    const updateLog = (taskId: string, patch: Partial<WorkflowExecutionLog>) => {
+        const index = logs.map(l => l.taskId).lastIndexOf(taskId);
+        logs = logs.map((l, i) => i === index ? { ...l, ...patch } : l);
+        current = { ...current, logs };
+        callbacks.onUpdate?.(current);
+    };
+
+    // The first pass reuses the task's pending log; later passes each get a fresh one
+    const startPass = (taskId: string, iteration: number) => {
+        if (iteration > 1) logs = [...logs, { taskId, status: 'PENDING', timestamp: runAt }];
+        updateLog(taskId, { iteration });
+    };
+
+    // Runs one task, or marks it skipped. Failures are logged on the task, then rethrown.
+    const step = async (task: WorkflowTask) => {
+        if (isCutOff(task, run)) {
+            updateLog(task.id, { status: 'SKIPPED' });
+            if (isContainerTask(task)) getContainerBody(task, workflow.tasks).forEach(t => updateLog(t.id, { status: 'SKIPPED' }));
+            return;
+        }
+        updateLog(task.id, { status: 'RUNNING' });
+        try {
+            if (callbacks.signal?.aborted) throw new Error("Run cancelled.");
+            const output = await runHandler(task, run);
+            updateLog(task.id, { status: 'COMPLETED', output, branch: run.branches[task.id] });
+        } catch (e: any) {
+            console.error(`Task ${task.name} failed`, e);
+            updateLog(task.id, {
+                status: 'FAILED',
+                error: callbacks.signal?.aborted ? "Run cancelled." : e?.message || String(e),
+                errorDetail: e instanceof SandboxExecutionError ? e.detail : undefined
+            });
+            throw e;
+        }
+    };
+
+    const run: RunState = {
+        workflow,
+        context: state.context,
+        outputs: state.outputs,
+        signal: callbacks.signal,
+        scope: { source: 'workflow', workflowId: workflow.id, runId: runIdFor(runAt) },
+        reviews: Object.fromEntries(logs.filter(l => l.review).map(l => [l.taskId, l.review!])),
+        branches: Object.fromEntries(logs.filter(l => l.branch).map(l => [l.taskId, l.branch!])),
+        reportProgress: (taskId, partialOutput) => updateLog(taskId, { output: partialOutput }),
+        annotate: updateLog,
+        runTask: async (task, iteration) => {
+            startPass(task.id, iteration);
+            await step(task);
+        }
+    };
+
+    callbacks.onUpdate?.(current);
+
+    for (const task of order) {
+        // Loop and map bodies run within their container's turn
+        if (ownerOf.has(task.id) || latestLog(task.id)?.status === 'COMPLETED') continue;
+        if (task.type === TaskType.HUMAN_REVIEW && !run.reviews[task.id] && !callbacks.signal?.aborted && !isCutOff(task, run)) {
+            updateLog(task.id, { status: 'AWAITING_REVIEW', output: resolveInput(task, run) });
+            current = { ...current, status: 'AWAITING_REVIEW' };
+            await saveRun(current, run);
+            callbacks.onUpdate?.(current);
+            return current;
+        }
+
+        try {
+            await step(task);
+        } catch {
+            current = { ...current, status: 'FAILED' };
+            await saveRun(current, run);
+            callbacks.onUpdate?.(current);
+            return current;
+        }
+    }
+
+    current = { ...current, status: 'COMPLETED' };
+    await saveRun(current, run);
+    callbacks.onUpdate?.(current);
+    return current;
+};
+
+// The run this workflow is paused in, if any. Run ids only carry the start time, so the owner is checked too:
+// a copy of a workflow can share its lastRun with the original.
+const getPausedRun = async (workflow: Workflow) => {
+    if (!workflow.lastRun) return undefined;
+    const paused = await db.runs.getById(runIdFor(workflow.lastRun));
+    return paused?.status === 'AWAITING_REVIEW' && paused.workflowId === workflow.id ? paused : undefined;
+};
+
+// A new run supersedes one still waiting for review
+const abandonPausedRun = async (workflow: Workflow) => {
+    if (workflow.status !== 'AWAITING_REVIEW') return;
+    const paused = await getPausedRun(workflow);
+    if (!paused) return;
+    await db.runs.save({ ...paused, status: 'FAILED', finishedAt: Date.now(), context: undefined, outputs: undefined });
+};
+
+export const executeWorkflow = async (workflow: Workflow, callbacks: ExecutionCallbacks = {}): Promise<Workflow> => {
+    await assertRunnable(workflow);
+    await abandonPausedRun(workflow);
+    return continueRun(workflow, Date.now(), [], { context: {}, outputs: {} }, callbacks);
+};
+
+// Records the reviewer's decision on the task the run is paused at, then carries on from there
+export const resumeWorkflow = async (workflow: Workflow, taskId: string, review: ReviewDecision, callbacks: ExecutionCallbacks = {}): Promise<Workflow> => {
+    const paused = await getPausedRun(workflow);
+    const pending = paused?.logs.find(l => l.taskId === taskId);
+    if (!paused || pending?.status !== 'AWAITING_REVIEW') {
+        throw new Error("This run is no longer waiting for review.");
+    }
+    await assertRunnable(workflow);
+
+    const logs = paused.logs.map(l => l.taskId === taskId ? { ...l, review } : l);
+    return continueRun(workflow, paused.startedAt, logs, { context: paused.context || {}, outputs: paused.outputs || {} }, callbacks);
+};
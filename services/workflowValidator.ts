@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Workflow, WorkflowTask, WorkflowIssue, TaskType, Prompt } from "../types";
+import { syncVariables, extractVariableNames } from "./templating";
+import { compileExpression } from "./expression";
+
+// --- Graph Helpers ---
+
+const buildDependents = (tasks: WorkflowTask[]) => {
+    const dependents = new Map<string, string[]>();
+    tasks.forEach(t => t.dependencies.forEach(d => dependents.set(d, [...(dependents.get(d) || []), t.id])));
+    return dependents;
+};
+
+// True if `fromId` can reach `toId` by following dependency edges downstream
+const canReach = (dependents: Map<string, string[]>, fromId: string, toId: string): boolean => {
+    const visited = new Set<string>();
+    const stack = [...(dependents.get(fromId) || [])];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === toId) return true;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        stack.push(...(dependents.get(id) || []));
+    }
+    return false;
+};
+
+// Connecting source -> target closes a loop if target already feeds into source
+export const wouldCreateCycle = (tasks: WorkflowTask[], sourceId: string, targetId: string): boolean => {
+    if (sourceId === targetId) return true;
+    return canReach(buildDependents(tasks), targetId, sourceId);
+};
+
+// All tasks upstream of `taskId`, nearest first
+export const getAncestorIds = (tasks: WorkflowTask[], taskId: string): string[] => {
+    const ancestors: string[] = [];
+    const queue = [...(tasks.find(t => t.id === taskId)?.dependencies || [])];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (id === taskId || ancestors.includes(id)) continue;
+        ancestors.push(id);
+        queue.push(...(tasks.find(t => t.id === id)?.dependencies || []));
+    }
+    return ancestors;
+};
+
+// --- Branching ---
+
+export const isBranchingTask = (task: WorkflowTask) => task.type === TaskType.CONDITION || task.type === TaskType.ROUTER;
+
+// The branches an edge out of a CONDITION or ROUTER can be assigned to, keyed as stored in config.branches
+export const getBranchOptions = (task: WorkflowTask): { key: string; label: string }[] => {
+    if (task.type === TaskType.CONDITION) return [{ key: 'true', label: 'true' }, { key: 'false', label: 'false' }];
+    if (task.type === TaskType.ROUTER) {
+        return [...(task.config.routes || []).map(r => ({ key: r.id, label: r.label || 'unnamed' })), { key: 'default', label: 'default' }];
+    }
+    return [];
+};
+
+const expressionError = (source: string | undefined): string | null => {
+    if (!source?.trim()) return "Expression is empty.";
+    try {
+        compileExpression(source);
+        return null;
+    } catch (e: any) {
+        return e?.message || String(e);
+    }
+};
+
+// --- Input Ports ---
+// A node set to merge its inputs names each incoming edge as a port, and combines them by port name
+
+export const PORT_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+export const DEFAULT_MERGE_SEPARATOR = '\\n\\n';
+
+export const isMergingTask = (task: WorkflowTask) => !!task.config.mergeStrategy && task.config.mergeStrategy !== 'single';
+
+// The configured port name, else the upstream output variable when it's a valid name, else its position
+export const getDefaultPortName = (source: WorkflowTask | undefined, index: number) =>
+    source?.config.targetKey && PORT_NAME_PATTERN.test(source.config.targetKey) ? source.config.targetKey : `input${index + 1}`;
+
+export const getInputPorts = (task: WorkflowTask, tasks: WorkflowTask[]): { sourceId: string; name: string }[] =>
+    task.dependencies
+        .filter(id => tasks.some(t => t.id === id))
+        .map((sourceId, i) => ({
+            sourceId,
+            name: task.config.inputPorts?.[sourceId]?.trim() || getDefaultPortName(tasks.find(t => t.id === sourceId), i)
+        }));
+
+// --- Containers ---
+// LOOP and MAP nodes own a body of ordinary tasks (config.bodyTaskIds) that they run within their own turn:
+// a LOOP once per pass, a MAP once per item.
+
+export const DEFAULT_LOOP_ITERATIONS = 3;
+export const MAX_LOOP_ITERATIONS = 20;
+export const DEFAULT_MAP_CONCURRENCY = 4;
+export const MAX_MAP_CONCURRENCY = 16;
+
+// Pausing for review, or nesting one container in another, isn't supported inside a body
+const NON_NESTABLE = [TaskType.INPUT, TaskType.HUMAN_REVIEW, TaskType.LOOP, TaskType.MAP];
+
+export const isContainerTask = (task: WorkflowTask) => task.type === TaskType.LOOP || task.type === TaskType.MAP;
+
+export const canRunInContainer = (task: WorkflowTask) => !NON_NESTABLE.includes(task.type);
+
+export const getContainerBody = (container: WorkflowTask, tasks: WorkflowTask[]) => tasks.filter(t => container.config.bodyTaskIds?.includes(t.id));
+
+// Body task id -> id of the container that owns it
+export const getContainerMembership = (tasks: WorkflowTask[]): Map<string, string> => {
+    const ownerOf = new Map<string, string>();
+    tasks.filter(isContainerTask).forEach(container => getContainerBody(container, tasks).forEach(t => {
+        if (!ownerOf.has(t.id)) ownerOf.set(t.id, container.id);
+    }));
+    return ownerOf;
+};
+
+// The graph the executor orders by: body tasks come after their container, and a container after everything its
+// body reads from outside, so the whole body can run within the container's turn
+export const withContainerOrdering = (tasks: WorkflowTask[]): WorkflowTask[] => {
+    const ownerOf = getContainerMembership(tasks);
+    return tasks.map(t => {
+        const dependencies = new Set(t.dependencies);
+        const ownerId = ownerOf.get(t.id);
+        if (ownerId) dependencies.add(ownerId);
+        if (isContainerTask(t)) {
+            getContainerBody(t, tasks).forEach(member => member.dependencies
+                .filter(d => d !== t.id && ownerOf.get(d) !== t.id)
+                .forEach(d => dependencies.add(d)));
+        }
+        return { ...t, dependencies: Array.from(dependencies) };
+    });
+};
+
+const findCycleMembers = (tasks: WorkflowTask[]): Set<string> => {
+    const dependents = buildDependents(tasks);
+    return new Set(tasks.filter(t => canReach(dependents, t.id, t.id)).map(t => t.id));
+};
+
+const findReachable = (tasks: WorkflowTask[], rootIds: string[]): Set<string> => {
+    const dependents = buildDependents(tasks);
+    const reachable = new Set<string>(rootIds);
+    const stack = [...rootIds];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        (dependents.get(id) || []).forEach(next => {
+            if (!reachable.has(next)) {
+                reachable.add(next);
+                stack.push(next);
+            }
+        });
+    }
+    return reachable;
+};
+
+// --- Validation ---
+
+// `prompts` is optional; when given, Generator prompt references and variable bindings are checked too
+export const validateWorkflow = (workflow: Workflow, prompts: Prompt[] = []): WorkflowIssue[] => {
+    const { tasks } = workflow;
+    const issues: WorkflowIssue[] = [];
+
+    // 1. Cycles
+    const cycleMembers = findCycleMembers(tasks);
+    cycleMembers.forEach(taskId => {
+        issues.push({ code: 'CYCLE', severity: 'error', taskId, message: 'Part of a dependency cycle.' });
+    });
+
+    // 2. Unreachable nodes (only meaningful once the graph has an entry point)
+    const inputIds = tasks.filter(t => t.type === TaskType.INPUT).map(t => t.id);
+    if (inputIds.length > 0) {
+        const reachable = findReachable(tasks, inputIds);
+        tasks
+            .filter(t => !reachable.has(t.id) && !cycleMembers.has(t.id))
+            .forEach(t => issues.push({ code: 'UNREACHABLE', severity: 'warning', taskId: t.id, message: 'Not connected to any Input node.' }));
+    }
+
+    // 3. Generators need a prompt
+    tasks
+        .filter(t => t.type === TaskType.GENERATION && !t.config.promptId)
+        .forEach(t => issues.push({ code: 'MISSING_PROMPT', severity: 'error', taskId: t.id, message: 'No base prompt selected.' }));
+
+    // 3b. Required prompt variables need a binding or a default
+    if (prompts.length > 0) {
+        tasks.filter(t => t.type === TaskType.GENERATION && t.config.promptId).forEach(t => {
+            const prompt = prompts.find(p => p.id === t.config.promptId);
+            if (!prompt) {
+                issues.push({ code: 'MISSING_PROMPT', severity: 'error', taskId: t.id, message: 'Base prompt no longer exists.' });
+                return;
+            }
+            syncVariables(prompt.content, prompt.variables)
+                .filter(v => v.required && !v.defaultValue && !t.config.variableBindings?.[v.name])
+                .forEach(v => issues.push({ code: 'UNBOUND_VARIABLE', severity: 'error', taskId: t.id, message: `Required variable {{${v.name}}} is not bound.` }));
+        });
+    }
+
+    // 4. Data source must be one of the node's dependencies
+    tasks
+        .filter(t => t.type !== TaskType.INPUT && !isMergingTask(t) && t.config.dataSourceId && !t.dependencies.includes(t.config.dataSourceId))
+        .forEach(t => issues.push({ code: 'INVALID_DATA_SOURCE', severity: 'error', taskId: t.id, message: 'Input data source is not connected to this node.' }));
+
+    // 5. Output variables must be unique (Output nodes don't expose theirs)
+    const byKey = new Map<string, WorkflowTask[]>();
+    tasks
+        .filter(t => t.type !== TaskType.OUTPUT && t.config.targetKey)
+        .forEach(t => byKey.set(t.config.targetKey!, [...(byKey.get(t.config.targetKey!) || []), t]));
+    byKey.forEach((owners, key) => {
+        if (owners.length < 2) return;
+        owners.forEach(t => issues.push({ code: 'DUPLICATE_TARGET_KEY', severity: 'error', taskId: t.id, message: `Output variable $${key} is used by ${owners.length} nodes.` }));
+    });
+
+    // 6. Conditions and router rules must parse
+    tasks.filter(t => t.type === TaskType.CONDITION).forEach(t => {
+        const error = expressionError(t.config.expression);
+        if (error) issues.push({ code: 'INVALID_EXPRESSION', severity: 'error', taskId: t.id, message: `Condition: ${error}` });
+    });
+    tasks.filter(t => t.type === TaskType.ROUTER).forEach(t => {
+        if (!t.config.routes?.length) issues.push({ code: 'INVALID_EXPRESSION', severity: 'error', taskId: t.id, message: 'Router has no rules.' });
+        t.config.routes?.forEach(r => {
+            const error = expressionError(r.expression);
+            if (error) issues.push({ code: 'INVALID_EXPRESSION', severity: 'error', taskId: t.id, message: `Rule "${r.label || 'unnamed'}": ${error}` });
+        });
+    });
+
+    // 7. Edges out of a branching node should name their branch; unlabelled ones are always followed
+    tasks.filter(isBranchingTask).forEach(source => {
+        const keys = new Set(getBranchOptions(source).map(o => o.key));
+        tasks.filter(t => t.dependencies.includes(source.id)).forEach(target => {
+            const branch = source.config.branches?.[target.id];
+            if (!branch || !keys.has(branch)) {
+                issues.push({ code: 'UNLABELLED_BRANCH', severity: 'warning', taskId: source.id, message: `Edge to "${target.name}" has no branch, so it always runs.` });
+            }
+        });
+    });
+
+    // 8. Loops and maps need a body of ordinary tasks owned by that container alone, which can all run within its turn
+    const containers = tasks.filter(isContainerTask);
+    const memberCounts = new Map<string, number>();
+    containers.forEach(container => {
+        const kind = container.type === TaskType.LOOP ? 'Loop' : 'Map';
+        const body = getContainerBody(container, tasks);
+        if (body.length === 0) issues.push({ code: 'INVALID_CONTAINER', severity: 'error', taskId: container.id, message: `${kind} has no body nodes.` });
+        body.forEach(t => memberCounts.set(t.id, (memberCounts.get(t.id) || 0) + 1));
+        body.filter(t => !canRunInContainer(t)).forEach(t => {
+            issues.push({ code: 'INVALID_CONTAINER', severity: 'error', taskId: t.id, message: `${t.type.toLowerCase().replace('_', ' ')} nodes can't run inside a ${kind.toLowerCase()}.` });
+        });
+        const resultTaskId = container.type === TaskType.LOOP ? container.config.carryTaskId : container.config.collectTaskId;
+        if (resultTaskId && !body.some(t => t.id === resultTaskId)) {
+            issues.push({ code: 'INVALID_CONTAINER', severity: 'error', taskId: container.id, message: `The ${container.type === TaskType.LOOP ? 'carried' : 'collected'} output must come from a body node.` });
+        }
+        const [label, source] = container.type === TaskType.LOOP ? ['Repeat until', container.config.untilExpression] : ['Items', container.config.itemsExpression];
+        const error = source?.trim() ? expressionError(source) : null;
+        if (error) issues.push({ code: 'INVALID_EXPRESSION', severity: 'error', taskId: container.id, message: `${label}: ${error}` });
+    });
+    memberCounts.forEach((count, taskId) => {
+        if (count > 1) issues.push({ code: 'INVALID_CONTAINER', severity: 'error', taskId, message: 'Belongs to more than one loop or map.' });
+    });
+    if (containers.length > 0 && cycleMembers.size === 0) {
+        const orderingCycles = findCycleMembers(withContainerOrdering(tasks));
+        containers.filter(c => orderingCycles.has(c.id)).forEach(c => {
+            issues.push({ code: 'INVALID_CONTAINER', severity: 'error', taskId: c.id, message: 'Body feeds its own container, or reads from a node that runs after it.' });
+        });
+    }
+
+    // 9. Merged inputs need distinct, valid port names, and a template may only reference those ports
+    tasks.filter(isMergingTask).forEach(t => {
+        const names = getInputPorts(t, tasks).map(p => p.name);
+        if (names.length === 0) issues.push({ code: 'INVALID_MERGE', severity: 'warning', taskId: t.id, message: 'Merges its inputs, but nothing is connected.' });
+        names.filter(name => !PORT_NAME_PATTERN.test(name)).forEach(name => {
+            issues.push({ code: 'INVALID_MERGE', severity: 'error', taskId: t.id, message: `Port "${name}" must start with a letter or underscore and contain only letters, digits and underscores.` });
+        });
+        new Set(names.filter((name, i) => names.indexOf(name) !== i)).forEach(name => {
+            issues.push({ code: 'INVALID_MERGE', severity: 'error', taskId: t.id, message: `Port "${name}" is used by more than one input.` });
+        });
+        if (t.config.mergeStrategy !== 'template') return;
+        if (!t.config.mergeTemplate?.trim()) issues.push({ code: 'INVALID_MERGE', severity: 'error', taskId: t.id, message: 'Merge template is empty.' });
+        extractVariableNames(t.config.mergeTemplate || '').filter(name => !names.includes(name)).forEach(name => {
+            issues.push({ code: 'INVALID_MERGE', severity: 'error', taskId: t.id, message: `Merge template references {{${name}}}, which is not an input port.` });
+        });
+    });
+
+    return issues;
+};
+
+export const hasBlockingIssues = (issues: WorkflowIssue[]) => issues.some(i => i.severity === 'error');
@@ -37,6 +37,16 @@ export interface SFLAnalysis {
 
 // --- Application Models ---
 
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface PromptVariable {
+  name: string; // Referenced in content as {{name}}
+  type: PromptVariableType;
+  defaultValue?: string; // Raw text, coerced according to type
+  required: boolean;
+  description?: string;
+}
+
 export interface Prompt {
   id: string;
   title: string;
@@ -47,9 +57,26 @@ export interface Prompt {
     mode: SFLMode;
   };
   content: string; // The generated or written prompt text
+  variables?: PromptVariable[]; // Declared {{variable}} slots in content
   version: number;
+  // Metadata of the current (head) version; snapshotted into history with it
+  branch?: string; // Defaults to 'main'
+  parentVersion?: number;
+  versionTags?: string[];
+  changeDescription?: string;
   history: PromptVersion[];
   lastAnalysis?: SFLAnalysis;
+  testSuite?: TestCase[];
+  draft?: PromptDraft; // Uncommitted edits, restored into the editor on open
+  updatedAt: number;
+}
+
+// Debounced editor state between versions; committing a version clears it
+export interface PromptDraft {
+  content: string;
+  sfl: Prompt['sfl'];
+  title?: string; // Absent on drafts saved before titles and variables were kept
+  variables?: PromptVariable[];
   updatedAt: number;
 }
 
@@ -63,46 +90,165 @@ export interface PromptVersion {
   };
   timestamp: number;
   changeDescription?: string;
+  branch?: string; // Defaults to 'main'
+  parentVersion?: number; // The version this one was derived from
+  versionTags?: string[]; // e.g. "prod"; a tag names at most one version per prompt
 }
 
+// Ids of the built-in provider adapters. Providers are registered by string id (see services/providers),
+// so settings and models accept any registered id, not only these.
 export enum AIProvider {
   GOOGLE = 'google',
+  OPENAI = 'openai',
+  ANTHROPIC = 'anthropic',
   OPENROUTER = 'openrouter',
   MISTRAL = 'mistral',
   OLLAMA = 'ollama'
 }
 
+export type ProviderId = string;
+
+// Keyed by provider id. Held in the encrypted key vault, never in UserSettings.
+export type ApiKeys = Record<ProviderId, string | undefined>;
+
 export interface UserSettings {
-  apiKeys: {
-    google?: string;
-    openrouter?: string;
-    mistral?: string;
-    ollama?: string; // Kept for consistency, though Ollama usually doesn't need a key
-  };
-  ollamaBaseUrl?: string;
+  baseUrls: Record<ProviderId, string | undefined>; // Overrides for adapters with a configurable endpoint
   useSearchGrounding: boolean;
   live: {
     voice: string;
     model: string;
     quality: 'low' | 'standard' | 'high';
   };
-  generation: {
-    provider: AIProvider;
-    model: string;
+  generation: ModelTarget & {
+    fallbacks: ModelTarget[]; // Tried in order when the primary model fails
   };
-  analysis: {
-    provider: AIProvider;
-    model: string;
+  analysis: ModelTarget & {
+    fallbacks: ModelTarget[];
+  };
+  network: {
+    maxRetries: number; // Retries for rate limits, 5xx and network failures
+    timeoutsMs: Record<ProviderId, number | undefined>; // Overrides the adapter's default timeout
+  };
+  budget: {
+    dailyUsd?: number;
+    monthlyUsd?: number;
+    alertAt: number; // Fraction of a budget (e.g. 0.8) that raises a warning
   };
+  pricing: Record<string, ModelPricing | undefined>; // Price overrides keyed by "provider/model"
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // True when the provider didn't report usage and it was approximated from text length
 }
 
 export interface AIModel {
   name: string;
   displayName: string;
-  provider: AIProvider;
+  provider: ProviderId;
   description?: string;
   supportedGenerationMethods?: string[];
   isVisionCapable?: boolean;
+  contextLength?: number; // Max tokens, when the provider reports it
+  pricing?: ModelPricing;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+}
+
+// --- Usage Tracking ---
+
+export type UsageSource = 'generation' | 'analysis' | 'workflow' | 'arena' | 'test' | 'wizard' | 'extraction';
+
+// What a provider call was made for, so its cost can be rolled up per prompt and per workflow run
+export interface UsageScope {
+  source: UsageSource;
+  promptId?: string;
+  workflowId?: string;
+  runId?: string; // WorkflowRun.id
+}
+
+export interface UsageRecord extends UsageScope, TokenUsage {
+  id: string;
+  timestamp: number;
+  day: string; // Local YYYY-MM-DD, for daily totals
+  provider: ProviderId;
+  model: string;
+  costUsd?: number; // Omitted when no price is known for the model
+}
+
+// --- Test Suite Models ---
+
+export type TestAssertion =
+  | { id: string; type: 'contains'; value: string; caseSensitive?: boolean }
+  | { id: string; type: 'regex'; pattern: string; flags?: string }
+  | { id: string; type: 'jsonSchema'; schema: string } // JSON Schema source text
+  | { id: string; type: 'maxLength'; value: number }
+  | { id: string; type: 'sflAlignment'; threshold: number }; // Minimum SFL analysis score (0-100)
+
+export type TestAssertionType = TestAssertion['type'];
+
+export interface TestCase {
+  id: string;
+  name: string;
+  inputs: Record<string, string>; // Values for the prompt's {{variables}}
+  userInput?: string; // User message sent alongside the rendered prompt
+  assertions: TestAssertion[];
+}
+
+export interface AssertionResult {
+  assertionId: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface TestCaseResult {
+  caseId: string;
+  caseName: string;
+  passed: boolean;
+  output: string;
+  assertions: AssertionResult[];
+  error?: string; // Generation or rendering failed before assertions could run
+}
+
+export interface TestRun {
+  id: string;
+  promptId: string;
+  promptVersion: number;
+  provider: ProviderId;
+  model: string;
+  startedAt: number;
+  results: TestCaseResult[];
+}
+
+// --- Evaluation (Arena) Models ---
+
+export interface ModelTarget {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface EvaluationResult extends ModelTarget {
+  output: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  analysis?: SFLAnalysis; // Present when the run was scored
+  error?: string;
+}
+
+// One Arena run of a prompt version against several models
+export interface Evaluation {
+  id: string;
+  promptId: string;
+  promptVersion: number;
+  promptContent: string; // Snapshot of what was actually sent
+  input: string;
+  scored: boolean;
+  createdAt: number;
+  results: EvaluationResult[];
 }
 
 // --- Workflow & Lab Models ---
@@ -113,9 +259,27 @@ export enum TaskType {
   TRANSFORMATION = 'TRANSFORMATION',
   ANALYSIS = 'ANALYSIS',
   HUMAN_REVIEW = 'HUMAN_REVIEW',
+  CONDITION = 'CONDITION',
+  ROUTER = 'ROUTER',
+  LOOP = 'LOOP',
+  MAP = 'MAP',
   OUTPUT = 'OUTPUT'
 }
 
+export type VariableBinding =
+  | { source: 'context'; key: string } // Upstream targetKey (dot paths allowed)
+  | { source: 'literal'; value: string };
+
+// How a node with several inputs combines them. 'single' reads config.dataSourceId alone.
+export type InputMergeStrategy = 'single' | 'concat' | 'object' | 'template';
+
+// One labelled outgoing branch of a ROUTER; rules are tried in order and the first truthy one is taken
+export interface RouteRule {
+  id: string;
+  label: string;
+  expression: string;
+}
+
 export interface WorkflowTask {
   id: string;
   type: TaskType;
@@ -123,35 +287,139 @@ export interface WorkflowTask {
   description?: string;
   config: {
     promptId?: string; // For generation
+    variableBindings?: Record<string, VariableBinding>; // For generation: prompt variable -> value source
     code?: string; // For transformation (JS)
     targetKey?: string; // Where to store result in context
     dataSourceId?: string; // ID of the task that provides input
+    mergeStrategy?: InputMergeStrategy; // Default 'single'
+    inputPorts?: Record<string, string>; // Upstream task id -> port name (defaults to the upstream output variable)
+    mergeSeparator?: string; // For 'concat': placed between inputs; \n and \t are expanded
+    mergeTemplate?: string; // For 'template': {{port}} placeholders
     inputType?: 'text' | 'file' | 'audio' | 'video'; // For INPUT tasks
     inputValue?: string; // Raw text content
     fileName?: string; // For file inputs
     fileType?: string; // Mime type
+    blobId?: string; // Binary file contents kept in the blob store
     useGrounding?: boolean; // For Generation/Analysis: Enable Google Search Grounding
     outputFormat?: 'markdown' | 'json' | 'text'; // For OUTPUT tasks
+    reviewInstructions?: string; // For HUMAN_REVIEW: shown to the reviewer
+    expression?: string; // For CONDITION: evaluated over the run context
+    routes?: RouteRule[]; // For ROUTER
+    branches?: Record<string, string>; // For CONDITION/ROUTER: downstream task id -> 'true' | 'false' | route id | 'default'
+    bodyTaskIds?: string[]; // For LOOP/MAP: the tasks run on every pass, or for every item
+    untilExpression?: string; // For LOOP: checked after each pass; the loop stops once it holds
+    maxIterations?: number; // For LOOP
+    carryTaskId?: string; // For LOOP: body task whose output becomes the loop value for the next pass
+    itemsExpression?: string; // For MAP: evaluates to the items; defaults to the node's input
+    itemKey?: string; // For MAP: context variable holding the current item (default "item")
+    concurrency?: number; // For MAP: items processed at once
+    collectTaskId?: string; // For MAP: body task whose output is collected per item (default: the last to run)
   };
   position: { x: number; y: number }; // For canvas visualization
   dependencies: string[]; // IDs of tasks that must finish first
 }
 
+export interface TaskErrorDetail {
+  name: string; // e.g. "TypeError", "TimeoutError"
+  message: string;
+  line?: number; // Line within the user's code, when known
+  column?: number;
+}
+
+export interface ReviewDecision {
+  verdict: 'approved' | 'rejected';
+  comment?: string;
+  editedOutput?: string; // Replaces the upstream output when approved
+  decidedAt: number;
+}
+
+// One entry of a MAP node's output. Failed items keep their error instead of aborting the batch.
+export interface MapItemResult {
+  index: number;
+  item: any;
+  output?: any;
+  error?: string;
+  failedTaskId?: string;
+}
+
+// Item tallies for a MAP node, or for one of its body tasks across all items
+export interface MapProgress {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
 export interface WorkflowExecutionLog {
   taskId: string;
-  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
-  output?: any;
+  status: 'PENDING' | 'RUNNING' | 'AWAITING_REVIEW' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
+  output?: any; // While awaiting review: the upstream output under review
+  branch?: string; // For CONDITION/ROUTER: the branch taken
+  iteration?: number; // For tasks inside a LOOP: the pass this log belongs to. On the LOOP itself: passes run.
+  loopExit?: 'condition' | 'maxIterations'; // For LOOP: why it stopped
+  items?: MapProgress; // For MAP and its body tasks
   error?: string;
+  errorDetail?: TaskErrorDetail; // Structured error (e.g. from sandboxed code)
+  review?: ReviewDecision; // For HUMAN_REVIEW tasks once decided
   timestamp: number;
 }
 
+export type WorkflowIssueCode =
+  | 'CYCLE'
+  | 'UNREACHABLE'
+  | 'MISSING_PROMPT'
+  | 'UNBOUND_VARIABLE'
+  | 'INVALID_DATA_SOURCE'
+  | 'DUPLICATE_TARGET_KEY'
+  | 'INVALID_EXPRESSION'
+  | 'UNLABELLED_BRANCH'
+  | 'INVALID_CONTAINER'
+  | 'INVALID_MERGE';
+
+export interface WorkflowIssue {
+  code: WorkflowIssueCode;
+  severity: 'error' | 'warning'; // Errors block execution
+  message: string;
+  taskId?: string; // Omitted for workflow-level issues
+}
+
 export interface Workflow {
   id: string;
   name: string;
   tasks: WorkflowTask[];
   lastRun?: number;
-  status: 'IDLE' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  status: 'IDLE' | 'RUNNING' | 'AWAITING_REVIEW' | 'COMPLETED' | 'FAILED';
+  logs: WorkflowExecutionLog[]; // Logs of the most recent run
+  updatedAt?: number;
+}
+
+// A named folder for organising the library; prompts and workflows may belong to several
+export interface Collection {
+  id: string;
+  name: string;
+  promptIds: string[];
+  workflowIds: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  startedAt: number; // Matches Workflow.lastRun and the log timestamps of the run
+  finishedAt?: number;
+  status: Workflow['status'];
   logs: WorkflowExecutionLog[];
+  // Kept only while the run is paused for review, so it can resume after a reload
+  context?: Record<string, any>;
+  outputs?: Record<string, any>;
+}
+
+export interface StoredBlob {
+  id: string;
+  name: string;
+  type: string;
+  data: Blob;
+  createdAt: number;
 }
 
 export interface GeneratedImage {